@@ -19,6 +19,7 @@ import {
   View,
 } from 'react-native';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
+import { signOutWithConfirm } from '../../lib/session';
 import { supabase } from '../../lib/supabase';
 
 type Mode = 'signin' | 'signup';
@@ -150,7 +151,8 @@ export default function AuthScreen() {
     }
   };
 
-  const signOut = () => supabase.auth.signOut();
+  const doSignOut = () =>
+    signOutWithConfirm().catch((e: any) => Alert.alert('Sign out failed', e?.message ?? 'Please try again.'));
 
   const headerTop = 80;
 
@@ -316,7 +318,7 @@ export default function AuthScreen() {
                     {/* Sign out (if logged in) */}
                     {userId && (
                       <TouchableOpacity
-                        onPress={signOut}
+                        onPress={doSignOut}
                         style={{
                           backgroundColor: '#374151',
                           paddingVertical: 12,
@@ -499,7 +501,7 @@ export default function AuthScreen() {
                     {/* Sign out (if logged in) */}
                     {userId && (
                       <TouchableOpacity
-                        onPress={signOut}
+                        onPress={doSignOut}
                         style={{
                           backgroundColor: '#374151',
                           paddingVertical: 12,
@@ -1,13 +1,17 @@
 // app/(protected)/(tabs)/_layout.tsx
 import "@/lib/geo";
+import {
+  addDeliveredNotification,
+  getUnreadCount,
+  reloadInbox,
+  subscribeInbox,
+} from "@/lib/inbox";
 import { supabase } from "@/lib/supabase";
-import AsyncStorage from "@react-native-async-storage/async-storage";
 import * as Notifications from "expo-notifications";
 import { Ionicons, MaterialCommunityIcons } from "@expo/vector-icons";
 import { Tabs } from "expo-router";
 import React, { useEffect, useState } from "react";
-import { Text, View } from "react-native";
-import { UNREAD_KEY } from "@/lib/geo";
+import { AppState, Text, View } from "react-native";
 
 // ⬇️ Custom icon showing user's initial
 function ProfileTabIcon({
@@ -68,35 +72,31 @@ function ProfileTabIcon({
 export default function TabsLayout() {
   const [notifCount, setNotifCount] = useState(0);
 
-  // 🔁 Keep unread count in sync with AsyncStorage
+  // 🔁 Unread badge follows the inbox (lib/inbox.ts emits on every change)
   useEffect(() => {
     let isMounted = true;
+    const unsubscribe = subscribeInbox((n) => {
+      if (isMounted) setNotifCount(n);
+    });
 
-    const loadCount = async () => {
-      try {
-        const raw = await AsyncStorage.getItem(UNREAD_KEY);
-        const n = raw ? parseInt(raw, 10) || 0 : 0;
-        if (isMounted) setNotifCount(n);
-      } catch {
-        if (isMounted) setNotifCount(0);
-      }
-    };
-
-    // initial load
-    loadCount();
+    // initial load, including scheduled reminders that fired while we were closed
+    reloadInbox().then(getUnreadCount).then((n) => isMounted && setNotifCount(n));
 
-    // refresh whenever a notification is received in foreground
-    const sub = Notifications.addNotificationReceivedListener(() => {
-      loadCount();
+    // mirror notifications delivered in the foreground into the inbox
+    const sub = Notifications.addNotificationReceivedListener((notification) => {
+      addDeliveredNotification(notification);
     });
 
-    // small polling safety net (covers background → foreground cases)
-    const interval = setInterval(loadCount, 3000);
+    // background tasks may have logged alerts while we were away
+    const appState = AppState.addEventListener("change", (next) => {
+      if (next === "active") reloadInbox();
+    });
 
     return () => {
       isMounted = false;
+      unsubscribe();
       sub.remove();
-      clearInterval(interval);
+      appState.remove();
     };
   }, []);
 
@@ -1,6 +1,7 @@
 import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
 import { useFocusEffect } from '@react-navigation/native';
 import * as Location from 'expo-location';
+import { useRouter } from 'expo-router';
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   ActivityIndicator,
@@ -15,8 +16,33 @@ import {
   TouchableOpacity,
   View,
 } from 'react-native';
-import { deleteCoupon } from '../../../lib/coupons';
-import { listSavedCoupons, saveCoupon, unsaveCoupon } from '../../../lib/saves';
+import CouponImage from '../../../components/CouponImage';
+import { useMyCoupons, useSavedCoupons } from '../../../context/coupons';
+import {
+  claimCoupon,
+  claimsLeft,
+  claimStatusText,
+  getActiveClaimsCount,
+  listMyClaims,
+  releaseClaim,
+  type CouponClaim,
+} from '../../../lib/claims';
+import {
+  activeCouponsFilter,
+  deleteCoupon,
+  getCouponsNear,
+  isExpired,
+} from '../../../lib/coupons';
+import {
+  DISCOUNT_KIND_OPTIONS,
+  formatDiscount,
+  formatDiscountLimits,
+  type Discount,
+  type DiscountKind,
+} from '../../../lib/discount';
+import { REPORT_REASONS, reportCoupon, type ReportReason } from '../../../lib/moderation';
+import { subscribeCouponChanges } from '../../../lib/realtime';
+import { saveCoupon, unsaveCoupon } from '../../../lib/saves';
 import { supabase } from '../../../lib/supabase';
 
 type Visibility = 'private' | 'public';
@@ -27,14 +53,22 @@ type FeedCoupon = {
   owner_id: string;
   store: string | null;
   title: string | null;
+  discount?: Discount | null;
+  discount_kind?: DiscountKind | null;
+  discount_value?: number | null;
+  discount_worth?: number | null;
   terms: string | null;
   publication?: string | null;
   publication_slug?: string | null; // normalized, optional column
   expires_at: string | null;
+  image_url?: string | null;
   created_at: string;
   visibility: Visibility;
   category?: Category | null;
   saves_count?: number | null;
+  claim_limit?: number | null; // null = unlimited (lib/claims.ts)
+  claims_count?: number;
+  hidden_at?: string | null; // hidden after community reports (lib/moderation.ts)
   attrs?: any | null; // geo + extra attrs
 };
 
@@ -116,7 +150,8 @@ function catIcon(cat: Category): keyof typeof Ionicons.glyphMap {
 }
 
 /**
- * Clean up title so we don't show ugly / wrong discount text.
+ * Only for rows saved before the structured `discount` existed:
+ * clean up title so we don't show ugly / wrong discount text.
  * - remove "undefined"/"null"
  * - if it looks like a discount (%, $, "off"), only keep it when the same number
  *   also appears somewhere in the terms.
@@ -186,6 +221,7 @@ function getCouponCoords(c: FeedCoupon): { lat: number; lng: number } | null {
 
 // ---------- Screen ----------
 export default function FeedScreen() {
+  const router = useRouter();
   const [items, setItems] = useState<FeedCoupon[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
@@ -194,8 +230,17 @@ export default function FeedScreen() {
 
   const [supportsCategory, setSupportsCategory] = useState(true);
   const [supportsPubSlug, setSupportsPubSlug] = useState(true);
+  const [supportsDiscount, setSupportsDiscount] = useState(true);
+  const [supportsClaims, setSupportsClaims] = useState(true);
+  const [supportsClaimsActive, setSupportsClaimsActive] = useState(true); // claims_active()
+  const [supportsHidden, setSupportsHidden] = useState(true); // coupons.hidden_at (moderation)
+  const [supportsExactExpiry, setSupportsExactExpiry] = useState(true); // coupons.expires_date_only
+  const [supportsReported, setSupportsReported] = useState(true); // reported_by_me() computed field
+  const [supportsNear, setSupportsNear] = useState(true); // coupons_near RPC deployed
 
   const [activeCat, setActiveCat] = useState<'all' | Category>('all');
+  const [activeDeal, setActiveDeal] = useState<'all' | DiscountKind>('all');
+  const [bestValue, setBestValue] = useState(false);
 
   // search + publication dropdown
   const [search, setSearch] = useState('');
@@ -211,13 +256,21 @@ export default function FeedScreen() {
   const [pubOpen, setPubOpen] = useState(false);
 
   const [myUid, setMyUid] = useState<string | null>(null);
-  const [savedSet, setSavedSet] = useState<Set<string>>(new Set());
+  const { savedIds: savedSet } = useSavedCoupons();
+  const { coupons: mine, loading: mineLoading } = useMyCoupons();
+  const [myClaims, setMyClaims] = useState<Map<string, CouponClaim>>(new Map());
+  const [claiming, setClaiming] = useState<string | null>(null);
+  const [reporting, setReporting] = useState<FeedCoupon | null>(null);
 
   // Near me state
   const [myLocation, setMyLocation] = useState<{ lat: number; lng: number } | null>(null);
   const [nearMeOnly, setNearMeOnly] = useState(false);
   const [nearCount, setNearCount] = useState<number | null>(null); // count badge
 
+  // Realtime: new coupons wait behind a banner so the list doesn't jump
+  const [incoming, setIncoming] = useState<FeedCoupon[]>([]);
+  const listRef = useRef<FlatList<FeedCoupon>>(null);
+
   // race guard
   const querySeqRef = useRef(0);
   const [paging, setPaging] = useState(false);
@@ -276,6 +329,7 @@ export default function FeedScreen() {
 
   function resetListForNewQuery() {
     setItems([]);
+    setIncoming([]);
     setPage(0);
     setHasMore(true);
   }
@@ -283,7 +337,10 @@ export default function FeedScreen() {
   async function immediateReload(opts?: {
     pub?: string | null;
     cat?: 'all' | Category;
+    deal?: 'all' | DiscountKind;
+    byValue?: boolean;
     term?: string;
+    near?: boolean;
   }) {
     bumpSeq();
     resetListForNewQuery();
@@ -297,12 +354,20 @@ export default function FeedScreen() {
   async function initialLoad() {
     setLoading(true);
     try {
-      await Promise.all([loadSavedSet(), loadPublicationOptions(), immediateReload()]);
+      await Promise.all([loadPublicationOptions(), loadMyClaims(), immediateReload()]);
     } finally {
       setLoading(false);
     }
   }
 
+  async function loadMyClaims() {
+    try {
+      setMyClaims(await listMyClaims());
+    } catch (e: any) {
+      console.warn('[Feed] claims load error', e?.message);
+    }
+  }
+
   async function loadPublicationOptions() {
     try {
       const { data, error } = await supabase
@@ -369,24 +434,17 @@ export default function FeedScreen() {
     }
   }
 
-  async function loadSavedSet() {
-    try {
-      const rows = await listSavedCoupons();
-      const s = new Set<string>();
-      for (const r of rows) {
-        const id = r.coupon?.id;
-        if (id) s.add(id);
-      }
-      setSavedSet(s);
-    } catch (e: any) {
-      console.warn('[Feed] savedSet error', e?.message);
-    }
-  }
-
   async function loadPage(
     pageIndex: number,
     replace = false,
-    overrides?: { pub?: string | null; cat?: 'all' | Category; term?: string }
+    overrides?: {
+      pub?: string | null;
+      cat?: 'all' | Category;
+      deal?: 'all' | DiscountKind;
+      byValue?: boolean;
+      term?: string;
+      near?: boolean;
+    }
   ) {
     if (paging && !replace) return;
     setPaging(true);
@@ -396,14 +454,73 @@ export default function FeedScreen() {
 
     const effPub = overrides?.pub ?? pubFilter;
     const effCat = overrides?.cat ?? activeCat;
+    const effDeal = overrides?.deal ?? activeDeal;
+    const effByValue = overrides?.byValue ?? bestValue;
     const effTerm = overrides?.term ?? debouncedSearch;
+    const effNear = overrides?.near ?? nearMeOnly;
+
+    // Near me: distance-sorted pages straight from the server
+    if (effNear && supportsNear) {
+      try {
+        if (!myLocation) {
+          setItems([]);
+          setHasMore(false);
+          setNearCount(null);
+          return;
+        }
+        const label = (pubOptions.find((o) => o.slug === effPub) as any)?.label;
+        const { rows, total } = await getCouponsNear({
+          lat: myLocation.lat,
+          lng: myLocation.lng,
+          radiusM: NEAR_RADIUS_M,
+          category: effCat === 'all' ? null : effCat,
+          publication: effPub && effPub !== INDEPENDENT ? label : null,
+          independent: effPub === INDEPENDENT,
+          discountKind: effDeal === 'all' ? null : effDeal,
+          q: effTerm || undefined,
+          limit: pageSize,
+          offset: pageIndex * pageSize,
+        });
+        if (mySeq !== querySeqRef.current) return;
+
+        if (pageIndex === 0) setNearCount(total);
+        setHasMore(rows.length === pageSize);
+        setPage(pageIndex);
+        // Owners and moderators can still read hidden coupons; they don't belong in the feed
+        const feedRows = (rows as unknown as FeedCoupon[]).filter((c) => !c.hidden_at);
+        setItems((prev) => (replace ? feedRows : prev.concat(feedRows)));
+      } catch (e: any) {
+        if (e?.code === 'PGRST202' || String(e?.message || '').includes('coupons_near')) {
+          console.warn('[Feed] coupons_near RPC missing, filtering on the client');
+          setSupportsNear(false);
+          setPaging(false);
+          return loadPage(pageIndex, replace, { ...overrides, near: false });
+        }
+        console.warn('[Feed] near load error', e?.message);
+      } finally {
+        if (mySeq === querySeqRef.current) setPaging(false);
+      }
+      return;
+    }
 
     let q = supabase
       .from('coupons')
       .select(
-        'id, owner_id, store, title, terms, publication, publication_slug, expires_at, created_at, visibility, category, saves_count, attrs'
+        'id, owner_id, store, title, terms, publication, publication_slug, expires_at, image_url, created_at, visibility, category, saves_count, attrs' +
+          (supportsDiscount ? ', discount, discount_kind, discount_value, discount_worth' : '') +
+          // claims_active counts lapsed holds out at read time; claims_count can lag behind
+          (supportsClaims
+            ? supportsClaimsActive
+              ? ', claim_limit, claims_count:claims_active'
+              : ', claim_limit, claims_count'
+            : '') +
+          (supportsHidden ? ', hidden_at' : '')
       )
-      .eq('visibility', 'public' as Visibility);
+      .eq('visibility', 'public' as Visibility)
+      .or(activeCouponsFilter(Date.now(), supportsExactExpiry)); // archived (expired) coupons stay out
+
+    if (supportsHidden) q = q.is('hidden_at', null); // reported coupons under review
+    if (supportsReported) q = q.eq('reported_by_me', false); // and the ones I reported
 
     if (effPub) {
       if (effPub === INDEPENDENT) {
@@ -420,6 +537,12 @@ export default function FeedScreen() {
       q = q.eq('category', effCat as Category);
     }
 
+    if (supportsDiscount) {
+      if (effDeal !== 'all') q = q.eq('discount_kind', effDeal);
+      // biggest estimated saving first; BOGO / free-item rows (no estimate) sink to the end
+      if (effByValue) q = q.order('discount_worth', { ascending: false, nullsFirst: false });
+    }
+
     if (effTerm && effTerm.length > 0) {
       const like = `%${escLike(effTerm)}%`;
       // @ts-ignore Supabase .or string form
@@ -443,6 +566,66 @@ export default function FeedScreen() {
             return loadPage(pageIndex, replace, overrides);
           }
         }
+        if (
+          String(error.message || '').includes('column') &&
+          String(error.message).includes('discount')
+        ) {
+          if (supportsDiscount) {
+            setSupportsDiscount(false);
+            setPaging(false);
+            return loadPage(pageIndex, replace, overrides);
+          }
+        }
+        if (
+          String(error.message || '').includes('column') &&
+          String(error.message).includes('claims_active')
+        ) {
+          if (supportsClaimsActive) {
+            setSupportsClaimsActive(false);
+            setPaging(false);
+            return loadPage(pageIndex, replace, overrides);
+          }
+        }
+        if (
+          String(error.message || '').includes('column') &&
+          String(error.message).includes('claim')
+        ) {
+          if (supportsClaims) {
+            setSupportsClaims(false);
+            setPaging(false);
+            return loadPage(pageIndex, replace, overrides);
+          }
+        }
+        if (
+          String(error.message || '').includes('column') &&
+          String(error.message).includes('hidden_at')
+        ) {
+          if (supportsHidden) {
+            setSupportsHidden(false);
+            setPaging(false);
+            return loadPage(pageIndex, replace, overrides);
+          }
+        }
+        if (
+          String(error.message || '').includes('column') &&
+          String(error.message).includes('reported_by_me')
+        ) {
+          if (supportsReported) {
+            setSupportsReported(false);
+            setPaging(false);
+            return loadPage(pageIndex, replace, overrides);
+          }
+        }
+        if (
+          String(error.message || '').includes('column') &&
+          String(error.message).includes('expires_date_only')
+        ) {
+          if (supportsExactExpiry) {
+            setSupportsExactExpiry(false);
+            setPaging(false);
+            return loadPage(pageIndex, replace, overrides);
+          }
+        }
         throw error;
       }
 
@@ -451,8 +634,9 @@ export default function FeedScreen() {
         return;
       }
 
-      const rows = (data ?? []) as FeedCoupon[];
-      setHasMore(rows.length === pageSize);
+      const fetched = (data ?? []) as unknown as FeedCoupon[];
+      setHasMore(fetched.length === pageSize);
+      const rows = fetched.filter((c) => !isExpired(c)); // only drops anything with the grace filter
       setPage(pageIndex);
       setItems((prev) => (replace ? rows : prev.concat(rows)));
     } catch (e: any) {
@@ -466,27 +650,149 @@ export default function FeedScreen() {
     setRefreshing(true);
     bumpSeq();
     resetListForNewQuery();
-    await Promise.all([loadSavedSet(), loadPublicationOptions(), loadPage(0, true)]);
+    await Promise.all([loadPublicationOptions(), loadMyClaims(), loadPage(0, true)]);
     setRefreshing(false);
   };
 
+  // Would this row come back from loadPage() with the current filters?
+  const filters = {
+    pubFilter,
+    activeCat,
+    activeDeal,
+    debouncedSearch,
+    pubOptions,
+    nearMeOnly,
+    myLocation,
+  };
+  const filtersRef = useRef(filters);
+  filtersRef.current = filters;
+  const itemsRef = useRef(items);
+  const reportedRef = useRef(new Set<string>()); // realtime updates mustn't bring these back
+  itemsRef.current = items;
+
+  function matchesFilters(c: FeedCoupon) {
+    const f = filtersRef.current;
+    if (isExpired(c)) return false;
+    if (f.pubFilter === INDEPENDENT) {
+      if (c.publication) return false;
+    } else if (f.pubFilter) {
+      const label = (f.pubOptions.find((o) => o.slug === f.pubFilter) as any)?.label;
+      if (c.publication_slug ? c.publication_slug !== f.pubFilter : c.publication !== label) return false;
+    }
+    if (f.activeCat !== 'all' && c.category !== f.activeCat) return false;
+    if (f.activeDeal !== 'all' && c.discount?.kind !== f.activeDeal) return false;
+    const term = f.debouncedSearch.toLowerCase();
+    if (term && ![c.store, c.title, c.publication].some((v) => (v ?? '').toLowerCase().includes(term))) {
+      return false;
+    }
+    if (f.nearMeOnly) {
+      const coords = getCouponCoords(c);
+      if (!f.myLocation || !coords) return false;
+      if (distanceMeters(f.myLocation.lat, f.myLocation.lng, coords.lat, coords.lng) > NEAR_RADIUS_M) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  // Merge live changes into the loaded pages in place; new rows go to the banner
+  useEffect(() => {
+    const drop = (id: string) => {
+      setItems((prev) => prev.filter((c) => c.id !== id));
+      setIncoming((prev) => prev.filter((c) => c.id !== id));
+    };
+    const refreshClaims = async (id: string, stored?: number) => {
+      // without claims_active() the feed shows the stored count anyway
+      const live = (await getActiveClaimsCount(id)) ?? stored;
+      if (live == null) return;
+      const patch = (prev: FeedCoupon[]) =>
+        prev.map((c) => (c.id === id ? { ...c, claims_count: live } : c));
+      setItems(patch);
+      setIncoming(patch);
+    };
+
+    return subscribeCouponChanges((change) => {
+      if (change.type === 'delete') return drop(change.id);
+
+      const row = change.row as unknown as FeedCoupon;
+      if (row.visibility !== 'public' || row.hidden_at || reportedRef.current.has(row.id)) {
+        return drop(row.id);
+      }
+
+      // The row has the stored claims_count, which still counts lapsed holds; cards keep the
+      // count they were loaded with and re-read the live one
+      const { claims_count: storedClaims, ...fields } = row;
+      const merge = (prev: FeedCoupon[]) =>
+        prev.map((c) => (c.id === row.id ? { ...c, ...fields } : c));
+      if (row.claim_limit != null) refreshClaims(row.id, storedClaims);
+
+      if (change.type === 'update' && itemsRef.current.some((c) => c.id === row.id)) {
+        setItems(merge);
+        setIncoming(merge);
+        return;
+      }
+
+      // An insert, or an update to a row we don't show yet (just made public, restored by a
+      // moderator): it's new to this feed
+      if (!matchesFilters(row)) {
+        setIncoming((prev) => prev.filter((c) => c.id !== row.id));
+        return;
+      }
+      setIncoming((prev) => (prev.some((c) => c.id === row.id) ? merge(prev) : [row, ...prev]));
+    });
+  }, []);
+
+  const newCount = useMemo(() => {
+    const loaded = new Set(items.map((c) => c.id));
+    return incoming.filter((c) => !loaded.has(c.id)).length;
+  }, [incoming, items]);
+
+  function showIncoming() {
+    if (bestValue || nearMeOnly) {
+      // value / distance order can't be patched by prepending; just reload from the top
+      immediateReload();
+    } else {
+      setItems((prev) => {
+        const loaded = new Set(prev.map((c) => c.id));
+        return incoming.filter((c) => !loaded.has(c.id)).concat(prev);
+      });
+      setIncoming([]);
+    }
+    listRef.current?.scrollToOffset({ offset: 0, animated: true });
+  }
+
   const onEndReached = () => {
     if (!loading && hasMore) loadPage(page + 1);
   };
 
+  // My own cards follow the shared store: edits show up, deleted / made-private ones drop out.
+  // Coupons that expire while the feed is open drop out too.
+  const feedItems = useMemo(() => {
+    const live = items.filter((c) => !isExpired(c));
+    if (!myUid || mineLoading) return live;
+    const mineById = new Map(mine.map((c) => [c.id, c]));
+    return live.flatMap((c) => {
+      if (c.owner_id !== myUid) return [c];
+      const m = mineById.get(c.id);
+      if (!m || m.visibility !== 'public') return [];
+      return [{ ...c, ...m, saves_count: c.saves_count }];
+    });
+  }, [items, mine, mineLoading, myUid]);
+
   const countText = useMemo(
-    () => (items.length === 1 ? '1 public coupon' : `${items.length} public coupons`),
-    [items.length]
+    () => (feedItems.length === 1 ? '1 public coupon' : `${feedItems.length} public coupons`),
+    [feedItems.length]
   );
 
-  // Recompute how many coupons are inside the radius for the badge
+  // Fallback when coupons_near isn't deployed: count the loaded pages on the client
   useEffect(() => {
+    if (supportsNear) return;
     if (!myLocation) {
       setNearCount(null);
       return;
     }
 
-    const nearby = items
+    const nearby = feedItems
       .map((c) => {
         const coords = getCouponCoords(c);
         if (!coords) return null;
@@ -501,15 +807,15 @@ export default function FeedScreen() {
       .filter((d) => d != null);
 
     setNearCount(nearby.length);
-  }, [items, myLocation, NEAR_RADIUS_M]);
+  }, [feedItems, myLocation, NEAR_RADIUS_M, supportsNear]);
 
-  // Which items show in the list
+  // Which feedItems show in the list
   const visibleItems = useMemo(() => {
-    if (!nearMeOnly) return items;
+    if (!nearMeOnly || supportsNear) return feedItems;
 
     if (!myLocation) return [];
 
-    const enriched = items
+    const enriched = feedItems
       .map((c) => {
         const coords = getCouponCoords(c);
         if (!coords) return { c, dist: Infinity };
@@ -530,7 +836,7 @@ export default function FeedScreen() {
 
     nearby.sort((a, b) => a.dist - b.dist);
     return nearby.map((x) => x.c);
-  }, [items, nearMeOnly, myLocation, NEAR_RADIUS_M]);
+  }, [feedItems, nearMeOnly, myLocation, NEAR_RADIUS_M, supportsNear]);
 
   function toggleSave(couponId: string) {
     return async () => {
@@ -538,9 +844,6 @@ export default function FeedScreen() {
         const isSaved = savedSet.has(couponId);
         if (isSaved) {
           await unsaveCoupon(couponId);
-          const next = new Set(savedSet);
-          next.delete(couponId);
-          setSavedSet(next);
           setItems((prev) =>
             prev.map((c) =>
               c.id === couponId
@@ -549,10 +852,8 @@ export default function FeedScreen() {
             )
           );
         } else {
-          await saveCoupon(couponId);
-          const next = new Set(savedSet);
-          next.add(couponId);
-          setSavedSet(next);
+          const c = items.find((x) => x.id === couponId);
+          await saveCoupon(couponId, c && savedShape(c));
           setItems((prev) =>
             prev.map((c) =>
               c.id === couponId ? { ...c, saves_count: (c.saves_count || 0) + 1 } : c
@@ -565,6 +866,81 @@ export default function FeedScreen() {
     };
   }
 
+  function bumpClaims(couponId: string, delta: number) {
+    setItems((prev) =>
+      prev.map((c) =>
+        c.id === couponId
+          ? { ...c, claims_count: Math.max((c.claims_count || 0) + delta, 0) }
+          : c
+      )
+    );
+  }
+
+  async function claim(item: FeedCoupon) {
+    if (claiming) return;
+    setClaiming(item.id);
+    try {
+      const k = await claimCoupon(item.id, savedShape(item));
+      setMyClaims((prev) => new Map(prev).set(item.id, k));
+      if (!myClaims.has(item.id)) bumpClaims(item.id, 1);
+    } catch (e: any) {
+      Alert.alert('Couldn’t claim', e?.message ?? 'Please try again.');
+      loadPage(0, true); // the count was probably stale
+    } finally {
+      setClaiming(null);
+    }
+  }
+
+  function askRelease(item: FeedCoupon) {
+    const k = myClaims.get(item.id);
+    if (!k) return;
+    if (k.redeemed_at) {
+      Alert.alert('Claimed', 'You’ve used this coupon, so the claim is yours to keep.');
+      return;
+    }
+    Alert.alert(
+      'Release your claim?',
+      `It’s held for you until ${new Date(k.hold_until).toLocaleString()}. Releasing lets someone else claim it.`,
+      [
+        { text: 'Keep', style: 'cancel' },
+        {
+          text: 'Release',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await releaseClaim(item.id);
+              setMyClaims((prev) => {
+                const next = new Map(prev);
+                next.delete(item.id);
+                return next;
+              });
+              bumpClaims(item.id, -1);
+            } catch (e: any) {
+              Alert.alert('Couldn’t release', e?.message ?? 'Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  }
+
+  async function submitReport(reason: ReportReason, note: string) {
+    const item = reporting;
+    if (!item) return;
+    try {
+      await reportCoupon(item.id, reason, note);
+      setReporting(null);
+      // Out of this person's feed right away (the server leaves it out of later loads);
+      // everyone else's once enough reports come in
+      reportedRef.current.add(item.id);
+      setItems((prev) => prev.filter((c) => c.id !== item.id));
+      setIncoming((prev) => prev.filter((c) => c.id !== item.id));
+      Alert.alert('Thanks for reporting', 'We’ll take a look at this coupon.');
+    } catch (e: any) {
+      Alert.alert('Report failed', e?.message ?? 'Please try again.');
+    }
+  }
+
   function clearSearch() {
     setSearch('');
     Keyboard.dismiss();
@@ -788,6 +1164,47 @@ export default function FeedScreen() {
           </Text>
         ) : null}
 
+        {/* Deal type */}
+        {supportsDiscount ? (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={{ gap: 6, paddingHorizontal: 4 }}
+            style={{ marginTop: 8 }}
+          >
+            {[{ value: 'all' as const, label: 'Any deal' }, ...DISCOUNT_KIND_OPTIONS].map((opt) => {
+              const active = activeDeal === opt.value;
+              return (
+                <TouchableOpacity
+                  key={opt.value}
+                  onPress={() => {
+                    setActiveDeal(opt.value);
+                    immediateReload({ deal: opt.value });
+                  }}
+                  style={{
+                    paddingHorizontal: 10,
+                    paddingVertical: 6,
+                    borderRadius: 999,
+                    borderWidth: 1,
+                    borderColor: active ? '#b91c1c' : '#f2caa1',
+                    backgroundColor: active ? '#fee2e2' : '#fff',
+                  }}
+                >
+                  <Text
+                    style={{
+                      color: active ? '#b91c1c' : '#5a4636',
+                      fontWeight: '700',
+                      fontSize: 12,
+                    }}
+                  >
+                    {opt.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+        ) : null}
+
         {/* Coupons Near Me pill with count only when active */}
         <View
           style={{
@@ -798,7 +1215,11 @@ export default function FeedScreen() {
           }}
         >
           <TouchableOpacity
-            onPress={() => setNearMeOnly((v) => !v)}
+            onPress={() => {
+              const next = !nearMeOnly;
+              setNearMeOnly(next);
+              if (supportsNear) immediateReload({ near: next });
+            }}
             style={{
               flexDirection: 'row',
               alignItems: 'center',
@@ -851,11 +1272,70 @@ export default function FeedScreen() {
               </View>
             )}
           </TouchableOpacity>
+
+          {supportsDiscount ? (
+            <TouchableOpacity
+              onPress={() => {
+                const next = !bestValue;
+                setBestValue(next);
+                immediateReload({ byValue: next });
+              }}
+              style={{
+                flexDirection: 'row',
+                alignItems: 'center',
+                paddingHorizontal: 12,
+                paddingVertical: 8,
+                borderRadius: 999,
+                borderWidth: 1,
+                marginLeft: 8,
+                borderColor: bestValue ? '#2563eb' : '#f2caa1',
+                backgroundColor: bestValue ? '#2563eb' : '#fff',
+              }}
+            >
+              <Ionicons
+                name="trending-down-outline"
+                size={16}
+                color={bestValue ? '#fff' : '#5a4636'}
+                style={{ marginRight: 6 }}
+              />
+              <Text
+                style={{
+                  color: bestValue ? '#fff' : '#5a4636',
+                  fontWeight: '700',
+                }}
+              >
+                Best value
+              </Text>
+            </TouchableOpacity>
+          ) : null}
         </View>
       </View>
 
+      {/* New coupons banner */}
+      {newCount > 0 ? (
+        <View style={{ alignItems: 'center', marginBottom: 4 }}>
+          <TouchableOpacity
+            onPress={showIncoming}
+            style={{
+              flexDirection: 'row',
+              alignItems: 'center',
+              paddingHorizontal: 14,
+              paddingVertical: 8,
+              borderRadius: 999,
+              backgroundColor: '#2563eb',
+            }}
+          >
+            <Ionicons name="arrow-up" size={16} color="#fff" style={{ marginRight: 6 }} />
+            <Text style={{ color: '#fff', fontWeight: '700' }}>
+              {newCount === 1 ? '1 new coupon' : `${newCount} new coupons`}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      ) : null}
+
       {/* Feed list */}
       <FlatList
+        ref={listRef}
         data={visibleItems}
         keyExtractor={(it) => it.id}
         refreshControl={
@@ -871,10 +1351,20 @@ export default function FeedScreen() {
           const saves = item.saves_count ?? 0;
           const cat = (item.category || 'other') as Category;
           const isOwner = myUid && item.owner_id === myUid;
-          const displayTitle = sanitizeTitle(item.title, item.terms);
+          const claimText = claimStatusText(item);
+          const myClaim = myClaims.get(item.id);
+          const canClaim = !isOwner && item.claim_limit != null;
+          // Only a hint: the count can be stale, so Claim stays tappable and the server decides
+          const soldOut = claimsLeft(item) === 0 && !myClaim;
+          const displayTitle = item.discount
+            ? formatDiscount(item.discount)
+            : sanitizeTitle(item.title, item.terms);
+          const limits = item.discount ? formatDiscountLimits(item.discount) : '';
 
           return (
-            <View
+            <TouchableOpacity
+              activeOpacity={0.9}
+              onPress={() => router.push({ pathname: '/coupon/[id]', params: { id: item.id } })}
               style={{
                 backgroundColor: bg,
                 borderRadius: 14,
@@ -923,6 +1413,14 @@ export default function FeedScreen() {
                     </Text>
                   </View>
                 </View>
+                {item.image_url ? (
+                  <CouponImage
+                    url={item.image_url}
+                    thumb
+                    contentFit="cover"
+                    style={{ width: 44, height: 44, borderRadius: 8, marginLeft: 8 }}
+                  />
+                ) : null}
               </View>
 
               {/* title (deal highlight) */}
@@ -976,6 +1474,7 @@ export default function FeedScreen() {
               >
                 {/* no “Public” chip here – everything in Feed is public */}
                 <Chip icon={catIcon(cat)} text={catLabel(cat)} variant="neutral" />
+                {limits ? <Chip icon="cash-outline" text={limits} variant="neutral" /> : null}
                 {item.expires_at ? (
                   <Chip
                     icon="time-outline"
@@ -988,6 +1487,13 @@ export default function FeedScreen() {
                   text={`${saves} saved`}
                   variant="accent"
                 />
+                {claimText ? (
+                  <Chip
+                    icon="ticket-outline"
+                    text={claimText}
+                    variant={claimsLeft(item) === 0 ? 'warning' : 'neutral'}
+                  />
+                ) : null}
                 {item.publication ? (
                   <Chip
                     icon="newspaper-outline"
@@ -1019,6 +1525,62 @@ export default function FeedScreen() {
                   </TouchableOpacity>
                 ) : null}
 
+                {!isOwner ? (
+                  <TouchableOpacity
+                    onPress={() => setReporting(item)}
+                    accessibilityLabel="Report coupon"
+                    style={{
+                      flexDirection: 'row',
+                      alignItems: 'center',
+                      paddingVertical: 6,
+                      paddingHorizontal: 10,
+                      borderRadius: 999,
+                      backgroundColor: '#ffffff',
+                      borderWidth: 1,
+                      borderColor: '#f2caa1',
+                    }}
+                  >
+                    <Ionicons name="flag-outline" size={16} color="#5a4636" />
+                  </TouchableOpacity>
+                ) : null}
+
+                {canClaim ? (
+                  <TouchableOpacity
+                    onPress={() => (myClaim ? askRelease(item) : claim(item))}
+                    disabled={claiming === item.id}
+                    style={{
+                      flexDirection: 'row',
+                      alignItems: 'center',
+                      paddingVertical: 6,
+                      paddingHorizontal: 12,
+                      borderRadius: 999,
+                      backgroundColor: myClaim ? '#16a34a' : soldOut ? '#e5e7eb' : '#ffffff',
+                      borderWidth: 1,
+                      borderColor: myClaim ? '#16a34a' : soldOut ? '#e5e7eb' : '#f2caa1',
+                    }}
+                  >
+                    {claiming === item.id ? (
+                      <ActivityIndicator size="small" style={{ marginRight: 4 }} />
+                    ) : (
+                      <Ionicons
+                        name={myClaim ? 'checkmark-circle' : 'ticket-outline'}
+                        size={16}
+                        color={myClaim ? '#fff' : soldOut ? '#9ca3af' : '#5a4636'}
+                        style={{ marginRight: 4 }}
+                      />
+                    )}
+                    <Text
+                      style={{
+                        color: myClaim ? '#fff' : soldOut ? '#9ca3af' : '#5a4636',
+                        fontWeight: '700',
+                        fontSize: 12,
+                      }}
+                    >
+                      {myClaim ? 'Claimed' : soldOut ? 'Try to claim' : 'Claim'}
+                    </Text>
+                  </TouchableOpacity>
+                ) : null}
+
                 <TouchableOpacity
                   onPress={toggleSave(item.id)}
                   style={{
@@ -1049,7 +1611,7 @@ export default function FeedScreen() {
                   </Text>
                 </TouchableOpacity>
               </View>
-            </View>
+            </TouchableOpacity>
           );
         }}
         ListEmptyComponent={
@@ -1065,11 +1627,157 @@ export default function FeedScreen() {
           </View>
         }
       />
+
+      <ReportModal
+        coupon={reporting}
+        onCancel={() => setReporting(null)}
+        onSubmit={submitReport}
+      />
     </View>
   );
 }
 
+// Row shape kept in the offline store for saved coupons
+function savedShape(c: FeedCoupon) {
+  return {
+    id: c.id,
+    store: c.store,
+    title: c.title,
+    discount: c.discount ?? null,
+    terms: c.terms,
+    expires_at: c.expires_at,
+    image_url: c.image_url ?? null,
+    visibility: c.visibility,
+    created_at: c.created_at,
+    attrs: c.attrs ?? null,
+  };
+}
+
 // ---------- Small components ----------
+function ReportModal({
+  coupon,
+  onCancel,
+  onSubmit,
+}: {
+  coupon: FeedCoupon | null;
+  onCancel: () => void;
+  onSubmit: (reason: ReportReason, note: string) => Promise<void>;
+}) {
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [note, setNote] = useState('');
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    setReason(null);
+    setNote('');
+  }, [coupon?.id]);
+
+  async function send() {
+    if (!reason) return;
+    setSending(true);
+    try {
+      await onSubmit(reason, note);
+    } finally {
+      setSending(false);
+    }
+  }
+
+  return (
+    <Modal visible={!!coupon} transparent animationType="fade" onRequestClose={onCancel}>
+      <View
+        style={{
+          flex: 1,
+          backgroundColor: 'rgba(0,0,0,0.35)',
+          alignItems: 'center',
+          justifyContent: 'center',
+          padding: 20,
+        }}
+      >
+        <View
+          style={{
+            width: '100%',
+            maxWidth: 420,
+            backgroundColor: '#fff',
+            borderRadius: 12,
+            borderWidth: 1,
+            borderColor: '#f2caa1',
+            padding: 14,
+          }}
+        >
+          <Text style={{ fontSize: 16, fontWeight: '800', color: '#5a4636' }}>Report coupon</Text>
+          <Text style={{ color: '#6b5b4d', marginTop: 2, marginBottom: 10 }} numberOfLines={1}>
+            {coupon?.store ?? 'Unknown store'}
+          </Text>
+
+          {REPORT_REASONS.map((r) => {
+            const active = reason === r.value;
+            return (
+              <TouchableOpacity
+                key={r.value}
+                onPress={() => setReason(r.value)}
+                style={{
+                  flexDirection: 'row',
+                  alignItems: 'center',
+                  paddingVertical: 8,
+                }}
+              >
+                <Ionicons
+                  name={active ? 'radio-button-on' : 'radio-button-off'}
+                  size={18}
+                  color={active ? '#2563eb' : '#9ca3af'}
+                  style={{ marginRight: 8 }}
+                />
+                <View style={{ flex: 1 }}>
+                  <Text style={{ color: '#3f1d0b', fontWeight: '700' }}>{r.label}</Text>
+                  <Text style={{ color: '#8a7a6b', fontSize: 12 }}>{r.hint}</Text>
+                </View>
+              </TouchableOpacity>
+            );
+          })}
+
+          <TextInput
+            value={note}
+            onChangeText={setNote}
+            placeholder="Anything else? (optional)"
+            maxLength={500}
+            style={{
+              borderRadius: 10,
+              borderWidth: 1,
+              borderColor: '#f2caa1',
+              paddingHorizontal: 10,
+              paddingVertical: 8,
+              marginTop: 6,
+              marginBottom: 12,
+            }}
+          />
+
+          <View style={{ flexDirection: 'row', justifyContent: 'flex-end', gap: 8 }}>
+            <TouchableOpacity onPress={onCancel} style={{ paddingVertical: 8, paddingHorizontal: 14 }}>
+              <Text style={{ color: '#6b5b4d', fontWeight: '700' }}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={send}
+              disabled={!reason || sending}
+              style={{
+                paddingVertical: 8,
+                paddingHorizontal: 14,
+                borderRadius: 999,
+                backgroundColor: reason ? '#b91c1c' : '#e5e7eb',
+              }}
+            >
+              {sending ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={{ color: reason ? '#fff' : '#9ca3af', fontWeight: '700' }}>Report</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
 function Chip({
   icon,
   text,
@@ -1,12 +1,13 @@
 // app/(tabs)/list.tsx
 import '@/lib/geo';
 import { Ionicons } from '@expo/vector-icons';
-import { useFocusEffect } from '@react-navigation/native';
-import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useRouter } from 'expo-router';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
   FlatList,
+  Modal,
   RefreshControl,
   ScrollView,
   Text,
@@ -14,10 +15,32 @@ import {
   TouchableOpacity,
   View,
 } from 'react-native';
-import { supabase } from '../../../lib/supabase';
+import CouponImage from '../../../components/CouponImage';
+import { useGroups, useMyCoupons } from '../../../context/coupons';
+import {
+  getArchiveRetentionDays,
+  RETENTION_OPTIONS,
+  setArchiveRetentionDays,
+} from '../../../lib/archive';
 
-// Prefer the new helper that supports search/publication filtering:
-import { deleteCoupon, getCouponsByScope } from '../../../lib/coupons';
+// Same search/publication filtering as the server-side helper, applied to the store:
+import { deleteCoupon, filterCoupons, isExpired } from '../../../lib/coupons';
+import {
+  DISCOUNT_KIND_OPTIONS,
+  formatDiscount,
+  formatDiscountLimits,
+  type Discount,
+  type DiscountKind,
+} from '../../../lib/discount';
+import { createGroup } from '../../../lib/groups';
+import {
+  clearSyncConflicts,
+  getPendingCount,
+  getSyncConflicts,
+  subscribeLocalStore,
+  type SyncConflict,
+} from '../../../lib/local-store';
+import { listSharedWithMe, revokeShare, type SharedWithMe } from '../../../lib/shares';
 
 type Visibility = 'private' | 'public';
 
@@ -25,15 +48,20 @@ type Row = {
   id: string;
   store: string | null;
   title: string | null;
+  discount?: Discount | null;
   terms: string | null;
   publication?: string | null;
   category?: 'food' | 'retail' | 'grocery' | 'other';
   expires_at?: string | null;
+  image_url?: string | null;
   created_at?: string | null;
   visibility?: Visibility;
   saves_count?: number | null;
 };
 
+// Sentinel row between active coupons and the Archived section
+const ARCHIVED_ID = '__archived__';
+
 const SCREEN_BG = '#ffebd5';
 const PINK = '#FFD1E0';
 
@@ -65,6 +93,10 @@ function pickEmoji(store?: string | null) {
   return '🎟️';
 }
 
+function retentionText(days: number | null) {
+  return days == null ? 'Keep forever' : `Delete after ${days} days`;
+}
+
 function timeAgo(iso?: string | null) {
   if (!iso) return '';
   const diff = Date.now() - new Date(iso).getTime();
@@ -78,6 +110,7 @@ function timeAgo(iso?: string | null) {
 }
 
 /**
+ * Fallback for rows saved before the structured `discount` existed.
  * Clean up title so we don't show ugly "undefined off" / "% off" / "$ off".
  * Rules:
  * - strip "undefined" / "null"
@@ -113,8 +146,34 @@ function sanitizeTitle(title?: string | null) {
 }
 
 export default function ListScreen() {
-  const [rows, setRows] = useState<Row[]>([]);
-  const [loading, setLoading] = useState(true);
+  const router = useRouter();
+  const { coupons, loading, refresh } = useMyCoupons();
+  const { groups, walletFor } = useGroups();
+
+  // Which wallet is shown: null = Mine, otherwise a group id
+  const [wallet, setWallet] = useState<string | null>(null);
+  const group = wallet ? groups.find((g) => g.id === wallet) ?? null : null;
+  const source = useMemo(() => (group ? walletFor(group.id) : coupons), [group, walletFor, coupons]);
+  const mineIds = useMemo(() => new Set(coupons.map((c) => c.id)), [coupons]);
+
+  // New group
+  const [newGroupOpen, setNewGroupOpen] = useState(false);
+  const [newGroupName, setNewGroupName] = useState('');
+  const [creatingGroup, setCreatingGroup] = useState(false);
+
+  async function submitNewGroup() {
+    setCreatingGroup(true);
+    try {
+      const g = await createGroup(newGroupName);
+      setNewGroupOpen(false);
+      setNewGroupName('');
+      setWallet(g.id);
+    } catch (e: any) {
+      Alert.alert('Could not create group', e?.message ?? 'Please try again.');
+    } finally {
+      setCreatingGroup(false);
+    }
+  }
   const [refreshing, setRefreshing] = useState(false);
 
   // Search + publication filter
@@ -122,9 +181,69 @@ export default function ListScreen() {
   const [debouncedQ, setDebouncedQ] = useState('');
   const debounceTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-  const [pubOptions, setPubOptions] = useState<string[]>([]);
   const [pubFilter, setPubFilter] = useState<string | null>(null); // null = All
 
+  // Offline sync status
+  const [pendingCount, setPendingCount] = useState(0);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+
+  useEffect(() => {
+    const readStatus = async () => {
+      setPendingCount(await getPendingCount());
+      setConflicts(await getSyncConflicts());
+    };
+    readStatus();
+    return subscribeLocalStore(readStatus);
+  }, []);
+
+  // Coupons other people shared with me (online only; not part of the offline store)
+  const [shared, setShared] = useState<SharedWithMe[]>([]);
+
+  const loadShared = async () => {
+    try {
+      setShared(await listSharedWithMe());
+    } catch (e: any) {
+      console.warn('[List] shared with me failed', e?.message);
+    }
+  };
+
+  useEffect(() => {
+    loadShared();
+  }, []);
+
+  function askRemoveShared(share: SharedWithMe) {
+    Alert.alert('Remove from Shared with me?', 'You can ask the owner to share it again.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await revokeShare(share.id);
+            setShared((list) => list.filter((s) => s.id !== share.id));
+          } catch (e: any) {
+            Alert.alert('Remove failed', e?.message ?? 'Please try again.');
+          }
+        },
+      },
+    ]);
+  }
+
+  function showConflicts() {
+    Alert.alert(
+      'Some changes did not sync',
+      conflicts.map((c) => `• ${c.message}`).join('\n'),
+      [
+        { text: 'Keep', style: 'cancel' },
+        { text: 'Dismiss all', onPress: () => clearSyncConflicts() },
+      ]
+    );
+  }
+
+  // Deal type filter + sort
+  const [dealFilter, setDealFilter] = useState<DiscountKind | null>(null); // null = any
+  const [sortByValue, setSortByValue] = useState(false);
+
   // Debounce the search box
   useEffect(() => {
     if (debounceTimer.current) clearTimeout(debounceTimer.current);
@@ -134,79 +253,64 @@ export default function ListScreen() {
     };
   }, [q]);
 
-  useFocusEffect(
-    useCallback(() => {
-      load(true); // initial load; also refresh pubOptions
-      return () => {};
-    }, [])
+  // Filtering happens on the shared store, so edits made on other screens show up immediately
+  const rows = useMemo<Row[]>(
+    () =>
+      filterCoupons(source, {
+        publication: pubFilter,
+        discountKind: dealFilter,
+        sort: sortByValue ? 'value' : 'expiry',
+        q: debouncedQ || undefined,
+      }),
+    [source, pubFilter, dealFilter, sortByValue, debouncedQ]
   );
 
-  // Reload whenever search or publication filter changes
-  useEffect(() => {
-    if (!loading) load(false);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [debouncedQ, pubFilter]);
+  // Expired coupons move to a collapsible Archived section at the end
+  const [showArchived, setShowArchived] = useState(false);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
 
-  async function load(initial: boolean) {
+  useEffect(() => {
+    getArchiveRetentionDays().then(setRetentionDays);
+  }, []);
+
+  const active = useMemo(() => rows.filter((r) => !isExpired(r)), [rows]);
+  const archived = useMemo(() => rows.filter((r) => isExpired(r)), [rows]);
+
+  const listData = useMemo<Row[]>(() => {
+    if (!archived.length) return active;
+    const header: Row = { id: ARCHIVED_ID, store: null, title: null, terms: null };
+    return [...active, header, ...(showArchived ? archived : [])];
+  }, [active, archived, showArchived]);
+
+  async function cycleRetention() {
+    const i = RETENTION_OPTIONS.indexOf(retentionDays);
+    const next = RETENTION_OPTIONS[(i + 1) % RETENTION_OPTIONS.length];
+    setRetentionDays(next);
     try {
-      if (initial) setLoading(true);
-      const { data: sess } = await supabase.auth.getSession();
-      const uid = sess.session?.user?.id;
-      if (!uid) {
-        setRows([]);
-        setLoading(false);
-        return;
-      }
-
-      // Fetch rows using server-side search + publication filter
-      const data = await getCouponsByScope({
-        scope: 'private',
-        publication: pubFilter || undefined,
-        q: debouncedQ || undefined,
-        limit: 200,
-        offset: 0,
-      });
-
-      setRows(data as Row[]);
-
-      // On first load only, fetch distinct publications for filter chips
-      if (initial) {
-        try {
-          const { data: pubs } = await supabase
-            .from('coupons')
-            .select('publication')
-            .eq('owner_id', uid)
-            .order('publication', { ascending: true })
-            .limit(200);
-
-          const uniq = Array.from(
-            new Set(
-              (pubs ?? [])
-                .map((d) => (d.publication ?? '').trim())
-                .filter(Boolean)
-            )
-          );
-          setPubOptions(uniq);
-        } catch {
-          // ignore
-        }
-      }
+      await setArchiveRetentionDays(next);
     } catch (e: any) {
-      console.warn('load coupons error', e.message);
-    } finally {
-      if (initial) setLoading(false);
+      Alert.alert('Could not update', e?.message ?? 'Please try again.');
     }
   }
 
+  // Distinct publications for the filter chips
+  const pubOptions = useMemo(
+    () =>
+      Array.from(
+        new Set(source.map((d) => (d.publication ?? '').trim()).filter(Boolean))
+      ).sort((a, b) => a.localeCompare(b)),
+    [source]
+  );
+
   const onRefresh = async () => {
     setRefreshing(true);
-    await load(true);
+    await Promise.all([refresh(), loadShared()]);
     setRefreshing(false);
   };
 
   const countText = useMemo(
-    () => (rows.length === 1 ? '1 coupon' : `${rows.length} coupons`),
-    [rows.length]
+    () => (active.length === 1 ? '1 coupon' : `${active.length} coupons`),
+    [active.length]
   );
 
   function askDelete(couponId: string) {
@@ -216,12 +320,9 @@ export default function ListScreen() {
         text: 'Delete',
         style: 'destructive',
         onPress: async () => {
-          const prev = rows;
-          setRows((r) => r.filter((x) => x.id !== couponId));
           try {
             await deleteCoupon(couponId);
           } catch (e: any) {
-            setRows(prev);
             Alert.alert('Delete failed', e?.message ?? 'Please try again.');
           }
         },
@@ -247,16 +348,131 @@ export default function ListScreen() {
   return (
     <View style={{ flex: 1, backgroundColor: SCREEN_BG }}>
       <FlatList
-        data={rows}
+        data={listData}
         keyExtractor={(item) => item.id}
         refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
         contentContainerStyle={{ padding: 16, paddingBottom: 40, gap: 16 }}
         ListHeaderComponent={
           <View style={{ marginBottom: 10, marginTop: 10 }}>
             <Text style={{ fontSize: 22, fontWeight: '800', color: '#5a4636' }}>
-              My Coupons
+              {group ? group.name : 'My Coupons'}
             </Text>
-            <Text style={{ color: '#6b5b4d', marginBottom: 8 }}>{countText}</Text>
+            <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 8 }}>
+              <Text style={{ color: '#6b5b4d', flex: 1 }}>{countText}</Text>
+              {group ? (
+                <TouchableOpacity
+                  onPress={() => router.push({ pathname: '/group/[id]', params: { id: group.id } })}
+                  style={{ flexDirection: 'row', alignItems: 'center' }}
+                >
+                  <Ionicons name="people-outline" size={14} color="#2563eb" />
+                  <Text style={{ color: '#2563eb', fontWeight: '700', marginLeft: 4 }}>Manage</Text>
+                </TouchableOpacity>
+              ) : null}
+            </View>
+
+            {/* Wallet switcher: Mine + each group */}
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              style={{ marginBottom: 10 }}
+              contentContainerStyle={{ gap: 8 }}
+            >
+              <FilterChip text="Mine" active={!group} onPress={() => setWallet(null)} />
+              {groups.map((g) => (
+                <FilterChip
+                  key={g.id}
+                  text={`👪 ${g.name}`}
+                  active={group?.id === g.id}
+                  onPress={() => setWallet(g.id)}
+                />
+              ))}
+              <FilterChip text="+ New group" active={false} onPress={() => setNewGroupOpen(true)} />
+            </ScrollView>
+
+            {/* Offline sync status */}
+            {pendingCount > 0 ? (
+              <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 8 }}>
+                <Ionicons name="cloud-offline-outline" size={14} color="#6b7280" />
+                <Text style={{ color: '#6b7280', fontSize: 12, marginLeft: 6 }}>
+                  {pendingCount === 1
+                    ? '1 change waiting to sync'
+                    : `${pendingCount} changes waiting to sync`}
+                </Text>
+              </View>
+            ) : null}
+            {conflicts.length > 0 ? (
+              <TouchableOpacity
+                onPress={showConflicts}
+                style={{
+                  flexDirection: 'row',
+                  alignItems: 'center',
+                  padding: 8,
+                  borderRadius: 10,
+                  backgroundColor: '#fff1f2',
+                  borderWidth: 1,
+                  borderColor: '#fecdd3',
+                  marginBottom: 8,
+                }}
+              >
+                <Ionicons name="alert-circle-outline" size={16} color="#b91c1c" />
+                <Text style={{ color: '#b91c1c', fontSize: 12, marginLeft: 6, flex: 1 }}>
+                  {conflicts.length === 1
+                    ? '1 change could not be synced — tap for details'
+                    : `${conflicts.length} changes could not be synced — tap for details`}
+                </Text>
+              </TouchableOpacity>
+            ) : null}
+
+            {/* Shared with me */}
+            {!group && shared.length > 0 ? (
+              <View style={{ marginBottom: 10 }}>
+                <Text style={{ fontWeight: '800', color: '#5a4636', marginBottom: 6 }}>
+                  Shared with me ({shared.length})
+                </Text>
+                <ScrollView
+                  horizontal
+                  showsHorizontalScrollIndicator={false}
+                  contentContainerStyle={{ gap: 8 }}
+                >
+                  {shared.map((s) => {
+                    const c = s.coupon!;
+                    const deal = c.discount ? formatDiscount(c.discount) : sanitizeTitle(c.title);
+                    return (
+                      <TouchableOpacity
+                        key={s.id}
+                        onPress={() =>
+                          router.push({ pathname: '/coupon/[id]', params: { id: c.id } })
+                        }
+                        onLongPress={() => askRemoveShared(s)}
+                        style={{
+                          width: 180,
+                          padding: 10,
+                          borderRadius: 14,
+                          backgroundColor: '#fff',
+                          borderWidth: 1,
+                          borderColor: '#f2caa1',
+                        }}
+                      >
+                        <Text style={{ fontWeight: '900', color: '#3f1d0b' }} numberOfLines={1}>
+                          {pickEmoji(c.store)} {(c.store ?? '').trim() || 'Unknown store'}
+                        </Text>
+                        {deal ? (
+                          <Text
+                            style={{ color: '#b91c1c', fontWeight: '700', fontSize: 12 }}
+                            numberOfLines={1}
+                          >
+                            {deal}
+                          </Text>
+                        ) : null}
+                        <Text style={{ color: '#7b6b5f', fontSize: 11, marginTop: 2 }} numberOfLines={1}>
+                          From {s.owner_email ?? 'a friend'}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </ScrollView>
+              </View>
+            ) : null}
 
             {/* Search box */}
             <View
@@ -317,25 +533,90 @@ export default function ListScreen() {
                 ))}
               </ScrollView>
             )}
+
+            {/* Deal type chips + value sort */}
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              style={{ marginTop: 8 }}
+              contentContainerStyle={{ gap: 8 }}
+            >
+              <FilterChip
+                text="Best value"
+                active={sortByValue}
+                onPress={() => setSortByValue((v) => !v)}
+              />
+              <FilterChip
+                text="Any deal"
+                active={!dealFilter}
+                onPress={() => setDealFilter(null)}
+              />
+              {DISCOUNT_KIND_OPTIONS.map((opt) => (
+                <FilterChip
+                  key={opt.value}
+                  text={opt.label}
+                  active={dealFilter === opt.value}
+                  onPress={() => setDealFilter(opt.value === dealFilter ? null : opt.value)}
+                />
+              ))}
+            </ScrollView>
           </View>
         }
         renderItem={({ item, index }) => {
+          if (item.id === ARCHIVED_ID) {
+            return (
+              <View style={{ marginTop: 8 }}>
+                <TouchableOpacity
+                  onPress={() => setShowArchived((v) => !v)}
+                  style={{ flexDirection: 'row', alignItems: 'center', gap: 6 }}
+                >
+                  <Ionicons
+                    name={showArchived ? 'chevron-down' : 'chevron-forward'}
+                    size={18}
+                    color="#5a4636"
+                  />
+                  <Text style={{ fontSize: 18, fontWeight: '800', color: '#5a4636', flex: 1 }}>
+                    Archived ({archived.length})
+                  </Text>
+                  <FilterChip
+                    text={retentionText(retentionDays)}
+                    active={false}
+                    onPress={cycleRetention}
+                  />
+                </TouchableOpacity>
+                <Text style={{ color: '#6b5b4d', fontSize: 12, marginTop: 4 }}>
+                  Expired coupons are hidden from the feed and nearby alerts.
+                  {retentionDays != null
+                    ? ` Private and saved ones are removed ${retentionDays} days after expiring.`
+                    : ''}
+                </Text>
+              </View>
+            );
+          }
+
+          const expired = isExpired(item);
           const emoji = pickEmoji(item.store);
           const isPublic = (item.visibility ?? 'private') === 'public';
           const sc = item.saves_count ?? 0;
 
           const theme = THEMES[index % THEMES.length];
           const displayStore = (item.store ?? '').trim() || 'Unknown store';
-          const displayTitle = sanitizeTitle(item.title);
+          const displayTitle = item.discount
+            ? formatDiscount(item.discount)
+            : sanitizeTitle(item.title);
+          const limits = item.discount ? formatDiscountLimits(item.discount) : '';
 
           const expiresLabel = item.expires_at
-            ? `Expires ${new Date(item.expires_at).toLocaleDateString()}`
+            ? `${expired ? 'Expired' : 'Expires'} ${new Date(item.expires_at).toLocaleDateString()}`
             : null;
 
           return (
-            <View
+            <TouchableOpacity
+              activeOpacity={0.9}
+              onPress={() => router.push({ pathname: '/coupon/[id]', params: { id: item.id } })}
               style={{
                 borderRadius: 22,
+                opacity: expired ? 0.6 : 1,
                 shadowColor: '#000',
                 shadowOpacity: 0.18,
                 shadowOffset: { width: 0, height: 4 },
@@ -365,7 +646,16 @@ export default function ListScreen() {
                     borderRightColor: theme.border,
                   }}
                 >
-                  <Text style={{ fontSize: 30, marginBottom: 4 }}>{emoji}</Text>
+                  {item.image_url ? (
+                    <CouponImage
+                      url={item.image_url}
+                      thumb
+                      contentFit="cover"
+                      style={{ width: 56, height: 56, borderRadius: 10, marginBottom: 4 }}
+                    />
+                  ) : (
+                    <Text style={{ fontSize: 30, marginBottom: 4 }}>{emoji}</Text>
+                  )}
                   <Text
                     style={{
                       fontSize: 11,
@@ -404,22 +694,24 @@ export default function ListScreen() {
                       </Text>
                     </View>
 
-                    {/* Delete button */}
-                    <TouchableOpacity
-                      onPress={() => askDelete(item.id)}
-                      style={{
-                        paddingVertical: 4,
-                        paddingHorizontal: 8,
-                        borderRadius: 999,
-                        backgroundColor: '#fff1f2',
-                        borderWidth: 1,
-                        borderColor: '#fecdd3',
-                        flexDirection: 'row',
-                        alignItems: 'center',
-                      }}
-                    >
-                      <Ionicons name="trash-outline" size={14} color="#b91c1c" />
-                    </TouchableOpacity>
+                    {/* Delete button (other members' wallet coupons aren't mine to delete) */}
+                    {mineIds.has(item.id) ? (
+                      <TouchableOpacity
+                        onPress={() => askDelete(item.id)}
+                        style={{
+                          paddingVertical: 4,
+                          paddingHorizontal: 8,
+                          borderRadius: 999,
+                          backgroundColor: '#fff1f2',
+                          borderWidth: 1,
+                          borderColor: '#fecdd3',
+                          flexDirection: 'row',
+                          alignItems: 'center',
+                        }}
+                      >
+                        <Ionicons name="trash-outline" size={14} color="#b91c1c" />
+                      </TouchableOpacity>
+                    ) : null}
                   </View>
 
                   {/* Title = main deal highlight (only if not junk) */}
@@ -478,7 +770,10 @@ export default function ListScreen() {
                         flex: 1,
                       }}
                     >
-                      {expiresLabel && <Badge text={expiresLabel} type="warning" />}
+                      {expiresLabel && (
+                        <Badge text={expiresLabel} type={expired ? 'neutral' : 'warning'} />
+                      )}
+                      {limits ? <Badge text={limits} type="neutral" /> : null}
                       {item.publication ? (
                         <Badge text={item.publication} type="neutral" />
                       ) : null}
@@ -491,7 +786,7 @@ export default function ListScreen() {
                   </View>
                 </View>
               </View>
-            </View>
+            </TouchableOpacity>
           );
         }}
         ListEmptyComponent={
@@ -500,11 +795,68 @@ export default function ListScreen() {
               No coupons found
             </Text>
             <Text style={{ color: '#6b5b4d', textAlign: 'center' }}>
-              Try clearing the search or filter above.
+              {group
+                ? 'Add coupons to this wallet from Scan or a coupon’s Edit screen.'
+                : 'Try clearing the search or filter above.'}
             </Text>
           </View>
         }
       />
+
+      <Modal
+        visible={newGroupOpen}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setNewGroupOpen(false)}
+      >
+        <View
+          style={{
+            flex: 1,
+            justifyContent: 'center',
+            padding: 24,
+            backgroundColor: 'rgba(0,0,0,0.35)',
+          }}
+        >
+          <View style={{ backgroundColor: '#fff', borderRadius: 16, padding: 16 }}>
+            <Text style={{ fontSize: 18, fontWeight: '800', color: '#3f1d0b', marginBottom: 4 }}>
+              New group wallet
+            </Text>
+            <Text style={{ color: '#6b5b4d', marginBottom: 10 }}>
+              Coupons you add to a group are shared with everyone in it.
+            </Text>
+            <TextInput
+              value={newGroupName}
+              onChangeText={setNewGroupName}
+              placeholder="e.g. Family"
+              autoFocus
+              style={{
+                borderWidth: 1,
+                borderColor: '#f2caa1',
+                borderRadius: 12,
+                paddingHorizontal: 12,
+                paddingVertical: 10,
+                marginBottom: 12,
+                color: '#2b221b',
+              }}
+            />
+            <View style={{ flexDirection: 'row', justifyContent: 'flex-end', gap: 16 }}>
+              <TouchableOpacity onPress={() => setNewGroupOpen(false)}>
+                <Text style={{ color: '#6b7280', fontWeight: '700' }}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={submitNewGroup}
+                disabled={creatingGroup || !newGroupName.trim()}
+              >
+                {creatingGroup ? (
+                  <ActivityIndicator />
+                ) : (
+                  <Text style={{ color: '#2563eb', fontWeight: '700' }}>Create</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
     </View>
   );
 }
@@ -27,21 +27,29 @@ import {
   registerSingleTestHere,
   stopAllGeofences,
 } from '../../../lib/geo';
+import { useGroups } from '../../../context/coupons';
+import type { Category } from '../../../lib/coupons';
+import { requestExpiryReschedule } from '../../../lib/expiry-reminders';
+import {
+  clearInbox,
+  getInbox,
+  groupInbox,
+  markInboxRead,
+  subscribeInbox,
+  type InboxGroup,
+} from '../../../lib/inbox';
+import { linkForData, openDeepLink } from '../../../lib/notification-actions';
+import {
+  DEFAULT_NOTIFY_PREFS,
+  formatMinutes,
+  getNotifyPrefs,
+  parseMinutes,
+  refreshNotifyPrefs,
+  saveNotifyPrefs,
+  type NotifyPrefs,
+} from '../../../lib/notify-prefs';
 import { supabase } from '../../../lib/supabase';
 
-/* ------------------------ Local storage keys ------------------------ */
-
-const INBOX_KEY = 'snapigo_inbox';           // list of notifications we show in Notify tab
-const UNREAD_KEY = 'snapigo_unread_count';   // numeric unread count for badge
-
-type InboxItem = {
-  id: string;
-  title: string;
-  body: string;
-  createdAt: string; // ISO string
-  read: boolean;
-};
-
 /* ------------------------ Local helpers (iOS-first) ------------------------ */
 
 async function ensureNotifPermissions(): Promise<boolean> {
@@ -76,36 +84,6 @@ async function notifStatusLabel(): Promise<string> {
   return 'unknown';
 }
 
-// 🔹 Persist inbox + keep unread count in sync
-async function saveInbox(inbox: InboxItem[]) {
-  try {
-    await AsyncStorage.setItem(INBOX_KEY, JSON.stringify(inbox));
-  } catch {
-    // ignore
-  }
-}
-
-async function loadInbox(): Promise<InboxItem[]> {
-  try {
-    const raw = await AsyncStorage.getItem(INBOX_KEY);
-    if (!raw) return [];
-    const parsed = JSON.parse(raw);
-    if (!Array.isArray(parsed)) return [];
-    return parsed;
-  } catch {
-    return [];
-  }
-}
-
-async function updateUnreadCount(inbox: InboxItem[]) {
-  try {
-    const unread = inbox.filter((n) => !n.read).length;
-    await AsyncStorage.setItem(UNREAD_KEY, String(unread));
-  } catch {
-    // ignore
-  }
-}
-
 async function sendNow(title: string, body: string) {
   await Notifications.scheduleNotificationAsync({
     content: { title, body, sound: 'default' },
@@ -144,57 +122,45 @@ export default function NotifyTab() {
   const [locFg, setLocFg] = useState<string>('checking…');
   const [locBg, setLocBg] = useState<string>('checking…');
 
-  // inbox for showing "actual notifications"
-  const [inbox, setInbox] = useState<InboxItem[]>([]);
+  // inbox for showing "actual notifications", folded per coupon / store
+  const [inbox, setInbox] = useState<InboxGroup[]>([]);
+
+  // Alert preferences (quiet hours, caps, mutes, snooze)
+  const [prefs, setPrefs] = useState<NotifyPrefs>(DEFAULT_NOTIFY_PREFS);
+
+  useEffect(() => {
+    getNotifyPrefs().then(setPrefs);
+    refreshNotifyPrefs().then(setPrefs);
+  }, []);
+
+  const updatePrefs = (patch: Partial<NotifyPrefs>) => {
+    setPrefs((prev) => {
+      const next = { ...prev, ...patch };
+      saveNotifyPrefs(next)
+        .then(() => {
+          if (patch.expiryReminders) requestExpiryReschedule();
+        })
+        .catch((e) => console.warn('[Notify] save prefs failed', e?.message));
+      return next;
+    });
+  };
 
   // Ad-hoc test fields
   const [placeInput, setPlaceInput] = useState<string>(''); // address or "lat,lng"
   const [radiusInput, setRadiusInput] = useState<string>('250'); // meters
 
-  // 🔁 Load inbox + attach listener for new notifications
+  // 🔁 Inbox follows lib/inbox.ts (the tab layout logs foreground deliveries)
   useEffect(() => {
     let isMounted = true;
-
-    const initInboxAndListener = async () => {
-      const stored = await loadInbox();
-      if (isMounted) setInbox(stored);
-
-      // When any notification is received while app is foreground,
-      // mirror it into our inbox so it shows in this tab.
-      const sub = Notifications.addNotificationReceivedListener(async (notification) => {
-        const content = notification.request.content;
-        const newItem: InboxItem = {
-          id: notification.request.identifier || String(Date.now()),
-          title: content.title || 'Snapigo alert',
-          body: content.body || '',
-          createdAt: new Date().toISOString(),
-          read: false,
-        };
-
-        // Prepend newest
-        setInbox((prev) => {
-          const updated = [newItem, ...prev];
-          // Fire and forget persistence + unread count
-          saveInbox(updated);
-          updateUnreadCount(updated);
-          return updated;
-        });
-      });
-
-      return () => {
-        sub.remove();
-      };
+    const load = async () => {
+      const items = await getInbox();
+      if (isMounted) setInbox(groupInbox(items));
     };
-
-    let cleanup: (() => void) | undefined;
-
-    initInboxAndListener().then((c) => {
-      cleanup = c;
-    });
-
+    load();
+    const unsubscribe = subscribeInbox(load);
     return () => {
       isMounted = false;
-      cleanup?.();
+      unsubscribe();
     };
   }, []);
 
@@ -232,21 +198,18 @@ export default function NotifyTab() {
     return ok;
   };
 
-  // 🔹 Mark a single notification as read when user taps it
-  const handleNotificationPress = async (id: string) => {
-    const updated = inbox.map((item) =>
-      item.id === id ? { ...item, read: true } : item
-    );
-    setInbox(updated);
-    await saveInbox(updated);
-    await updateUnreadCount(updated);
+  // 🔹 Mark a group as read when user taps it
+  const handleNotificationPress = async (group: InboxGroup) => {
+    await markInboxRead(group.items.map((item) => item.id));
+
+    // Coupon alerts open the coupon, same as tapping the notification itself
+    const url = linkForData(group.latest.data);
+    if (url) openDeepLink(url);
   };
 
   // Optional: clear all notifications (and badge)
   const clearAll = async () => {
-    setInbox([]);
-    await saveInbox([]);
-    await updateUnreadCount([]);
+    await clearInbox();
   };
 
   /* -------------------------- Existing action flows ------------------------- */
@@ -331,7 +294,7 @@ export default function NotifyTab() {
       await sendNow('Snapigo Test', 'Local notification works 🎉');
       await refreshDiag();
       // The actual notification content will be added to inbox
-      // by the Notifications.addNotificationReceivedListener above
+      // by the tab layout's received listener
     } catch (e: any) {
       Alert.alert('Error', e.message ?? String(e));
     } finally {
@@ -343,7 +306,7 @@ export default function NotifyTab() {
     try {
       setLoading(true);
       await stopAllGeofences();
-      await AsyncStorage.removeItem('snapigo_notif_state');
+      await AsyncStorage.removeItem('snapigo_notif_state'); // daily count + cooldowns, not preferences
       await AsyncStorage.removeItem('snapigo_region_meta');
       // Do NOT clear inbox here automatically; that's user-facing history.
       await refreshDiag();
@@ -511,45 +474,53 @@ Registered regions: ${res.count}.`
                 No notifications stored yet. When alerts pop up, you’ll see them here.
               </Text>
             ) : (
-              inbox.map((item) => (
-                <Pressable
-                  key={item.id}
-                  onPress={() => handleNotificationPress(item.id)}
-                  style={[
-                    styles.inboxRow,
-                    !item.read && { backgroundColor: '#eff6ff' },
-                  ]}
-                >
-                  <View style={{ flex: 1 }}>
-                    <Text
-                      style={{
-                        fontWeight: item.read ? '600' : '800',
-                        color: '#111827',
-                      }}
-                      numberOfLines={1}
-                    >
-                      {item.title}
-                    </Text>
-                    {!!item.body && (
+              inbox.map((group) => {
+                const item = group.latest;
+                const read = group.unread === 0;
+                return (
+                  <Pressable
+                    key={group.key}
+                    onPress={() => handleNotificationPress(group)}
+                    style={[
+                      styles.inboxRow,
+                      !read && { backgroundColor: '#eff6ff' },
+                    ]}
+                  >
+                    <View style={{ flex: 1 }}>
                       <Text
-                        style={{ color: '#4b5563', fontSize: 12, marginTop: 2 }}
-                        numberOfLines={2}
+                        style={{
+                          fontWeight: read ? '600' : '800',
+                          color: '#111827',
+                        }}
+                        numberOfLines={1}
                       >
-                        {item.body}
+                        {item.title}
                       </Text>
-                    )}
-                    <Text
-                      style={{ color: '#9ca3af', fontSize: 10, marginTop: 4 }}
-                    >
-                      {new Date(item.createdAt).toLocaleString()}
-                    </Text>
-                  </View>
-                  {!item.read && <View style={styles.unreadDot} />}
-                </Pressable>
-              ))
+                      {!!item.body && (
+                        <Text
+                          style={{ color: '#4b5563', fontSize: 12, marginTop: 2 }}
+                          numberOfLines={2}
+                        >
+                          {item.body}
+                        </Text>
+                      )}
+                      <Text
+                        style={{ color: '#9ca3af', fontSize: 10, marginTop: 4 }}
+                      >
+                        {new Date(item.createdAt).toLocaleString()}
+                        {group.items.length > 1 ? `  •  ${group.items.length} alerts` : ''}
+                      </Text>
+                    </View>
+                    {!read && <View style={styles.unreadDot} />}
+                  </Pressable>
+                );
+              })
             )}
           </View>
 
+          {/* Alert preferences */}
+          <PrefsCard prefs={prefs} onChange={updatePrefs} />
+
           {/* Actions */}
           <View style={styles.card}>
             <Text style={styles.cardTitle}>Actions</Text>
@@ -589,7 +560,7 @@ Registered regions: ${res.count}.`
 
             <ActionButton
               label="Reset Geofences & Throttle"
-              caption="Stop geofences and clear daily/cooldown limits."
+              caption="Stop geofences and clear today's count and cooldowns."
               emoji="♻️"
               onPress={resetAll}
               disabled={loading}
@@ -665,6 +636,351 @@ Registered regions: ${res.count}.`
 
 /* ------------------------------- UI bits ------------------------------- */
 
+const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+const PREF_CATEGORIES: Category[] = ['food', 'retail', 'grocery', 'other'];
+const SNOOZE_HOURS = [1, 3, 8, 24];
+const REMINDER_DAYS = [1, 2, 3, 7];
+
+function PrefsCard({
+  prefs,
+  onChange,
+}: {
+  prefs: NotifyPrefs;
+  onChange: (patch: Partial<NotifyPrefs>) => void;
+}) {
+  const [quietStart, setQuietStart] = useState(formatMinutes(prefs.quietHours.start));
+  const [quietEnd, setQuietEnd] = useState(formatMinutes(prefs.quietHours.end));
+  const [maxPerDay, setMaxPerDay] = useState(String(prefs.maxPerDay));
+  const [cooldown, setCooldown] = useState(String(prefs.merchantCooldownH));
+  const [storeInput, setStoreInput] = useState('');
+  const [reminderAt, setReminderAt] = useState(formatMinutes(prefs.expiryReminders.hour * 60));
+  const { groups } = useGroups();
+
+  // Re-sync text fields when the server copy arrives
+  useEffect(() => {
+    setQuietStart(formatMinutes(prefs.quietHours.start));
+    setQuietEnd(formatMinutes(prefs.quietHours.end));
+    setMaxPerDay(String(prefs.maxPerDay));
+    setCooldown(String(prefs.merchantCooldownH));
+    setReminderAt(formatMinutes(prefs.expiryReminders.hour * 60));
+  }, [
+    prefs.quietHours.start,
+    prefs.quietHours.end,
+    prefs.maxPerDay,
+    prefs.merchantCooldownH,
+    prefs.expiryReminders.hour,
+  ]);
+
+  const snoozed = !!prefs.snoozeUntil && prefs.snoozeUntil > Date.now();
+  // "Snooze this store" from a notification (keys are normalized store names)
+  const activeStoreSnoozes = Object.entries(prefs.storeSnoozes).filter(
+    ([, until]) => until > Date.now()
+  );
+
+  const commitQuiet = () => {
+    const start = parseMinutes(quietStart);
+    const end = parseMinutes(quietEnd);
+    if (start == null || end == null) {
+      Alert.alert('Check quiet hours', 'Use 24-hour HH:MM, e.g. 22:00 and 07:00.');
+      setQuietStart(formatMinutes(prefs.quietHours.start));
+      setQuietEnd(formatMinutes(prefs.quietHours.end));
+      return;
+    }
+    onChange({ quietHours: { ...prefs.quietHours, start, end } });
+  };
+
+  const commitNumber = (text: string, key: 'maxPerDay' | 'merchantCooldownH', min: number) => {
+    const n = Number(text);
+    if (!Number.isFinite(n) || n < min) {
+      setMaxPerDay(String(prefs.maxPerDay));
+      setCooldown(String(prefs.merchantCooldownH));
+      return;
+    }
+    onChange({ [key]: n } as Partial<NotifyPrefs>);
+  };
+
+  const commitReminderAt = () => {
+    const m = parseMinutes(reminderAt);
+    if (m == null) {
+      setReminderAt(formatMinutes(prefs.expiryReminders.hour * 60));
+      return;
+    }
+    // Reminders go out on the hour
+    setReminderAt(formatMinutes(Math.floor(m / 60) * 60));
+    onChange({ expiryReminders: { ...prefs.expiryReminders, hour: Math.floor(m / 60) } });
+  };
+
+  const addMutedStore = () => {
+    const name = storeInput.trim();
+    if (!name) return;
+    if (!prefs.mutedStores.some((s) => s.toLowerCase() === name.toLowerCase())) {
+      onChange({ mutedStores: [...prefs.mutedStores, name] });
+    }
+    setStoreInput('');
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>Alert preferences</Text>
+
+      {/* Snooze */}
+      <View style={styles.inputRow}>
+        <Text style={styles.inputLabel}>Snooze all alerts</Text>
+        {snoozed ? (
+          <View style={styles.chipRow}>
+            <Text style={{ color: '#374151', flex: 1 }}>
+              Snoozed until {new Date(prefs.snoozeUntil!).toLocaleString()}
+            </Text>
+            <PrefChip label="Resume" active onPress={() => onChange({ snoozeUntil: null })} />
+          </View>
+        ) : (
+          <View style={styles.chipRow}>
+            {SNOOZE_HOURS.map((h) => (
+              <PrefChip
+                key={h}
+                label={`${h}h`}
+                onPress={() => onChange({ snoozeUntil: Date.now() + h * 3600 * 1000 })}
+              />
+            ))}
+          </View>
+        )}
+      </View>
+
+      {/* Quiet hours */}
+      <View style={styles.inputRow}>
+        <Text style={styles.inputLabel}>Quiet hours</Text>
+        <View style={styles.chipRow}>
+          <PrefChip
+            label={prefs.quietHours.enabled ? 'On' : 'Off'}
+            active={prefs.quietHours.enabled}
+            onPress={() =>
+              onChange({ quietHours: { ...prefs.quietHours, enabled: !prefs.quietHours.enabled } })
+            }
+          />
+          <TextInput
+            style={[styles.input, styles.timeInput]}
+            value={quietStart}
+            onChangeText={setQuietStart}
+            onEndEditing={commitQuiet}
+            placeholder="22:00"
+            placeholderTextColor="#9CA3AF"
+            keyboardType="numbers-and-punctuation"
+          />
+          <Text style={{ color: '#6b7280' }}>to</Text>
+          <TextInput
+            style={[styles.input, styles.timeInput]}
+            value={quietEnd}
+            onChangeText={setQuietEnd}
+            onEndEditing={commitQuiet}
+            placeholder="07:00"
+            placeholderTextColor="#9CA3AF"
+            keyboardType="numbers-and-punctuation"
+          />
+        </View>
+      </View>
+
+      {/* Days of week */}
+      <View style={styles.inputRow}>
+        <Text style={styles.inputLabel}>Alert days</Text>
+        <View style={styles.chipRow}>
+          {WEEKDAYS.map((d, i) => {
+            const on = prefs.days.includes(i);
+            return (
+              <PrefChip
+                key={i}
+                label={d}
+                active={on}
+                onPress={() =>
+                  onChange({
+                    days: on ? prefs.days.filter((x) => x !== i) : [...prefs.days, i].sort(),
+                  })
+                }
+              />
+            );
+          })}
+        </View>
+      </View>
+
+      {/* Caps */}
+      <View style={styles.chipRow}>
+        <View style={[styles.inputRow, { flex: 1 }]}>
+          <Text style={styles.inputLabel}>Max alerts per day</Text>
+          <TextInput
+            style={styles.input}
+            value={maxPerDay}
+            onChangeText={setMaxPerDay}
+            onEndEditing={() => commitNumber(maxPerDay, 'maxPerDay', 1)}
+            keyboardType="number-pad"
+          />
+        </View>
+        <View style={[styles.inputRow, { flex: 1 }]}>
+          <Text style={styles.inputLabel}>Hours between alerts per store</Text>
+          <TextInput
+            style={styles.input}
+            value={cooldown}
+            onChangeText={setCooldown}
+            onEndEditing={() => commitNumber(cooldown, 'merchantCooldownH', 0)}
+            keyboardType="decimal-pad"
+          />
+        </View>
+      </View>
+
+      {/* Muted categories */}
+      <View style={styles.inputRow}>
+        <Text style={styles.inputLabel}>Mute categories</Text>
+        <View style={styles.chipRow}>
+          {PREF_CATEGORIES.map((c) => {
+            const muted = prefs.mutedCategories.includes(c);
+            return (
+              <PrefChip
+                key={c}
+                label={muted ? `🔕 ${c}` : c}
+                active={muted}
+                onPress={() =>
+                  onChange({
+                    mutedCategories: muted
+                      ? prefs.mutedCategories.filter((x) => x !== c)
+                      : [...prefs.mutedCategories, c],
+                  })
+                }
+              />
+            );
+          })}
+        </View>
+      </View>
+
+      {/* Muted group wallets */}
+      {groups.length > 0 && (
+        <View style={styles.inputRow}>
+          <Text style={styles.inputLabel}>Mute group wallets</Text>
+          <View style={styles.chipRow}>
+            {groups.map((g) => {
+              const muted = prefs.mutedGroups.includes(g.id);
+              return (
+                <PrefChip
+                  key={g.id}
+                  label={muted ? `🔕 ${g.name}` : g.name}
+                  active={muted}
+                  onPress={() =>
+                    onChange({
+                      mutedGroups: muted
+                        ? prefs.mutedGroups.filter((x) => x !== g.id)
+                        : [...prefs.mutedGroups, g.id],
+                    })
+                  }
+                />
+              );
+            })}
+          </View>
+        </View>
+      )}
+
+      {/* Muted stores */}
+      <View style={styles.inputRow}>
+        <Text style={styles.inputLabel}>Muted stores</Text>
+        {prefs.mutedStores.length > 0 && (
+          <View style={styles.chipRow}>
+            {prefs.mutedStores.map((name) => (
+              <PrefChip
+                key={name}
+                label={`${name}  ✕`}
+                active
+                onPress={() => onChange({ mutedStores: prefs.mutedStores.filter((s) => s !== name) })}
+              />
+            ))}
+          </View>
+        )}
+        {activeStoreSnoozes.length > 0 && (
+          <View style={styles.chipRow}>
+            {activeStoreSnoozes.map(([key, until]) => (
+              <PrefChip
+                key={key}
+                label={`💤 ${key} · ${new Date(until).toLocaleTimeString([], {
+                  hour: 'numeric',
+                  minute: '2-digit',
+                })}  ✕`}
+                onPress={() => {
+                  const { [key]: _drop, ...rest } = prefs.storeSnoozes;
+                  onChange({ storeSnoozes: rest });
+                }}
+              />
+            ))}
+          </View>
+        )}
+        <View style={styles.chipRow}>
+          <TextInput
+            style={[styles.input, { flex: 1 }]}
+            value={storeInput}
+            onChangeText={setStoreInput}
+            onSubmitEditing={addMutedStore}
+            placeholder="Store name, e.g. Meijer"
+            placeholderTextColor="#9CA3AF"
+            returnKeyType="done"
+          />
+          <PrefChip label="Mute" onPress={addMutedStore} />
+        </View>
+      </View>
+
+      {/* Expiry reminders */}
+      <View style={styles.inputRow}>
+        <Text style={styles.inputLabel}>Expiry reminders</Text>
+        <View style={styles.chipRow}>
+          <PrefChip
+            label={prefs.expiryReminders.enabled ? 'On' : 'Off'}
+            active={prefs.expiryReminders.enabled}
+            onPress={() =>
+              onChange({
+                expiryReminders: {
+                  ...prefs.expiryReminders,
+                  enabled: !prefs.expiryReminders.enabled,
+                },
+              })
+            }
+          />
+          {REMINDER_DAYS.map((d) => (
+            <PrefChip
+              key={d}
+              label={`${d}d before`}
+              active={prefs.expiryReminders.daysBefore === d}
+              onPress={() =>
+                onChange({ expiryReminders: { ...prefs.expiryReminders, daysBefore: d } })
+              }
+            />
+          ))}
+        </View>
+        <View style={styles.chipRow}>
+          <Text style={{ color: '#6b7280' }}>Daily digest at</Text>
+          <TextInput
+            style={[styles.input, styles.timeInput]}
+            value={reminderAt}
+            onChangeText={setReminderAt}
+            onEndEditing={commitReminderAt}
+            placeholder="09:00"
+            placeholderTextColor="#9CA3AF"
+            keyboardType="numbers-and-punctuation"
+          />
+        </View>
+      </View>
+    </View>
+  );
+}
+
+function PrefChip({
+  label,
+  active,
+  onPress,
+}: {
+  label: string;
+  active?: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <Pressable onPress={onPress} style={[styles.chip, active && styles.chipActive]}>
+      <Text style={{ color: active ? '#fff' : '#5a4636', fontWeight: '700' }}>{label}</Text>
+    </Pressable>
+  );
+}
+
 function ActionButton({
   emoji,
   label,
@@ -812,6 +1128,18 @@ const styles = StyleSheet.create({
     color: '#111827',
   },
 
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', alignItems: 'center', gap: 8 },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: '#f2caa1',
+    backgroundColor: '#fff',
+  },
+  chipActive: { backgroundColor: '#2563eb', borderColor: '#2563eb' },
+  timeInput: { width: 76, textAlign: 'center' },
+
   inboxRow: {
     flexDirection: 'row',
     alignItems: 'center',
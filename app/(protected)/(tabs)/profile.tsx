@@ -1,7 +1,7 @@
 // app/(protected)/(tabs)/logout.tsx
 import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
@@ -11,8 +11,13 @@ import {
   TouchableOpacity,
   View,
 } from 'react-native';
-import { listSavedCoupons, unsaveCoupon, type SavedRow } from '../../../lib/saves';
-import { supabase } from '../../../lib/supabase';
+import CouponImage from '../../../components/CouponImage';
+import { useRedemptions, useSavedCoupons } from '../../../context/coupons';
+import { discountTitle, formatMoney } from '../../../lib/discount';
+import { isModerator } from '../../../lib/moderation';
+import { summarizeSavings, type SavingsSummary } from '../../../lib/redemptions';
+import { unsaveCoupon } from '../../../lib/saves';
+import { signOutWithConfirm } from '../../../lib/session';
 
 function timeAgo(iso?: string | null) {
   if (!iso) return '';
@@ -45,7 +50,7 @@ function pickIconName(store: string | null | undefined): keyof typeof Ionicons.g
   return 'pricetags-outline';
 }
 
-// 🔹 Hide junk titles like "undefined off" etc.
+// 🔹 Hide junk titles like "undefined off" etc. (rows saved before `discount` existed)
 function sanitizeTitle(title?: string | null) {
   if (!title) return '';
   const trimmed = title.trim();
@@ -68,36 +73,26 @@ function sanitizeTitle(title?: string | null) {
 export default function Profile() {
   const router = useRouter();
   const [signingOut, setSigningOut] = useState(false);
+  const [moderator, setModerator] = useState(false);
 
-  const [savedLoading, setSavedLoading] = useState(true);
-  const [savedError, setSavedError] = useState<string | null>(null);
-  const [saved, setSaved] = useState<SavedRow[]>([]);
-
-  // Load saved coupons on mount
   useEffect(() => {
-    loadSaved();
+    isModerator()
+      .then(setModerator)
+      .catch(() => setModerator(false));
   }, []);
 
-  async function loadSaved() {
-    try {
-      setSavedLoading(true);
-      setSavedError(null);
-      const rows = await listSavedCoupons();
-      setSaved(rows);
-    } catch (e: any) {
-      console.warn('[Profile] loadSaved error', e?.message);
-      setSavedError(e?.message ?? 'Failed to load saved coupons.');
-    } finally {
-      setSavedLoading(false);
-    }
-  }
+  const {
+    saved,
+    loading: savedLoading,
+    syncing: savedSyncing,
+    offline,
+    refresh: refreshSaved,
+  } = useSavedCoupons();
 
   const doSignOut = async () => {
     try {
       setSigningOut(true);
-      const { error } = await supabase.auth.signOut();
-      if (error) throw error;
-      router.replace('/(auth)/auth');
+      if (await signOutWithConfirm()) router.replace('/(auth)/auth');
     } catch (e: any) {
       Alert.alert('Sign out failed', e.message);
     } finally {
@@ -105,12 +100,11 @@ export default function Profile() {
     }
   };
 
-  async function removeSaved(rowId: string, couponId?: string) {
+  async function removeSaved(couponId?: string) {
     try {
       if (couponId) {
         await unsaveCoupon(couponId);
       }
-      setSaved(prev => prev.filter(r => r.id !== rowId));
     } catch (e: any) {
       Alert.alert('Remove failed', e?.message ?? 'Please try again.');
     }
@@ -122,7 +116,7 @@ export default function Profile() {
       <View style={{ paddingHorizontal: 20, marginBottom: 12 }}>
         <Text style={{ fontSize: 24, fontWeight: '800', color: '#5a4636' }}>My Profile </Text>
         <Text style={{ color: '#6b5b4d', marginTop: 4 }}>
-          See your saved coupons and manage your account.
+          See your saved coupons, what you&apos;ve saved, and manage your account.
         </Text>
       </View>
 
@@ -165,8 +159,8 @@ export default function Profile() {
               </Text>
             </View>
 
-            <TouchableOpacity onPress={loadSaved} disabled={savedLoading}>
-              {savedLoading ? (
+            <TouchableOpacity onPress={refreshSaved} disabled={savedLoading || savedSyncing}>
+              {savedLoading || savedSyncing ? (
                 <ActivityIndicator size="small" color="#5a4636" />
               ) : (
                 <Ionicons name="refresh" size={18} color="#5a4636" />
@@ -174,8 +168,10 @@ export default function Profile() {
             </TouchableOpacity>
           </View>
 
-          {savedError ? (
-            <Text style={{ color: '#b91c1c', marginBottom: 8 }}>{savedError}</Text>
+          {offline ? (
+            <Text style={{ color: '#6b5b4d', marginBottom: 8 }}>
+              Offline — showing your saved coupons from this device.
+            </Text>
           ) : null}
 
           {savedLoading && !saved.length ? (
@@ -206,7 +202,7 @@ export default function Profile() {
                 if (!c) return null;
                 const icon = pickIconName(c.store);
                 const exp = expiryText(c.expires_at);
-                const displayTitle = sanitizeTitle(c.title);
+                const displayTitle = c.discount ? discountTitle(c.discount) : sanitizeTitle(c.title);
 
                 return (
                   <View
@@ -227,7 +223,16 @@ export default function Profile() {
                       }}
                     >
                       <View style={{ flexDirection: 'row', alignItems: 'center' }}>
-                        <Ionicons name={icon} size={18} color="#472b1a" style={{ marginRight: 6 }} />
+                        {c.image_url ? (
+                          <CouponImage
+                            url={c.image_url}
+                            thumb
+                            contentFit="cover"
+                            style={{ width: 28, height: 28, borderRadius: 6, marginRight: 6 }}
+                          />
+                        ) : (
+                          <Ionicons name={icon} size={18} color="#472b1a" style={{ marginRight: 6 }} />
+                        )}
                         <Text
                           style={{
                             fontWeight: '800',
@@ -303,7 +308,7 @@ export default function Profile() {
                       )}
 
                       <TouchableOpacity
-                        onPress={() => removeSaved(item.id, c.id)}
+                        onPress={() => removeSaved(c.id)}
                         style={{
                           flexDirection: 'row',
                           alignItems: 'center',
@@ -333,6 +338,34 @@ export default function Profile() {
           ) : null}
         </View>
 
+        {/* Savings history */}
+        <SavingsCard />
+
+        {/* Moderation (moderators only) */}
+        {moderator ? (
+          <TouchableOpacity
+            onPress={() => router.push('/moderation')}
+            style={{
+              backgroundColor: '#fff',
+              borderRadius: 18,
+              padding: 14,
+              borderWidth: 1,
+              borderColor: '#f2caa1',
+              flexDirection: 'row',
+              alignItems: 'center',
+            }}
+          >
+            <Ionicons name="shield-checkmark-outline" size={20} color="#5a4636" />
+            <View style={{ flex: 1, marginLeft: 8 }}>
+              <Text style={{ fontWeight: '800', fontSize: 16, color: '#5a4636' }}>Moderation</Text>
+              <Text style={{ color: '#6b5b4d', fontSize: 12 }}>
+                Review reported coupons and see the moderation log.
+              </Text>
+            </View>
+            <Ionicons name="chevron-forward" size={18} color="#8a7a6b" />
+          </TouchableOpacity>
+        ) : null}
+
         {/* Sign out card */}
         <View
           style={{
@@ -368,3 +401,142 @@ export default function Profile() {
     </View>
   );
 }
+
+/* ------------------------------- Savings ------------------------------- */
+
+type SavingsView = 'month' | 'store' | 'category';
+
+const SAVINGS_VIEWS: { value: SavingsView; label: string }[] = [
+  { value: 'month', label: 'By month' },
+  { value: 'store', label: 'By store' },
+  { value: 'category', label: 'By category' },
+];
+
+const CATEGORY_LABELS: Record<string, string> = {
+  food: '🍔 Food',
+  retail: '🛍️ Retail',
+  grocery: '🛒 Grocery',
+  other: '🎟️ Other',
+};
+
+function bucketsFor(summary: SavingsSummary, view: SavingsView) {
+  if (view === 'store') return summary.byStore;
+  if (view === 'category') {
+    return summary.byCategory.map((b) => ({ ...b, label: CATEGORY_LABELS[b.key] ?? b.label }));
+  }
+  return summary.byMonth;
+}
+
+function SavingsCard() {
+  const router = useRouter();
+  const { redemptions, loading } = useRedemptions();
+  const [view, setView] = useState<SavingsView>('month');
+
+  const summary = useMemo(() => summarizeSavings(redemptions), [redemptions]);
+  const buckets = bucketsFor(summary, view);
+
+  return (
+    <View
+      style={{
+        backgroundColor: '#fff7ec',
+        borderRadius: 18,
+        padding: 14,
+        borderWidth: 1,
+        borderColor: '#f2caa1',
+      }}
+    >
+      <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 8 }}>
+        <MaterialCommunityIcons name="piggy-bank-outline" size={20} color="#5a4636" />
+        <Text style={{ marginLeft: 8, fontWeight: '800', fontSize: 16, color: '#5a4636' }}>
+          Savings
+        </Text>
+      </View>
+
+      {loading ? (
+        <View style={{ paddingVertical: 16, alignItems: 'center' }}>
+          <ActivityIndicator color="#5a4636" />
+        </View>
+      ) : summary.count === 0 ? (
+        <Text style={{ color: '#6b5b4d' }}>
+          Nothing here yet. Open a coupon and tap{' '}
+          <Text style={{ fontWeight: '700' }}>Mark as used</Text> after you redeem it.
+        </Text>
+      ) : (
+        <>
+          <Text style={{ fontSize: 28, fontWeight: '900', color: '#166534' }}>
+            {formatMoney(Math.round(summary.total * 100) / 100)}
+          </Text>
+          <Text style={{ color: '#6b5b4d', marginBottom: 10 }}>
+            saved across {summary.count} {summary.count === 1 ? 'coupon' : 'coupons'}
+          </Text>
+
+          <View style={{ flexDirection: 'row', gap: 8, marginBottom: 10 }}>
+            {SAVINGS_VIEWS.map((o) => {
+              const active = o.value === view;
+              return (
+                <TouchableOpacity
+                  key={o.value}
+                  onPress={() => setView(o.value)}
+                  style={{
+                    paddingHorizontal: 10,
+                    paddingVertical: 6,
+                    borderRadius: 999,
+                    borderWidth: 1,
+                    borderColor: active ? '#2563eb' : '#f2caa1',
+                    backgroundColor: active ? '#2563eb' : '#fff',
+                  }}
+                >
+                  <Text style={{ color: active ? '#fff' : '#5a4636', fontWeight: '700', fontSize: 12 }}>
+                    {o.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {buckets.map((b) => (
+            <View
+              key={b.key}
+              style={{
+                flexDirection: 'row',
+                justifyContent: 'space-between',
+                paddingVertical: 6,
+                borderBottomWidth: 1,
+                borderBottomColor: '#f8e3cc',
+              }}
+            >
+              <Text style={{ color: '#472b1a', fontWeight: '700', flex: 1 }} numberOfLines={1}>
+                {b.label}
+              </Text>
+              <Text style={{ color: '#7b6a5f', marginRight: 12 }}>×{b.count}</Text>
+              <Text style={{ color: '#166534', fontWeight: '800' }}>
+                {formatMoney(Math.round(b.total * 100) / 100)}
+              </Text>
+            </View>
+          ))}
+
+          <Text style={{ color: '#6b5b4d', fontWeight: '700', marginTop: 12, marginBottom: 4 }}>
+            Recently used
+          </Text>
+          {redemptions.slice(0, 5).map((r) => (
+            <TouchableOpacity
+              key={r.id}
+              disabled={!r.coupon_id}
+              onPress={() => r.coupon_id && router.push(`/coupon/${r.coupon_id}`)}
+              style={{ flexDirection: 'row', justifyContent: 'space-between', paddingVertical: 4 }}
+            >
+              <Text style={{ color: '#472b1a', flex: 1 }} numberOfLines={1}>
+                {r.store ?? 'Unknown store'}
+                {r.title ? ` · ${r.title}` : ''}
+              </Text>
+              <Text style={{ color: '#7b6a5f', fontSize: 12 }}>
+                {new Date(r.redeemed_at).toLocaleDateString()}
+                {r.amount_saved != null ? ` · ${formatMoney(r.amount_saved)}` : ''}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </>
+      )}
+    </View>
+  );
+}
@@ -1,5 +1,10 @@
-import { CameraView, useCameraPermissions } from 'expo-camera';
-import * as Location from 'expo-location';
+import {
+  CameraView,
+  scanFromURLAsync,
+  useCameraPermissions,
+  type BarcodeScanningResult,
+} from 'expo-camera';
+import { Image } from 'expo-image';
 import { useRouter } from 'expo-router';
 import { useEffect, useRef, useState } from 'react';
 import {
@@ -19,160 +24,55 @@ import {
 } from 'react-native';
 
 import {
-  extractCouponFields,
-  extractStoreAndAddressFromBlocks,
+  barcodeLabel,
+  mergeBarcodes,
+  SCAN_BARCODE_TYPES,
+  toCouponBarcode,
+  type CouponBarcode,
+} from '../../../lib/barcode';
+import {
+  cleanOcrText,
+  extractCoupon,
+  PARSER_VERSION,
   type ParsedCoupon,
 } from '../../../lib/coupon-parse';
+import { useGroups } from '../../../context/coupons';
+import {
+  CLAIM_HOLD_HOURS,
+  CLAIM_POLICY_OPTIONS,
+  claimLimitFor,
+  type ClaimPolicy,
+} from '../../../lib/claims';
+import {
+  findDuplicates,
+  mergeIntoCoupon,
+  stableIdFor,
+  type DuplicateMatch,
+} from '../../../lib/dedupe';
+import { formatDiscount, formatDiscountLimits, type Discount } from '../../../lib/discount';
+import { geocodeAddress } from '../../../lib/geocode';
 import { registerFromSupabase } from '../../../lib/geo';
-import { parseCouponBasics, prepareForOcr, runOcr } from '../../../lib/ocr';
+import { uploadCouponImage } from '../../../lib/images';
+import { addMerchantLocation, findOrCreateMerchant } from '../../../lib/merchants';
+import { prepareForOcr, runOcr } from '../../../lib/ocr';
+import { saveCoupon } from '../../../lib/saves';
 import { supabase } from '../../../lib/supabase';
 
 // Import your API
-import { addCoupon, type Category, type Visibility } from '../../../lib/coupons';
+import {
+  addCoupon,
+  type Category,
+  type NewCouponInput,
+  type Visibility,
+} from '../../../lib/coupons';
 
 type ModeType = '' | 'dine-in' | 'pickup';
 
-// ---------- small helpers ----------
-
-// normalize for substring checks
-const normalizeName = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, '');
-
-// Remove UI noise + random junk from OCR before parsing
-function cleanOcrText(raw: string): string {
-  const lines = raw.split(/\r?\n/);
-  const keep: string[] = [];
-
-  for (const rawLine of lines) {
-    const line = rawLine.trim();
-    if (!line) continue;
-
-    // Drop your UI header / labels from the app chrome
-    if (/^visibility:/i.test(line)) continue;
-    if (/my list/i.test(line)) continue;
-    if (/public\s*\(feed\)/i.test(line)) continue;
-
-    // Drop terminal / simulator junk
-    if (/^esc$/i.test(line)) continue;
-    if (/^0:$/.test(line)) continue;
-    if (/^F\d+$/i.test(line)) continue;
-
-    // Drop single-letter-ish lines with no digits (like "M", "v")
-    const letters = line.replace(/[^A-Za-z]/g, '');
-    const hasDigits = /\d/.test(line);
-    if (letters.length < 2 && !hasDigits) continue;
-
-    keep.push(rawLine);
-  }
-
-  return keep.join('\n');
-}
-
-// Last-chance store fallback just from text lines
-function fallbackStoreFromText(raw: string): string {
-  const lines = raw
-    .split(/\r?\n/)
-    .map((l) => l.trim())
-    .filter(Boolean);
-
-  let best = '';
-  let bestScore = -999;
-
-  for (const line of lines) {
-    if (!/[A-Za-z]/.test(line)) continue; // need letters
-
-    // ignore typical offer / terms / expiry lines
-    if (
-      /(valid|coupon|expires|expiration|discount|percent|%|off|save|only|terms|conditions|present|offer|with purchase)/i.test(
-        line
-      )
-    ) {
-      continue;
-    }
-
-    const letters = line.replace(/[^A-Za-z]/g, '');
-    // completely ignore super-short lines like "M" or "v"
-    if (letters.length < 3) continue;
-
-    let score = 0;
-
-    const caps = letters.replace(/[^A-Z]/g, '').length;
-    const capsRatio = letters.length ? caps / letters.length : 0;
-
-    const hasDigits = /\d/.test(line);
-    if (!hasDigits) score += 1.0; // store names usually no digits
-    score += capsRatio; // more caps → heading/logo-ish
-
-    const len = line.length;
-    if (len <= 30) score += 0.5;
-    if (len > 40) score -= 0.5;
-
-    if (score > bestScore) {
-      bestScore = score;
-      best = line;
-    }
-  }
-
-  return best;
-}
-
-// If store is like "MEIJER" and the next line is "MARKET", combine → "Meijer Market"
-function maybeExtendStoreWithNextLine(store: string, cleanedText: string): string {
-  if (!store) return store;
-
-  const lines = cleanedText
-    .split(/\r?\n/)
-    .map((l) => l.trim())
-    .filter(Boolean);
-
-  const idx = lines.findIndex((l) => l.toLowerCase() === store.toLowerCase());
-  if (idx < 0 || idx + 1 >= lines.length) return store;
-
-  const next = lines[idx + 1];
-  if (!next) return store;
-
-  // next line must be short, all letters, mostly caps (like "MARKET")
-  const letters = next.replace(/[^A-Za-z]/g, '');
-  if (!letters || letters.length > 12) return store;
-  const capsRatio =
-    letters.length === 0
-      ? 0
-      : letters.replace(/[^A-Z]/g, '').length / letters.length;
-  if (capsRatio < 0.7) return store;
-
-  return `${store} ${next}`
-    .toLowerCase()
-    .replace(/\b\w/g, (c) => c.toUpperCase());
-}
+// "Valid at all Meijer locations", "good at any participating store", ...
+const ALL_LOCATIONS_RE =
+  /\b(all|any)\s+(participating\s+)?((?!in\b|at\b|of\b|the\b)[a-z'&]+\s+){0,2}(locations?|stores?|restaurants?)\b/i;
 
-// ---------- known brands & categories ----------
-
-const KNOWN_BRANDS = [
-  "McDonald's",
-  'McDonalds',
-  "Mc Donald's",
-  'Mc Donalds',
-  'Starbucks',
-  'Subway',
-  'The Melting Pot',
-  'Melting Pot',
-  'Chipotle',
-  'Dunkin',
-  'Panera',
-  "Wendy's",
-  "Domino's",
-  'Target',
-  'Walmart',
-  'Kroger',
-  'Meijer',
-  'Aldi',
-  'Costco',
-  "Sam's Club",
-  'CVS',
-  'Walgreens',
-  'Best Buy',
-  'Taco Bell',
-  'Burger King',
-];
+// ---------- categories ----------
 
 const CATEGORY_OPTIONS: { value: Category; label: string; emoji: string }[] = [
   { value: 'food', label: 'Food & Dining', emoji: '🍔' },
@@ -186,6 +86,35 @@ function categoryLabel(c: Category) {
   return `${hit.emoji} ${hit.label}`;
 }
 
+// ---------- duplicates ----------
+
+type DuplicateChoice = 'merge' | 'public' | 'anyway' | 'cancel';
+
+// Three buttons at most (Android's limit): merge into mine, or save the public one
+function askDuplicate(match: DuplicateMatch): Promise<DuplicateChoice> {
+  const c = match.coupon;
+  const deal = c.discount ? formatDiscount(c.discount) : c.title;
+  const what = [c.store ?? 'Unknown store', deal].filter(Boolean).join(' · ');
+  const expires = c.expires_at ? `\nExpires ${new Date(c.expires_at).toLocaleDateString()}` : '';
+
+  return new Promise((resolve) => {
+    Alert.alert(
+      match.mine ? 'You already have this coupon' : 'Someone already posted this',
+      match.mine
+        ? `${what}${expires}\n\nMerge adds anything new from this scan (photo, barcodes, address) to the one you have.`
+        : `${what}${expires}\n\nSave the public one to your list instead of adding a copy?`,
+      [
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve('cancel') },
+        { text: 'Save anyway', onPress: () => resolve('anyway') },
+        match.mine
+          ? { text: 'Merge', onPress: () => resolve('merge') }
+          : { text: 'Save existing', onPress: () => resolve('public') },
+      ],
+      { cancelable: true, onDismiss: () => resolve('cancel') }
+    );
+  });
+}
+
 export default function Scan() {
   const router = useRouter();
   const [permission, requestPermission] = useCameraPermissions();
@@ -197,6 +126,7 @@ export default function Scan() {
 
   const [store, setStore] = useState('');
   const [title, setTitle] = useState('');
+  const [discount, setDiscount] = useState<Discount | null>(null);
   const [terms, setTerms] = useState('');
   const [expiresAt, setExpiresAt] = useState<string | null>(null);
 
@@ -204,14 +134,23 @@ export default function Scan() {
   const [phone, setPhone] = useState('');
   const [mode, setMode] = useState<ModeType>('');
   const [locationNote, setLocationNote] = useState('');
+  const [allLocations, setAllLocations] = useState(false); // valid at every branch of the store
 
   const [publication, setPublication] = useState('');
   const [pubSuggestions, setPubSuggestions] = useState<string[]>([]);
 
   const [fullText, setFullText] = useState('');
+  const [photoUri, setPhotoUri] = useState<string | null>(null); // prepared JPEG
+  const [barcodes, setBarcodes] = useState<CouponBarcode[]>([]);
+  // codes seen in the viewfinder before the shutter is pressed
+  const liveBarcodes = useRef<CouponBarcode[]>([]);
   const [details, setDetails] = useState<ParsedCoupon | null>(null);
 
   const [visibility, setVisibility] = useState<Visibility>('private');
+  const { groups } = useGroups();
+  const [groupId, setGroupId] = useState<string | null>(null); // shared wallet, null = just me
+  const [claimPolicy, setClaimPolicy] = useState<ClaimPolicy>('unlimited'); // public only
+  const [claimCount, setClaimCount] = useState('');
   const [category, setCategory] = useState<Category>('other');
   const [catPickerOpen, setCatPickerOpen] = useState(false);
 
@@ -271,9 +210,15 @@ export default function Scan() {
         return;
       }
     }
+    liveBarcodes.current = [];
     setShowCamera(true);
   };
 
+  const onBarcodeScanned = (r: BarcodeScanningResult) => {
+    const code = toCouponBarcode(r, 'live');
+    if (code) liveBarcodes.current = mergeBarcodes(liveBarcodes.current, [code]);
+  };
+
   function guessCategory(s: string, t: string): Category {
     const x = `${s} ${t}`.toLowerCase();
     if (/(pizza|taco|grill|burger|cafe|coffee|restaurant|bar|deli|burrito|sushi)/.test(x))
@@ -297,10 +242,22 @@ export default function Scan() {
       const prepped = await prepareForOcr(photo.uri);
       const result = await runOcr(prepped);
 
+      // Decode barcodes from the full-resolution photo; the live ones fill gaps
+      let photoCodes: CouponBarcode[] = [];
+      try {
+        const found = await scanFromURLAsync(photo.uri, SCAN_BARCODE_TYPES);
+        photoCodes = found
+          .map((r) => toCouponBarcode(r, 'photo'))
+          .filter((b): b is CouponBarcode => !!b);
+      } catch (e: any) {
+        console.warn('[Scan] barcode decode failed', e?.message);
+      }
+      const codes = mergeBarcodes(photoCodes, liveBarcodes.current);
+
       const rawText = result.text ?? '';
       const text = cleanOcrText(rawText);
 
-      console.log('🔍 OCR text (cleaned):\n', text);
+      console.log(`🔍 OCR text (cleaned, ${result.engine}):\n`, text);
 
       if (!text.trim()) {
         Alert.alert(
@@ -311,88 +268,26 @@ export default function Scan() {
         return;
       }
 
-      const basic = parseCouponBasics(text);
-      const parsed = extractCouponFields(text, result.blocks);
-
-      const layout = await extractStoreAndAddressFromBlocks(
-        result.blocks?.map((b) => ({ text: b.text, bbox: b.bbox })) ?? [],
-        text,
-        { tryGeocode: true, brands: KNOWN_BRANDS }
-      );
-
-      console.log('layout.store:', layout.store);
-      console.log('parsed.store:', parsed.store);
-      console.log('basic.storeGuess:', basic.storeGuess);
+      const parsed = await extractCoupon(text, result.blocks, { geocode: geocodeAddress });
 
       setFullText(text);
+      setPhotoUri(prepped);
+      setBarcodes(codes);
       setDetails(parsed);
 
-      // ---- Store: layout → parsed → basic → brand match → generic fallback
-      let nextStore = layout.store ?? parsed.store ?? basic.storeGuess ?? '';
-
-      // Brand fallback (McDonalds, Starbucks, etc.)
-      if (!nextStore) {
-        const normText = normalizeName(text);
-        for (const brand of KNOWN_BRANDS) {
-          const nb = normalizeName(brand);
-          if (nb && normText.includes(nb)) {
-            nextStore = brand;
-            console.log('✅ Brand fallback hit:', brand);
-            break;
-          }
-        }
-      }
-
-      // Generic fallback from cleaned OCR lines (top heading-ish text)
-      if (!nextStore) {
-        const fb = fallbackStoreFromText(text);
-        if (fb) {
-          nextStore = fb;
-          console.log('✅ Text-line fallback hit:', fb);
-        }
-      }
-
-      // Extend e.g. "MEIJER" + "MARKET" → "Meijer Market"
-      if (nextStore) {
-        const extended = maybeExtendStoreWithNextLine(nextStore, text);
-        if (extended !== nextStore) {
-          console.log('✅ Extended store:', extended);
-          nextStore = extended;
-        }
-      }
-
-      console.log('final nextStore:', nextStore);
-
+      const nextStore = parsed.store ?? '';
+      const nextTitle = parsed.title ?? '';
       setStore(nextStore);
-      setAddress(layout.address ?? parsed.address ?? '');
-      setPhone(layout.phone ?? parsed.phone ?? '');
-
-      const nextTitle = basic.discount_kind
-        ? basic.discount_kind === 'percent'
-          ? `${basic.discount_value}% off`
-          : `$${basic.discount_value} off`
-        : parsed.title ?? '';
       setTitle(nextTitle);
-
+      setDiscount(parsed.discount ?? null);
+      setAddress(parsed.address ?? '');
+      setPhone(parsed.phone ?? '');
       setTerms((parsed.terms ?? text).slice(0, 400));
-
-      // Prefer expiry extracted by coupon-parse; fall back to basic.expires_guess
-      const expiryGuess = parsed.expires_at ?? basic.expires_guess ?? null;
-      setExpiresAt(expiryGuess);
-
+      setExpiresAt(parsed.expires_at ?? null);
       setMode((parsed.mode as ModeType) ?? '');
       setLocationNote(parsed.location_note ?? '');
-
-      // Try to auto-detect publication from OCR (simple heuristic)
-      const pubGuess = (() => {
-        const lower = text.toLowerCase();
-        if (lower.includes('entertainment book')) return 'Entertainment';
-        if (lower.includes('entertainment®')) return 'Entertainment';
-        if (lower.includes('key card')) return 'Key Card';
-        if (lower.includes('valpak')) return 'Valpak';
-        return '';
-      })();
-      setPublication(pubGuess);
+      setAllLocations(ALL_LOCATIONS_RE.test(text));
+      setPublication(parsed.publication ?? '');
 
       setCategory(guessCategory(nextStore, nextTitle));
       setModalOpen(true);
@@ -404,6 +299,12 @@ export default function Scan() {
   };
 
   const save = async () => {
+    const claimLimit =
+      visibility === 'public' ? claimLimitFor(claimPolicy, Number(claimCount)) : null;
+    if (claimLimit === undefined) {
+      Alert.alert('How many claims?', 'Enter a number of claims (2 or more).');
+      return;
+    }
     try {
       setBusy(true);
       const { data } = await supabase.auth.getSession();
@@ -414,31 +315,75 @@ export default function Scan() {
       }
 
       const nn = (s?: string | null) => (s && s.trim().length ? s.trim() : null);
+      const stableId = stableIdFor(store, title);
+      const expiresIso = expiresAt ? new Date(expiresAt).toISOString() : null;
+
+      // Same coupon already in my list, or already public? Ask before adding another row
+      const dupes = await findDuplicates(uid, {
+        store: nn(store),
+        title: nn(title),
+        discount,
+        expires_at: expiresIso,
+        stable_id: stableId,
+      });
+      const choice = dupes.length ? await askDuplicate(dupes[0]) : 'anyway';
+      if (choice === 'cancel') return;
+      if (choice === 'public') {
+        await saveCoupon(dupes[0].coupon.id, dupes[0].coupon);
+        setModalOpen(false);
+        setShowCamera(false);
+        router.push({ pathname: '/coupon/[id]', params: { id: dupes[0].coupon.id } });
+        return;
+      }
+      // Merging only fills in what the existing coupon is missing (see mergeIntoCoupon)
+      const merging = choice === 'merge' ? dupes[0].coupon : null;
 
       let geo: { lat: number; lng: number } | undefined = undefined;
       if (address) {
         try {
-          const r = await Location.geocodeAsync(address);
-          if (r?.length) geo = { lat: r[0].latitude, lng: r[0].longitude };
+          geo = (await geocodeAddress(address)) ?? undefined; // usually cached from the parse step
         } catch {
           // ignore
         }
       }
 
-      const row = await addCoupon({
+      // Multi-location coupon → link the merchant and record this address as one of its branches
+      // (a merge keeps the existing coupon's merchant, so there's nothing to link)
+      let merchantId: string | null = null;
+      if (!merging && allLocations && nn(store)) {
+        try {
+          const merchant = await findOrCreateMerchant(store);
+          merchantId = merchant.id;
+          if (geo && nn(address)) await addMerchantLocation(merchant.id, address, geo);
+        } catch (e: any) {
+          console.warn('[Scan] merchant link failed', e?.message);
+        }
+      }
+
+      // Keep the coupon even if the photo can't be uploaded. Not uploaded at all when the merge
+      // target already has a photo: nothing would point at it.
+      let imageUrl: string | null = null;
+      if (photoUri && !merging?.image_url) {
+        try {
+          imageUrl = await uploadCouponImage(uid, photoUri);
+        } catch (e: any) {
+          console.warn('[Scan] image upload failed', e?.message);
+        }
+      }
+
+      const input: NewCouponInput = {
         owner_id: uid,
         store: nn(store),
         title: nn(title),
+        discount,
         terms: nn(terms),
-        expires_at: expiresAt ? new Date(expiresAt).toISOString() : null,
-        image_url: null,
-        stable_id:
-          store && title
-            ? `${store}-${title}`.toLowerCase().replace(/[^a-z0-9]+/g, '-')
-            : null,
+        expires_at: expiresIso,
+        image_url: imageUrl,
+        barcodes,
+        stable_id: stableId,
         attrs: {
           ocr: true,
-          parser_version: 1,
+          parser_version: details?.parser_version ?? PARSER_VERSION,
           ocr_text: fullText || undefined,
           address: nn(address),
           phone: nn(phone || null),
@@ -449,14 +394,18 @@ export default function Scan() {
         visibility,
         category,
         publication: nn(publication),
-      });
+        merchant_id: merchantId,
+        group_id: groupId && groups.some((g) => g.id === groupId) ? groupId : null,
+        claim_limit: claimLimit,
+      };
+      const row = merging ? await mergeIntoCoupon(merging, input) : await addCoupon(input);
 
       const res = await registerFromSupabase(uid);
       Alert.alert('Nearby alerts ready', `Watching ${res.count} place(s).`);
 
       setModalOpen(false);
       setShowCamera(false);
-      router.push({ pathname: '/list', params: { id: row.id } });
+      router.push({ pathname: '/coupon/[id]', params: { id: row.id } });
     } catch (e: any) {
       Alert.alert('Save failed', e.message);
     } finally {
@@ -509,7 +458,13 @@ export default function Scan() {
       </View>
 
       <View style={styles.cameraWrap}>
-        <CameraView ref={cameraRef} style={{ flex: 1 }} facing="back" />
+        <CameraView
+          ref={cameraRef}
+          style={{ flex: 1 }}
+          facing="back"
+          barcodeScannerSettings={{ barcodeTypes: SCAN_BARCODE_TYPES }}
+          onBarcodeScanned={onBarcodeScanned}
+        />
         <View pointerEvents="none" style={styles.overlay}>
           <View style={styles.frame} />
         </View>
@@ -555,6 +510,20 @@ export default function Scan() {
           </Text>
 
           <ScrollView contentContainerStyle={{ paddingBottom: 24 }}>
+            {photoUri ? (
+              <Image
+                source={{ uri: photoUri }}
+                contentFit="contain"
+                style={{
+                  width: '100%',
+                  height: 160,
+                  borderRadius: 12,
+                  marginBottom: 12,
+                  backgroundColor: '#fff',
+                }}
+              />
+            ) : null}
+
             {/* Visibility (chips) */}
             <View style={{ marginBottom: 12 }}>
               <Text
@@ -605,6 +574,112 @@ export default function Scan() {
               </Text>
             </View>
 
+            {/* Claims (chips) – public coupons that only work a limited number of times */}
+            {visibility === 'public' ? (
+              <View style={{ marginBottom: 12 }}>
+                <Text
+                  style={{
+                    color: '#6b5b4d',
+                    marginBottom: 6,
+                    fontWeight: '700',
+                  }}
+                >
+                  Claims
+                </Text>
+                <View style={{ flexDirection: 'row', gap: 8 }}>
+                  {CLAIM_POLICY_OPTIONS.map((o) => {
+                    const active = claimPolicy === o.value;
+                    return (
+                      <TouchableOpacity
+                        key={o.value}
+                        onPress={() => setClaimPolicy(o.value)}
+                        style={[
+                          styles.chip,
+                          {
+                            borderColor: active ? '#2563eb' : '#f2caa1',
+                            backgroundColor: active ? '#2563eb' : '#fff',
+                          },
+                        ]}
+                      >
+                        <Text
+                          style={{
+                            color: active ? '#fff' : '#5a4636',
+                            fontWeight: '700',
+                          }}
+                        >
+                          {o.label}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+                {claimPolicy === 'limited' ? (
+                  <View style={{ marginTop: 8 }}>
+                    <Field
+                      label="Number of claims"
+                      value={claimCount}
+                      onChangeText={(s) => setClaimCount(s.replace(/[^0-9]/g, ''))}
+                      keyboardType="number-pad"
+                    />
+                  </View>
+                ) : null}
+                {claimPolicy !== 'unlimited' ? (
+                  <Text
+                    style={{
+                      color: '#6b5b4d',
+                      marginTop: 6,
+                      fontSize: 12,
+                    }}
+                  >
+                    Each claim is held for {CLAIM_HOLD_HOURS} hours (or until it expires).
+                    Claims that aren’t marked used in time go back to the Feed.
+                  </Text>
+                ) : null}
+              </View>
+            ) : null}
+
+            {/* Wallet (chips) – only once the user is in a group */}
+            {groups.length > 0 ? (
+              <View style={{ marginBottom: 12 }}>
+                <Text
+                  style={{
+                    color: '#6b5b4d',
+                    marginBottom: 6,
+                    fontWeight: '700',
+                  }}
+                >
+                  Wallet
+                </Text>
+                <View style={{ flexDirection: 'row', flexWrap: 'wrap', rowGap: 8 }}>
+                  {[{ id: null, name: 'Just me' }, ...groups].map((g) => {
+                    const active = groupId === g.id;
+                    return (
+                      <TouchableOpacity
+                        key={g.id ?? 'mine'}
+                        onPress={() => setGroupId(g.id)}
+                        style={[
+                          styles.chip,
+                          {
+                            borderColor: active ? '#2563eb' : '#f2caa1',
+                            backgroundColor: active ? '#2563eb' : '#fff',
+                          },
+                        ]}
+                      >
+                        <Text
+                          style={{
+                            color: active ? '#fff' : '#5a4636',
+                            fontWeight: '700',
+                          }}
+                        >
+                          {g.id ? `👪 ${g.name}` : g.name}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+            ) : null}
+
             {/* Category – compact dropdown (chip that opens tiny modal) */}
             <View style={{ marginBottom: 10 }}>
               <Text
@@ -718,8 +793,66 @@ export default function Scan() {
             </View>
 
             <Field label="Store Name" value={store} onChangeText={setStore} />
+            {barcodes.length > 0 && (
+              <View style={{ marginBottom: 10 }}>
+                <Text style={{ color: '#6b5b4d', marginBottom: 4 }}>Barcodes</Text>
+                {barcodes.map((b, i) => (
+                  <View
+                    key={`${b.format}:${b.data}`}
+                    style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 4 }}
+                  >
+                    <Text style={{ color: '#5a4636', flex: 1 }} numberOfLines={1}>
+                      {barcodeLabel(b.format)} · {b.data}
+                    </Text>
+                    <TouchableOpacity
+                      onPress={() => setBarcodes((prev) => prev.filter((_, j) => j !== i))}
+                    >
+                      <Text style={{ color: '#b91c1c', fontWeight: '700' }}>Remove</Text>
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </View>
+            )}
+            {discount && (
+              <View style={{ marginBottom: 10 }}>
+                <Text style={{ color: '#6b5b4d', marginBottom: 4 }}>Deal</Text>
+                <Text style={{ color: '#5a4636', fontWeight: '800', fontSize: 16 }}>
+                  {formatDiscount(discount)}
+                </Text>
+                {!!formatDiscountLimits(discount) && (
+                  <Text style={{ color: '#8a7a6b', fontSize: 12, marginTop: 2 }}>
+                    {formatDiscountLimits(discount)}
+                  </Text>
+                )}
+              </View>
+            )}
             {/* <Field label="Title" value={title} onChangeText={setTitle} /> */}
             <Field label="Address" value={address} onChangeText={setAddress} />
+            <View style={{ marginBottom: 10 }}>
+              <Text style={{ color: '#6b5b4d', marginBottom: 6 }}>Valid at</Text>
+              <View style={{ flexDirection: 'row', gap: 8 }}>
+                {[false, true].map((all) => {
+                  const active = allLocations === all;
+                  return (
+                    <TouchableOpacity
+                      key={String(all)}
+                      onPress={() => setAllLocations(all)}
+                      style={[
+                        styles.chip,
+                        {
+                          borderColor: active ? '#2563eb' : '#f2caa1',
+                          backgroundColor: active ? '#2563eb' : '#fff',
+                        },
+                      ]}
+                    >
+                      <Text style={{ color: active ? '#fff' : '#5a4636', fontWeight: '700' }}>
+                        {all ? `All ${store.trim() || 'store'} locations` : 'This address'}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
             <Field
               label="Phone"
               value={phone}
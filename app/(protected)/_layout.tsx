@@ -1,16 +1,52 @@
 import { Stack } from 'expo-router';
+import { useEffect } from 'react';
 import AuthGate from '../../components/AuthGate';
+import { CouponsProvider } from '../../context/coupons';
 import "@/lib/geo";
+import {
+  listenForNotificationResponses,
+  registerNotificationCategories,
+} from '../../lib/notification-actions';
+
+// Notification taps / action buttons. Rendered inside AuthGate so the user is signed in
+// and the coupon route exists before we navigate.
+function NotificationResponses() {
+  useEffect(() => {
+    registerNotificationCategories();
+    return listenForNotificationResponses();
+  }, []);
+  return null;
+}
 
 export default function ProtectedLayout() {
   return (
     <AuthGate>
-      <Stack>
-        {/* Tabs are a child route */}
-        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-        {/* Any extra screens in the protected area */}
-        {/* <Stack.Screen name="confirm" options={{ title: 'Confirm Coupon' }} /> */}
-      </Stack>
+      {/* Shared coupon store; also flushes queued offline changes on launch / foreground */}
+      <CouponsProvider>
+        <NotificationResponses />
+        <Stack>
+          {/* Tabs are a child route */}
+          <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+          {/* Any extra screens in the protected area */}
+          <Stack.Screen
+            name="coupon/[id]"
+            options={{ title: 'Coupon', headerBackTitle: 'Back' }}
+          />
+          <Stack.Screen
+            name="group/[id]"
+            options={{ title: 'Group', headerBackTitle: 'Back' }}
+          />
+          <Stack.Screen
+            name="moderation"
+            options={{ title: 'Moderation', headerBackTitle: 'Back' }}
+          />
+          {/* snapigo://share/<token> invite links */}
+          <Stack.Screen
+            name="share/[token]"
+            options={{ title: 'Shared coupon', headerBackTitle: 'Back' }}
+          />
+        </Stack>
+      </CouponsProvider>
     </AuthGate>
   );
 }
@@ -0,0 +1,1073 @@
+// app/(protected)/coupon/[id].tsx
+import { Ionicons } from '@expo/vector-icons';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Linking,
+  Modal,
+  Platform,
+  ScrollView,
+  Share,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { WebView } from 'react-native-webview';
+
+import CouponBarcode from '../../../components/CouponBarcode';
+import CouponImage from '../../../components/CouponImage';
+import {
+  useCoupon,
+  useGroups,
+  useRedemptions,
+  useSavedCoupons,
+} from '../../../context/coupons';
+
+import {
+  deleteCoupon,
+  updateCoupon,
+  type Category,
+  type Coupon,
+  type Visibility,
+} from '../../../lib/coupons';
+import {
+  CLAIM_POLICY_OPTIONS,
+  claimLimitFor,
+  claimPolicyOf,
+  claimStatusText,
+  type ClaimPolicy,
+} from '../../../lib/claims';
+import { formatDiscount, formatDiscountLimits, formatMoney } from '../../../lib/discount';
+import { registerFromSupabase } from '../../../lib/geo';
+import { geocodeAddress } from '../../../lib/geocode';
+import { canManageMembers, removeCouponFromGroup } from '../../../lib/groups';
+import { isLocalId } from '../../../lib/local-store';
+import { redeemCoupon, suggestedSaving, undoRedemption } from '../../../lib/redemptions';
+import { saveCoupon } from '../../../lib/saves';
+import {
+  createShareLink,
+  listCouponShares,
+  revokeShare,
+  shareWithEmail,
+  type CouponShare,
+} from '../../../lib/shares';
+import { supabase } from '../../../lib/supabase';
+import { toStr } from '../../../utils/params';
+
+type ModeType = '' | 'dine-in' | 'pickup';
+
+const CATEGORY_OPTIONS: { value: Category; label: string }[] = [
+  { value: 'food', label: '🍔 Food' },
+  { value: 'retail', label: '🛍️ Retail' },
+  { value: 'grocery', label: '🛒 Grocery' },
+  { value: 'other', label: '🎟️ Other' },
+];
+
+const MODE_OPTIONS: { value: ModeType; label: string }[] = [
+  { value: '', label: 'Any' },
+  { value: 'dine-in', label: 'Dine-in' },
+  { value: 'pickup', label: 'Pickup' },
+];
+
+// Editable copy of the coupon; strings so TextInputs stay controlled
+type Draft = {
+  store: string;
+  terms: string;
+  expires: string; // YYYY-MM-DD
+  address: string;
+  phone: string;
+  mode: ModeType;
+  locationNote: string;
+  publication: string;
+  category: Category;
+  visibility: Visibility;
+  groupId: string; // '' = just me
+  claimPolicy: ClaimPolicy;
+  claimCount: string; // for 'limited'
+};
+
+function toDraft(c: Coupon): Draft {
+  const a = c.attrs ?? {};
+  return {
+    store: c.store ?? '',
+    terms: c.terms ?? '',
+    expires: c.expires_at ? c.expires_at.slice(0, 10) : '',
+    address: a.address ?? '',
+    phone: a.phone ?? '',
+    mode: (a.mode ?? '') as ModeType,
+    locationNote: a.location_note ?? '',
+    publication: c.publication ?? '',
+    category: c.category ?? 'other',
+    visibility: c.visibility ?? 'private',
+    groupId: c.group_id ?? '',
+    claimPolicy: claimPolicyOf(c),
+    claimCount: c.claim_limit && c.claim_limit > 1 ? String(c.claim_limit) : '',
+  };
+}
+
+function getGeo(c: Coupon): { lat: number; lng: number } | null {
+  const g = c.attrs?.geo;
+  if (g?.lat != null && g?.lng != null) return { lat: g.lat, lng: g.lng };
+  return null;
+}
+
+// OpenStreetMap embed with a single marker (no native map module needed)
+function mapEmbedUrl({ lat, lng }: { lat: number; lng: number }) {
+  const d = 0.004;
+  const bbox = [lng - d, lat - d, lng + d, lat + d].join(',');
+  return `https://www.openstreetmap.org/export/embed.html?bbox=${bbox}&layer=mapnik&marker=${lat},${lng}`;
+}
+
+function openInMaps(label: string, { lat, lng }: { lat: number; lng: number }) {
+  const q = encodeURIComponent(label);
+  const url =
+    Platform.OS === 'ios'
+      ? `http://maps.apple.com/?ll=${lat},${lng}&q=${q}`
+      : `geo:${lat},${lng}?q=${lat},${lng}(${q})`;
+  Linking.openURL(url).catch(() => {});
+}
+
+export default function CouponDetailScreen() {
+  const params = useLocalSearchParams();
+  const id = toStr(params.id);
+  const router = useRouter();
+
+  const { coupon, loading } = useCoupon(id);
+  const [myUid, setMyUid] = useState<string | null>(null);
+
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [showOcr, setShowOcr] = useState(false);
+  const [imageOpen, setImageOpen] = useState(false);
+  const [redeemOpen, setRedeemOpen] = useState(false);
+
+  const { byCoupon } = useRedemptions();
+  const redemption = id ? byCoupon.get(id) ?? null : null;
+
+  const { savedIds } = useSavedCoupons();
+  const { groups } = useGroups();
+  const [savingToList, setSavingToList] = useState(false);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => setMyUid(data.session?.user?.id ?? null));
+  }, []);
+
+  // The store re-renders us after edits anywhere; only reset the form while not editing
+  useEffect(() => {
+    if (coupon && !editing) setDraft(toDraft(coupon));
+  }, [coupon, editing]);
+
+  const isOwner = !!coupon && !!myUid && coupon.owner_id === myUid;
+  const walletGroup = coupon?.group_id ? groups.find((g) => g.id === coupon.group_id) ?? null : null;
+
+  const set = <K extends keyof Draft>(key: K, value: Draft[K]) =>
+    setDraft((d) => (d ? { ...d, [key]: value } : d));
+
+  async function save() {
+    if (!coupon || !draft) return;
+    const nn = (s: string) => (s.trim().length ? s.trim() : null);
+
+    const expires = draft.expires.trim();
+    if (expires && !/^\d{4}-\d{2}-\d{2}$/.test(expires)) {
+      Alert.alert('Check the expiry', 'Use the YYYY-MM-DD format, e.g. 2026-01-31.');
+      return;
+    }
+
+    const claimLimit =
+      draft.visibility === 'public'
+        ? claimLimitFor(draft.claimPolicy, Number(draft.claimCount))
+        : null;
+    if (claimLimit === undefined) {
+      Alert.alert('How many claims?', 'Enter a number of claims (2 or more).');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const prev = toDraft(coupon);
+
+      // Address changed → re-geocode so geofences follow the fix
+      let geo = getGeo(coupon);
+      if (draft.address.trim() !== prev.address.trim()) {
+        geo = null;
+        if (draft.address.trim()) {
+          try {
+            geo = await geocodeAddress(draft.address.trim());
+          } catch {
+            // ignore
+          }
+        }
+      }
+
+      await updateCoupon(coupon.id, {
+        store: draft.store,
+        terms: draft.terms,
+        expires_at: expires ? new Date(`${expires}T23:59:59`).toISOString() : null,
+        publication: draft.publication,
+        category: draft.category,
+        visibility: draft.visibility,
+        group_id: draft.groupId || null,
+        claim_limit: claimLimit,
+        attrs: {
+          address: nn(draft.address),
+          phone: nn(draft.phone),
+          mode: draft.mode || null,
+          location_note: nn(draft.locationNote),
+          geo: geo ?? undefined,
+        },
+      });
+
+      setEditing(false);
+
+      if (myUid) {
+        registerFromSupabase(myUid).catch((e) =>
+          console.warn('[Coupon] re-register geofences failed', e?.message)
+        );
+      }
+    } catch (e: any) {
+      Alert.alert('Save failed', e?.message ?? 'Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function askDelete() {
+    if (!coupon) return;
+    Alert.alert('Delete coupon?', 'This cannot be undone.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteCoupon(coupon.id);
+            router.back();
+          } catch (e: any) {
+            Alert.alert('Delete failed', e?.message ?? 'Please try again.');
+          }
+        },
+      },
+    ]);
+  }
+
+  // Coupons shared with me (or opened from the feed) can be kept in Saved
+  async function saveToMyCoupons() {
+    if (!coupon) return;
+    setSavingToList(true);
+    try {
+      await saveCoupon(coupon.id, coupon);
+    } catch (e: any) {
+      Alert.alert('Could not save', e?.message ?? 'Please try again.');
+    } finally {
+      setSavingToList(false);
+    }
+  }
+
+  // Owners / admins of the group can take another member's coupon out of the wallet
+  function askRemoveFromGroup() {
+    if (!coupon || !walletGroup) return;
+    Alert.alert(`Remove from ${walletGroup.name}?`, 'It stays with its owner.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await removeCouponFromGroup(coupon.id);
+            router.back();
+          } catch (e: any) {
+            Alert.alert('Remove failed', e?.message ?? 'Please try again.');
+          }
+        },
+      },
+    ]);
+  }
+
+  function askUndoRedemption() {
+    if (!redemption) return;
+    Alert.alert('Remove from history?', 'The coupon goes back to your active coupons.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: () =>
+          undoRedemption(redemption.id).catch((e) =>
+            Alert.alert('Could not undo', e?.message ?? 'Please try again.')
+          ),
+      },
+    ]);
+  }
+
+  if (loading) {
+    return (
+      <View style={styles.center}>
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  if (!coupon || !draft) {
+    return (
+      <View style={styles.center}>
+        <Stack.Screen options={{ title: 'Coupon' }} />
+        <Text style={{ fontSize: 16, color: '#5a4636', marginBottom: 6 }}>Coupon not found</Text>
+        <Text style={{ color: '#6b5b4d' }}>It may have been deleted or made private.</Text>
+      </View>
+    );
+  }
+
+  const attrs = coupon.attrs ?? {};
+  const geo = getGeo(coupon);
+  const deal = coupon.discount ? formatDiscount(coupon.discount) : coupon.title;
+  const limits = coupon.discount ? formatDiscountLimits(coupon.discount) : '';
+
+  return (
+    <View style={{ flex: 1, backgroundColor: '#ffebd5' }}>
+      <Stack.Screen
+        options={{
+          title: coupon.store ?? 'Coupon',
+          headerRight: isOwner
+            ? () => (
+                <TouchableOpacity onPress={() => (editing ? save() : setEditing(true))} disabled={saving}>
+                  {saving ? (
+                    <ActivityIndicator />
+                  ) : (
+                    <Text style={{ color: '#2563eb', fontWeight: '700' }}>
+                      {editing ? 'Save' : 'Edit'}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              )
+            : undefined,
+        }}
+      />
+
+      <ScrollView contentContainerStyle={{ padding: 16, paddingBottom: 40 }}>
+        {/* Hidden after community reports (owners and moderators still see it) */}
+        {coupon.hidden_at && coupon.visibility === 'public' ? (
+          <View
+            style={[
+              styles.card,
+              { flexDirection: 'row', alignItems: 'center', backgroundColor: '#fef3c7' },
+            ]}
+          >
+            <Ionicons name="flag" size={18} color="#92400e" style={{ marginRight: 8 }} />
+            <Text style={{ flex: 1, color: '#92400e' }}>
+              Hidden from the Feed after reports from the community. A moderator will review it.
+            </Text>
+          </View>
+        ) : null}
+
+        {/* Photo – full size so the cashier can scan the printed barcode */}
+        {coupon.image_url ? (
+          <TouchableOpacity activeOpacity={0.9} onPress={() => setImageOpen(true)}>
+            <CouponImage
+              url={coupon.image_url}
+              thumbPlaceholder
+              contentFit="contain"
+              style={[styles.card, { height: 220, padding: 0 }]}
+            />
+          </TouchableOpacity>
+        ) : null}
+
+        {/* Barcodes to scan at the register */}
+        {coupon.barcodes?.length && !editing ? (
+          <View style={[styles.card, { alignItems: 'center' }]}>
+            <Text style={[styles.label, { alignSelf: 'flex-start' }]}>Show at checkout</Text>
+            {coupon.barcodes.map((b) => (
+              <View key={`${b.format}:${b.data}`} style={{ marginBottom: 8 }}>
+                <CouponBarcode barcode={b} />
+              </View>
+            ))}
+          </View>
+        ) : null}
+
+        {/* Used */}
+        {redemption && !editing ? (
+          <View style={[styles.card, { flexDirection: 'row', alignItems: 'center' }]}>
+            <Ionicons name="checkmark-circle" size={20} color="#16a34a" style={{ marginRight: 8 }} />
+            <View style={{ flex: 1 }}>
+              <Text style={{ color: '#166534', fontWeight: '800' }}>
+                Used {new Date(redemption.redeemed_at).toLocaleDateString()}
+              </Text>
+              <Text style={{ color: '#6b5b4d', fontSize: 12 }}>
+                {redemption.amount_saved != null
+                  ? `Saved ${formatMoney(redemption.amount_saved)}`
+                  : 'Amount saved not recorded'}
+                {redemption.single_use ? ' · no more nearby alerts' : ''}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={askUndoRedemption}>
+              <Text style={{ color: '#2563eb', fontWeight: '700' }}>Undo</Text>
+            </TouchableOpacity>
+          </View>
+        ) : null}
+
+        {/* Deal */}
+        <View style={styles.card}>
+          {editing ? (
+            <Field label="Store Name" value={draft.store} onChangeText={(v) => set('store', v)} />
+          ) : (
+            <Text style={{ fontSize: 22, fontWeight: '900', color: '#3f1d0b' }}>
+              {coupon.store ?? 'Unknown store'}
+            </Text>
+          )}
+          {deal ? (
+            <Text style={{ color: '#b91c1c', fontSize: 18, fontWeight: '800', marginTop: 4 }}>
+              {deal}
+            </Text>
+          ) : null}
+          {limits ? <Text style={{ color: '#8a7a6b', marginTop: 2 }}>{limits}</Text> : null}
+        </View>
+
+        {/* Details */}
+        <View style={styles.card}>
+          {editing ? (
+            <>
+              <Field
+                label="Expires (YYYY-MM-DD)"
+                value={draft.expires}
+                onChangeText={(v) => set('expires', v)}
+              />
+              <Field label="Address" value={draft.address} onChangeText={(v) => set('address', v)} />
+              <Field
+                label="Phone"
+                value={draft.phone}
+                onChangeText={(v) => set('phone', v)}
+                keyboardType="phone-pad"
+              />
+              <Field
+                label="Location note"
+                value={draft.locationNote}
+                onChangeText={(v) => set('locationNote', v)}
+              />
+              <Field
+                label="Publication"
+                value={draft.publication}
+                onChangeText={(v) => set('publication', v)}
+              />
+              <Text style={styles.label}>Mode</Text>
+              <ChipRow
+                options={MODE_OPTIONS}
+                value={draft.mode}
+                onChange={(v) => set('mode', v)}
+              />
+              <Text style={styles.label}>Category</Text>
+              <ChipRow
+                options={CATEGORY_OPTIONS}
+                value={draft.category}
+                onChange={(v) => set('category', v)}
+              />
+              <Text style={styles.label}>Visibility</Text>
+              <ChipRow
+                options={[
+                  { value: 'private' as Visibility, label: 'Private' },
+                  { value: 'public' as Visibility, label: 'Public' },
+                ]}
+                value={draft.visibility}
+                onChange={(v) => set('visibility', v)}
+              />
+              {draft.visibility === 'public' ? (
+                <>
+                  <Text style={styles.label}>Claims</Text>
+                  <ChipRow
+                    options={CLAIM_POLICY_OPTIONS}
+                    value={draft.claimPolicy}
+                    onChange={(v) => set('claimPolicy', v)}
+                  />
+                  {draft.claimPolicy === 'limited' ? (
+                    <Field
+                      label="Number of claims"
+                      value={draft.claimCount}
+                      onChangeText={(v) => set('claimCount', v.replace(/[^0-9]/g, ''))}
+                      keyboardType="number-pad"
+                    />
+                  ) : null}
+                </>
+              ) : null}
+              {groups.length ? (
+                <>
+                  <Text style={styles.label}>Wallet</Text>
+                  <ChipRow
+                    options={[
+                      { value: '', label: 'Just me' },
+                      ...groups.map((g) => ({ value: g.id, label: `👪 ${g.name}` })),
+                    ]}
+                    value={draft.groupId}
+                    onChange={(v) => set('groupId', v)}
+                  />
+                </>
+              ) : null}
+            </>
+          ) : (
+            <>
+              <InfoRow
+                icon="time-outline"
+                label="Expires"
+                value={coupon.expires_at ? new Date(coupon.expires_at).toLocaleDateString() : null}
+              />
+              <InfoRow icon="location-outline" label="Address" value={attrs.address} />
+              {coupon.merchant_id ? (
+                <InfoRow
+                  icon="storefront-outline"
+                  label="Valid at"
+                  value={`All ${coupon.store ?? 'store'} locations`}
+                />
+              ) : null}
+              <InfoRow
+                icon="call-outline"
+                label="Phone"
+                value={attrs.phone}
+                onPress={
+                  attrs.phone
+                    ? () => Linking.openURL(`tel:${String(attrs.phone).replace(/[^\d+]/g, '')}`)
+                    : undefined
+                }
+              />
+              <InfoRow
+                icon="restaurant-outline"
+                label="Mode"
+                value={attrs.mode === 'dine-in' ? 'Dine-in' : attrs.mode === 'pickup' ? 'Pickup' : null}
+              />
+              <InfoRow icon="navigate-outline" label="Location note" value={attrs.location_note} />
+              <InfoRow icon="newspaper-outline" label="Publication" value={coupon.publication} />
+              <InfoRow
+                icon="pricetags-outline"
+                label="Category"
+                value={CATEGORY_OPTIONS.find((o) => o.value === coupon.category)?.label ?? null}
+              />
+              <InfoRow
+                icon={coupon.visibility === 'public' ? 'globe-outline' : 'lock-closed-outline'}
+                label="Visibility"
+                value={coupon.visibility === 'public' ? 'Public' : 'Private'}
+              />
+              <InfoRow
+                icon="ticket-outline"
+                label="Claims"
+                value={coupon.visibility === 'public' ? claimStatusText(coupon) : null}
+              />
+              <InfoRow
+                icon="people-outline"
+                label="Wallet"
+                value={walletGroup ? walletGroup.name : null}
+              />
+            </>
+          )}
+        </View>
+
+        {/* Map pin */}
+        {geo && !editing ? (
+          <View style={[styles.card, { padding: 0, overflow: 'hidden' }]}>
+            <WebView
+              source={{ uri: mapEmbedUrl(geo) }}
+              style={{ height: 180 }}
+              scrollEnabled={false}
+            />
+            <TouchableOpacity
+              onPress={() => openInMaps(coupon.store ?? 'Coupon', geo)}
+              style={{ flexDirection: 'row', alignItems: 'center', padding: 10 }}
+            >
+              <Ionicons name="map-outline" size={16} color="#2563eb" style={{ marginRight: 6 }} />
+              <Text style={{ color: '#2563eb', fontWeight: '700' }}>Open in Maps</Text>
+            </TouchableOpacity>
+          </View>
+        ) : null}
+
+        {/* Terms */}
+        <View style={styles.card}>
+          <Text style={styles.label}>Terms</Text>
+          {editing ? (
+            <TextInput
+              value={draft.terms}
+              onChangeText={(v) => set('terms', v)}
+              multiline
+              textAlignVertical="top"
+              style={[styles.input, { minHeight: 120 }]}
+            />
+          ) : (
+            <Text style={{ color: '#6d5243', lineHeight: 18 }}>{coupon.terms || '—'}</Text>
+          )}
+        </View>
+
+        {/* Raw OCR text (what the parser saw) */}
+        {attrs.ocr_text ? (
+          <View style={styles.card}>
+            <TouchableOpacity
+              onPress={() => setShowOcr((v) => !v)}
+              style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}
+            >
+              <Text style={[styles.label, { marginBottom: 0 }]}>Scanned text</Text>
+              <Ionicons name={showOcr ? 'chevron-up' : 'chevron-down'} size={16} color="#6b5b4d" />
+            </TouchableOpacity>
+            {showOcr ? (
+              <Text selectable style={{ color: '#4b3a2e', fontSize: 12, marginTop: 8 }}>
+                {attrs.ocr_text}
+              </Text>
+            ) : null}
+          </View>
+        ) : null}
+
+        {/* Sharing */}
+        {isOwner && !editing && !isLocalId(coupon.id) ? <ShareCard couponId={coupon.id} /> : null}
+
+        {isOwner && editing ? (
+          <TouchableOpacity
+            onPress={() => {
+              setDraft(toDraft(coupon));
+              setEditing(false);
+            }}
+            style={[styles.btn, { backgroundColor: '#6b7280' }]}
+          >
+            <Text style={styles.btnText}>Cancel</Text>
+          </TouchableOpacity>
+        ) : null}
+
+        {!editing ? (
+          <TouchableOpacity
+            onPress={() => setRedeemOpen(true)}
+            style={[styles.btn, { backgroundColor: '#16a34a', marginBottom: 8 }]}
+          >
+            <Text style={styles.btnText}>{redemption ? 'Used it again' : 'Mark as used'}</Text>
+          </TouchableOpacity>
+        ) : null}
+
+        {!isOwner && !walletGroup && !editing && !savedIds.has(coupon.id) ? (
+          <TouchableOpacity
+            onPress={saveToMyCoupons}
+            disabled={savingToList}
+            style={[styles.btn, { backgroundColor: '#2563eb', marginBottom: 8 }]}
+          >
+            {savingToList ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.btnText}>Save to my coupons</Text>
+            )}
+          </TouchableOpacity>
+        ) : null}
+
+        {!isOwner && walletGroup && canManageMembers(walletGroup) && !editing ? (
+          <TouchableOpacity
+            onPress={askRemoveFromGroup}
+            style={[styles.btn, { backgroundColor: '#6b7280', marginBottom: 8 }]}
+          >
+            <Text style={styles.btnText}>Remove from {walletGroup.name}</Text>
+          </TouchableOpacity>
+        ) : null}
+
+        {isOwner && !editing ? (
+          <TouchableOpacity onPress={askDelete} style={[styles.btn, { backgroundColor: '#b91c1c' }]}>
+            <Text style={styles.btnText}>Delete coupon</Text>
+          </TouchableOpacity>
+        ) : null}
+      </ScrollView>
+
+      <RedeemModal
+        visible={redeemOpen}
+        suggested={suggestedSaving(coupon.discount)}
+        onClose={() => setRedeemOpen(false)}
+        onSubmit={async ({ amountSaved, redeemedAt, singleUse }) => {
+          try {
+            await redeemCoupon(coupon, { amountSaved, redeemedAt, singleUse });
+            setRedeemOpen(false);
+          } catch (e: any) {
+            Alert.alert('Could not save', e?.message ?? 'Please try again.');
+          }
+        }}
+      />
+
+      {coupon.image_url ? (
+        <Modal visible={imageOpen} animationType="fade" onRequestClose={() => setImageOpen(false)}>
+          <TouchableOpacity
+            activeOpacity={1}
+            onPress={() => setImageOpen(false)}
+            style={{ flex: 1, backgroundColor: '#000' }}
+          >
+            <CouponImage url={coupon.image_url} contentFit="contain" style={{ flex: 1 }} />
+          </TouchableOpacity>
+        </Modal>
+      ) : null}
+    </View>
+  );
+}
+
+// Who can see this coupon besides me: people I shared with, and invite links
+function ShareCard({ couponId }: { couponId: string }) {
+  const [shares, setShares] = useState<CouponShare[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [email, setEmail] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const reload = useCallback(async () => {
+    try {
+      setShares(await listCouponShares(couponId));
+      setLoadError(null);
+    } catch (e: any) {
+      setLoadError(e?.message ?? 'Could not load');
+    }
+  }, [couponId]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  async function shareByEmail() {
+    setBusy(true);
+    try {
+      await shareWithEmail(couponId, email);
+      setEmail('');
+      await reload();
+    } catch (e: any) {
+      Alert.alert('Could not share', e?.message ?? 'Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function shareByLink() {
+    setBusy(true);
+    try {
+      const link = await createShareLink(couponId);
+      await reload();
+      await Share.share({ message: `Here’s a coupon for you on Snapigo: ${link.url}` });
+    } catch (e: any) {
+      Alert.alert('Could not share', e?.message ?? 'Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function askRevoke(share: CouponShare) {
+    const isLink = !!share.token;
+    Alert.alert(
+      isLink ? 'Revoke link?' : 'Stop sharing?',
+      isLink
+        ? 'The link stops working and everyone who joined through it loses access.'
+        : `${share.grantee_email ?? 'They'} will no longer see this coupon.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Revoke',
+          style: 'destructive',
+          onPress: () =>
+            revokeShare(share.id)
+              .then(reload)
+              .catch((e) => Alert.alert('Could not revoke', e?.message ?? 'Please try again.')),
+        },
+      ]
+    );
+  }
+
+  const links = (shares ?? []).filter((s) => s.token);
+  const people = (shares ?? []).filter((s) => s.grantee_id);
+  const joined = (linkId: string) => people.filter((p) => p.via_share_id === linkId).length;
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.label}>Shared with</Text>
+
+      {loadError ? <Text style={{ color: '#b91c1c', marginBottom: 6 }}>{loadError}</Text> : null}
+      {shares && !shares.length ? (
+        <Text style={{ color: '#8a7a6b', marginBottom: 6 }}>Only you can see this coupon.</Text>
+      ) : null}
+
+      {people.map((s) => (
+        <ShareRow
+          key={s.id}
+          icon="person-outline"
+          text={s.grantee_email ?? 'Snapigo user'}
+          sub={s.via_share_id ? 'Joined with a link' : null}
+          onRevoke={() => askRevoke(s)}
+        />
+      ))}
+      {links.map((s) => (
+        <ShareRow
+          key={s.id}
+          icon="link-outline"
+          text={`Invite link · ${new Date(s.created_at).toLocaleDateString()}`}
+          sub={joined(s.id) === 1 ? '1 person joined' : `${joined(s.id)} people joined`}
+          onRevoke={() => askRevoke(s)}
+        />
+      ))}
+
+      <View style={{ flexDirection: 'row', gap: 8, marginTop: 8 }}>
+        <TextInput
+          value={email}
+          onChangeText={setEmail}
+          placeholder="friend@example.com"
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="email-address"
+          style={[styles.input, { flex: 1 }]}
+        />
+        <TouchableOpacity
+          onPress={shareByEmail}
+          disabled={busy || !email.trim()}
+          style={[styles.btn, { marginTop: 0, paddingHorizontal: 14, backgroundColor: '#2563eb' }]}
+        >
+          <Text style={styles.btnText}>Share</Text>
+        </TouchableOpacity>
+      </View>
+      <TouchableOpacity
+        onPress={shareByLink}
+        disabled={busy}
+        style={{ flexDirection: 'row', alignItems: 'center', marginTop: 10 }}
+      >
+        {busy ? (
+          <ActivityIndicator style={{ marginRight: 6 }} />
+        ) : (
+          <Ionicons name="share-outline" size={16} color="#2563eb" style={{ marginRight: 6 }} />
+        )}
+        <Text style={{ color: '#2563eb', fontWeight: '700' }}>Share an invite link</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+function ShareRow({
+  icon,
+  text,
+  sub,
+  onRevoke,
+}: {
+  icon: keyof typeof Ionicons.glyphMap;
+  text: string;
+  sub?: string | null;
+  onRevoke: () => void;
+}) {
+  return (
+    <View style={{ flexDirection: 'row', alignItems: 'center', paddingVertical: 6 }}>
+      <Ionicons name={icon} size={16} color="#5a4636" style={{ marginRight: 8 }} />
+      <View style={{ flex: 1 }}>
+        <Text style={{ color: '#3f1d0b' }} numberOfLines={1}>
+          {text}
+        </Text>
+        {sub ? <Text style={{ color: '#8a7a6b', fontSize: 11 }}>{sub}</Text> : null}
+      </View>
+      <TouchableOpacity onPress={onRevoke}>
+        <Text style={{ color: '#b91c1c', fontWeight: '700' }}>Revoke</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+function RedeemModal({
+  visible,
+  suggested,
+  onClose,
+  onSubmit,
+}: {
+  visible: boolean;
+  suggested: number | null;
+  onClose: () => void;
+  onSubmit: (r: { amountSaved: number | null; redeemedAt: Date; singleUse: boolean }) => Promise<void>;
+}) {
+  const today = () => {
+    const d = new Date();
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+  };
+  const [amount, setAmount] = useState('');
+  const [date, setDate] = useState(today());
+  const [singleUse, setSingleUse] = useState<'single' | 'reusable'>('single');
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setAmount(suggested != null ? String(suggested) : '');
+    setDate(today());
+    setSingleUse('single');
+  }, [visible, suggested]);
+
+  async function submit() {
+    const a = amount.trim().replace(/^\$/, '');
+    const amountSaved = a ? Number(a) : null;
+    if (amountSaved != null && (!Number.isFinite(amountSaved) || amountSaved < 0)) {
+      Alert.alert('Check the amount', 'Enter what you saved, e.g. 5 or 12.50.');
+      return;
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date.trim())) {
+      Alert.alert('Check the date', 'Use the YYYY-MM-DD format, e.g. 2026-01-31.');
+      return;
+    }
+    const redeemedAt = new Date(`${date.trim()}T12:00:00`);
+    if (Number.isNaN(redeemedAt.getTime())) {
+      Alert.alert('Check the date', 'Use the YYYY-MM-DD format, e.g. 2026-01-31.');
+      return;
+    }
+    setBusy(true);
+    try {
+      await onSubmit({ amountSaved, redeemedAt, singleUse: singleUse === 'single' });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={{ flex: 1, justifyContent: 'flex-end', backgroundColor: 'rgba(0,0,0,0.35)' }}>
+        <View style={[styles.card, { marginBottom: 0, borderRadius: 20, padding: 16 }]}>
+          <Text style={{ fontSize: 18, fontWeight: '900', color: '#3f1d0b', marginBottom: 10 }}>
+            Mark as used
+          </Text>
+          <Text style={styles.label}>Amount saved (optional)</Text>
+          <TextInput
+            value={amount}
+            onChangeText={setAmount}
+            placeholder="$0.00"
+            keyboardType="decimal-pad"
+            style={[styles.input, { marginBottom: 10 }]}
+          />
+          <Text style={styles.label}>Date used (YYYY-MM-DD)</Text>
+          <TextInput
+            value={date}
+            onChangeText={setDate}
+            placeholder="2026-01-31"
+            style={[styles.input, { marginBottom: 10 }]}
+          />
+          <ChipRow
+            options={[
+              { value: 'single' as const, label: 'Single use' },
+              { value: 'reusable' as const, label: 'Can use again' },
+            ]}
+            value={singleUse}
+            onChange={setSingleUse}
+          />
+          <TouchableOpacity
+            onPress={submit}
+            disabled={busy}
+            style={[styles.btn, { backgroundColor: '#16a34a' }]}
+          >
+            {busy ? <ActivityIndicator color="#fff" /> : <Text style={styles.btnText}>Save</Text>}
+          </TouchableOpacity>
+          <TouchableOpacity onPress={onClose} style={[styles.btn, { backgroundColor: '#6b7280' }]}>
+            <Text style={styles.btnText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+function InfoRow({
+  icon,
+  label,
+  value,
+  onPress,
+}: {
+  icon: keyof typeof Ionicons.glyphMap;
+  label: string;
+  value?: string | null;
+  onPress?: () => void;
+}) {
+  if (!value) return null;
+  return (
+    <TouchableOpacity
+      disabled={!onPress}
+      onPress={onPress}
+      style={{ flexDirection: 'row', alignItems: 'flex-start', paddingVertical: 6 }}
+    >
+      <Ionicons name={icon} size={16} color="#5a4636" style={{ marginRight: 8, marginTop: 1 }} />
+      <View style={{ flex: 1 }}>
+        <Text style={{ color: '#8a7a6b', fontSize: 11 }}>{label}</Text>
+        <Text style={{ color: onPress ? '#2563eb' : '#3f1d0b' }}>{value}</Text>
+      </View>
+    </TouchableOpacity>
+  );
+}
+
+function Field({
+  label,
+  value,
+  onChangeText,
+  keyboardType,
+}: {
+  label: string;
+  value: string;
+  onChangeText: (s: string) => void;
+  keyboardType?: 'default' | 'phone-pad' | 'number-pad';
+}) {
+  return (
+    <View style={{ marginBottom: 10 }}>
+      <Text style={styles.label}>{label}</Text>
+      <TextInput
+        value={value}
+        onChangeText={onChangeText}
+        placeholder={label}
+        keyboardType={keyboardType ?? 'default'}
+        style={styles.input}
+      />
+    </View>
+  );
+}
+
+function ChipRow<T extends string>({
+  options,
+  value,
+  onChange,
+}: {
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (v: T) => void;
+}) {
+  return (
+    <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginBottom: 10 }}>
+      {options.map((o) => {
+        const active = o.value === value;
+        return (
+          <TouchableOpacity
+            key={o.value || 'none'}
+            onPress={() => onChange(o.value)}
+            style={{
+              paddingHorizontal: 12,
+              paddingVertical: 8,
+              borderRadius: 999,
+              borderWidth: 1,
+              borderColor: active ? '#2563eb' : '#f2caa1',
+              backgroundColor: active ? '#2563eb' : '#fff',
+            }}
+          >
+            <Text style={{ color: active ? '#fff' : '#5a4636', fontWeight: '700' }}>{o.label}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  center: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#ffebd5',
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 14,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#f2caa1',
+    marginBottom: 12,
+  },
+  label: { color: '#6b5b4d', marginBottom: 4, fontWeight: '700' },
+  input: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderWidth: 1,
+    borderColor: '#f2caa1',
+  },
+  btn: {
+    paddingVertical: 14,
+    borderRadius: 14,
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  btnText: { color: '#fff', fontWeight: '800' },
+});
@@ -0,0 +1,393 @@
+// app/(protected)/group/[id].tsx
+// Manage a group wallet: name, members and roles, nearby-alert mute, leave / delete.
+import { Ionicons } from '@expo/vector-icons';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { useGroups } from '../../../context/coupons';
+import { registerFromSupabase } from '../../../lib/geo';
+import {
+  addGroupMember,
+  canManageMembers,
+  deleteGroup,
+  leaveGroup,
+  listGroupMembers,
+  removeGroupMember,
+  renameGroup,
+  ROLE_LABELS,
+  setGroupMuted,
+  setMemberRole,
+  type GroupMember,
+  type GroupRole,
+} from '../../../lib/groups';
+import { getNotifyPrefs } from '../../../lib/notify-prefs';
+import { supabase } from '../../../lib/supabase';
+import { toStr } from '../../../utils/params';
+
+// Tapping a member's role (owner only) cycles through these
+const ROLE_CYCLE: GroupRole[] = ['member', 'admin', 'owner'];
+
+export default function GroupScreen() {
+  const params = useLocalSearchParams();
+  const id = toStr(params.id);
+  const router = useRouter();
+
+  const { groups, walletFor, loading } = useGroups();
+  const group = groups.find((g) => g.id === id) ?? null;
+
+  const [myUid, setMyUid] = useState<string | null>(null);
+  const [members, setMembers] = useState<GroupMember[] | null>(null);
+  const [membersError, setMembersError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [newRole, setNewRole] = useState<Exclude<GroupRole, 'owner'>>('member');
+  const [muted, setMuted] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => setMyUid(data.session?.user?.id ?? null));
+    getNotifyPrefs().then((p) => setMuted(p.mutedGroups.includes(id)));
+  }, [id]);
+
+  useEffect(() => {
+    if (group) setName(group.name);
+  }, [group]);
+
+  const reloadMembers = useCallback(async () => {
+    try {
+      setMembers(await listGroupMembers(id));
+      setMembersError(null);
+    } catch (e: any) {
+      setMembersError(e?.message ?? 'Could not load members');
+    }
+  }, [id]);
+
+  useEffect(() => {
+    reloadMembers();
+  }, [reloadMembers]);
+
+  async function run(action: () => Promise<unknown>, failTitle: string) {
+    setBusy(true);
+    try {
+      await action();
+    } catch (e: any) {
+      Alert.alert(failTitle, e?.message ?? 'Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <View style={styles.center}>
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  if (!group) {
+    return (
+      <View style={styles.center}>
+        <Stack.Screen options={{ title: 'Group' }} />
+        <Text style={{ fontSize: 16, color: '#5a4636', marginBottom: 6 }}>Group not found</Text>
+        <Text style={{ color: '#6b5b4d' }}>You may have left it, or it was deleted.</Text>
+      </View>
+    );
+  }
+
+  const isOwner = group.role === 'owner';
+  const canManage = canManageMembers(group);
+  const ownerCount = (members ?? []).filter((m) => m.role === 'owner').length;
+  const walletCount = walletFor(group.id).length;
+
+  async function toggleMute() {
+    const next = !muted;
+    setMuted(next);
+    await run(async () => {
+      await setGroupMuted(id, next);
+      if (myUid) await registerFromSupabase(myUid);
+    }, 'Could not update alerts');
+  }
+
+  function cycleRole(m: GroupMember) {
+    const next = ROLE_CYCLE[(ROLE_CYCLE.indexOf(m.role) + 1) % ROLE_CYCLE.length];
+    run(async () => {
+      await setMemberRole(id, m.user_id, next);
+      await reloadMembers();
+    }, 'Could not change role');
+  }
+
+  function askRemove(m: GroupMember) {
+    Alert.alert(
+      'Remove member?',
+      `${m.email ?? 'They'} will lose access, and their coupons leave the wallet.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () =>
+            run(async () => {
+              await removeGroupMember(id, m.user_id);
+              await reloadMembers();
+            }, 'Remove failed'),
+        },
+      ]
+    );
+  }
+
+  function askLeave() {
+    if (isOwner && ownerCount <= 1) {
+      Alert.alert(
+        'You’re the only owner',
+        'Make someone else an owner first, or delete the group.'
+      );
+      return;
+    }
+    Alert.alert('Leave group?', 'Your coupons leave the wallet and you stop seeing theirs.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Leave',
+        style: 'destructive',
+        onPress: () =>
+          run(async () => {
+            await leaveGroup(id);
+            router.back();
+          }, 'Could not leave'),
+      },
+    ]);
+  }
+
+  function askDelete() {
+    Alert.alert('Delete group?', 'Coupons in the wallet go back to just their owners.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () =>
+          run(async () => {
+            await deleteGroup(id);
+            router.back();
+          }, 'Delete failed'),
+      },
+    ]);
+  }
+
+  return (
+    <View style={{ flex: 1, backgroundColor: '#ffebd5' }}>
+      <Stack.Screen options={{ title: group.name }} />
+      <ScrollView contentContainerStyle={{ padding: 16, paddingBottom: 40 }}>
+        {/* Name */}
+        <View style={styles.card}>
+          <Text style={styles.label}>Name</Text>
+          {isOwner ? (
+            <View style={{ flexDirection: 'row', gap: 8 }}>
+              <TextInput value={name} onChangeText={setName} style={[styles.input, { flex: 1 }]} />
+              <TouchableOpacity
+                onPress={() => run(() => renameGroup(id, name), 'Rename failed')}
+                disabled={busy || !name.trim() || name.trim() === group.name}
+                style={[styles.smallBtn, { backgroundColor: '#2563eb' }]}
+              >
+                <Text style={styles.btnText}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <Text style={{ color: '#3f1d0b', fontSize: 16 }}>{group.name}</Text>
+          )}
+          <Text style={{ color: '#8a7a6b', fontSize: 12, marginTop: 6 }}>
+            {walletCount === 1 ? '1 coupon' : `${walletCount} coupons`} in the wallet · you’re{' '}
+            {ROLE_LABELS[group.role].toLowerCase()}
+          </Text>
+        </View>
+
+        {/* Nearby alerts */}
+        <TouchableOpacity
+          onPress={toggleMute}
+          disabled={busy}
+          style={[styles.card, { flexDirection: 'row', alignItems: 'center' }]}
+        >
+          <Ionicons
+            name={muted ? 'notifications-off-outline' : 'notifications-outline'}
+            size={18}
+            color="#5a4636"
+            style={{ marginRight: 8 }}
+          />
+          <View style={{ flex: 1 }}>
+            <Text style={{ color: '#3f1d0b', fontWeight: '700' }}>
+              {muted ? 'Nearby alerts muted' : 'Nearby alerts on'}
+            </Text>
+            <Text style={{ color: '#8a7a6b', fontSize: 12 }}>
+              {muted
+                ? 'This wallet’s coupons won’t alert you near the store.'
+                : 'You’re alerted near stores for coupons in this wallet.'}
+            </Text>
+          </View>
+          <Text style={{ color: '#2563eb', fontWeight: '700' }}>{muted ? 'Unmute' : 'Mute'}</Text>
+        </TouchableOpacity>
+
+        {/* Members */}
+        <View style={styles.card}>
+          <Text style={styles.label}>Members</Text>
+          {membersError ? (
+            <Text style={{ color: '#b91c1c', marginBottom: 6 }}>{membersError}</Text>
+          ) : null}
+          {!members && !membersError ? <ActivityIndicator /> : null}
+          {(members ?? []).map((m) => {
+            const isMe = m.user_id === myUid;
+            const canRemove =
+              !isMe && (isOwner || (group.role === 'admin' && m.role !== 'owner'));
+            return (
+              <View
+                key={m.user_id}
+                style={{ flexDirection: 'row', alignItems: 'center', paddingVertical: 6 }}
+              >
+                <Ionicons name="person-outline" size={16} color="#5a4636" style={{ marginRight: 8 }} />
+                <Text style={{ flex: 1, color: '#3f1d0b' }} numberOfLines={1}>
+                  {m.email ?? 'Snapigo user'}
+                  {isMe ? ' (you)' : ''}
+                </Text>
+                <TouchableOpacity
+                  disabled={!isOwner || isMe || busy}
+                  onPress={() => cycleRole(m)}
+                  style={[styles.roleChip, isOwner && !isMe ? { borderColor: '#2563eb' } : null]}
+                >
+                  <Text style={{ color: '#5a4636', fontSize: 12, fontWeight: '700' }}>
+                    {ROLE_LABELS[m.role]}
+                  </Text>
+                </TouchableOpacity>
+                {canRemove ? (
+                  <TouchableOpacity onPress={() => askRemove(m)} style={{ marginLeft: 10 }}>
+                    <Ionicons name="close-circle-outline" size={18} color="#b91c1c" />
+                  </TouchableOpacity>
+                ) : null}
+              </View>
+            );
+          })}
+          {isOwner ? (
+            <Text style={{ color: '#8a7a6b', fontSize: 11, marginTop: 4 }}>
+              Tap a role to change it.
+            </Text>
+          ) : null}
+
+          {canManage ? (
+            <>
+              <Text style={[styles.label, { marginTop: 12 }]}>Add someone</Text>
+              <TextInput
+                value={email}
+                onChangeText={setEmail}
+                placeholder="their Snapigo email"
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="email-address"
+                style={[styles.input, { marginBottom: 8 }]}
+              />
+              <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8 }}>
+                {(['member', 'admin'] as const).map((r) => (
+                  <TouchableOpacity
+                    key={r}
+                    onPress={() => setNewRole(r)}
+                    style={[
+                      styles.roleChip,
+                      newRole === r ? { backgroundColor: '#2563eb', borderColor: '#2563eb' } : null,
+                    ]}
+                  >
+                    <Text
+                      style={{
+                        color: newRole === r ? '#fff' : '#5a4636',
+                        fontSize: 12,
+                        fontWeight: '700',
+                      }}
+                    >
+                      {ROLE_LABELS[r]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+                <View style={{ flex: 1 }} />
+                <TouchableOpacity
+                  onPress={() =>
+                    run(async () => {
+                      await addGroupMember(id, email, newRole);
+                      setEmail('');
+                      await reloadMembers();
+                    }, 'Could not add')
+                  }
+                  disabled={busy || !email.trim()}
+                  style={[styles.smallBtn, { backgroundColor: '#2563eb' }]}
+                >
+                  <Text style={styles.btnText}>Add</Text>
+                </TouchableOpacity>
+              </View>
+            </>
+          ) : null}
+        </View>
+
+        <TouchableOpacity onPress={askLeave} style={[styles.btn, { backgroundColor: '#6b7280' }]}>
+          <Text style={styles.btnText}>Leave group</Text>
+        </TouchableOpacity>
+        {isOwner ? (
+          <TouchableOpacity onPress={askDelete} style={[styles.btn, { backgroundColor: '#b91c1c' }]}>
+            <Text style={styles.btnText}>Delete group</Text>
+          </TouchableOpacity>
+        ) : null}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  center: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#ffebd5',
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 14,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#f2caa1',
+    marginBottom: 12,
+  },
+  label: { color: '#6b5b4d', marginBottom: 4, fontWeight: '700' },
+  input: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderWidth: 1,
+    borderColor: '#f2caa1',
+  },
+  roleChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: '#f2caa1',
+  },
+  smallBtn: {
+    paddingHorizontal: 14,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 12,
+  },
+  btn: {
+    paddingVertical: 14,
+    borderRadius: 14,
+    alignItems: 'center',
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  btnText: { color: '#fff', fontWeight: '800' },
+});
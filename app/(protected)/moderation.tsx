@@ -0,0 +1,279 @@
+// app/(protected)/moderation.tsx
+// Moderator review queue: reported public coupons with their reasons, restore / keep hidden /
+// remove, and the moderation log.
+import { Ionicons } from '@expo/vector-icons';
+import { Stack, useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { formatDiscount } from '../../lib/discount';
+import {
+  ACTION_LABELS,
+  isModerator,
+  listModerationLog,
+  listReportQueue,
+  moderateCoupon,
+  REPORT_REASONS,
+  type ModerationAction,
+  type ModerationLogEntry,
+  type QueueItem,
+} from '../../lib/moderation';
+
+const ACTION_CONFIRM: Record<ModerationAction, { title: string; body: string }> = {
+  restore: {
+    title: 'Restore coupon?',
+    body: 'It goes back in the feed and its reports are dismissed.',
+  },
+  hide: {
+    title: 'Keep it hidden?',
+    body: 'It stays out of the feed. The owner still has it in their list.',
+  },
+  remove: {
+    title: 'Remove from the feed?',
+    body: 'The coupon is made private, so only its owner can see it.',
+  },
+};
+
+export default function ModerationScreen() {
+  const router = useRouter();
+  const [allowed, setAllowed] = useState<boolean | null>(null);
+  const [queue, setQueue] = useState<QueueItem[] | null>(null);
+  const [log, setLog] = useState<ModerationLogEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      const [q, l] = await Promise.all([listReportQueue(), listModerationLog()]);
+      setQueue(q);
+      setLog(l);
+      setError(null);
+    } catch (e: any) {
+      setError(e?.message ?? 'Could not load the queue');
+    }
+  }, []);
+
+  useEffect(() => {
+    isModerator()
+      .then((ok) => {
+        setAllowed(ok);
+        if (ok) reload();
+      })
+      .catch(() => setAllowed(false));
+  }, [reload]);
+
+  async function onRefresh() {
+    setRefreshing(true);
+    await reload();
+    setRefreshing(false);
+  }
+
+  function act(item: QueueItem, action: ModerationAction) {
+    const c = ACTION_CONFIRM[action];
+    Alert.alert(c.title, c.body, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'OK',
+        style: action === 'restore' ? 'default' : 'destructive',
+        onPress: async () => {
+          setBusyId(item.couponId);
+          try {
+            await moderateCoupon(item.couponId, action);
+            await reload();
+          } catch (e: any) {
+            Alert.alert('Action failed', e?.message ?? 'Please try again.');
+          } finally {
+            setBusyId(null);
+          }
+        },
+      },
+    ]);
+  }
+
+  if (allowed === null) {
+    return (
+      <View style={styles.center}>
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  if (!allowed) {
+    return (
+      <View style={styles.center}>
+        <Stack.Screen options={{ title: 'Moderation' }} />
+        <Text style={{ fontSize: 16, color: '#5a4636', marginBottom: 6 }}>Moderators only</Text>
+        <Text style={{ color: '#6b5b4d' }}>Your account can’t review reports.</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={{ flex: 1, backgroundColor: '#ffebd5' }}>
+      <Stack.Screen options={{ title: 'Moderation' }} />
+      <ScrollView
+        contentContainerStyle={{ padding: 16, paddingBottom: 40 }}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        <Text style={styles.section}>
+          Review queue{queue && queue.length ? ` (${queue.length})` : ''}
+        </Text>
+        {error ? <Text style={{ color: '#b91c1c', marginBottom: 8 }}>{error}</Text> : null}
+        {!queue && !error ? <ActivityIndicator style={{ marginBottom: 12 }} /> : null}
+        {queue && !queue.length ? (
+          <View style={styles.card}>
+            <Text style={{ color: '#6b5b4d' }}>Nothing to review right now.</Text>
+          </View>
+        ) : null}
+
+        {(queue ?? []).map((item) => {
+          const c = item.coupon;
+          const deal = c?.discount ? formatDiscount(c.discount) : c?.title;
+          const notes = item.reports.filter((r) => r.note).slice(0, 3);
+          const busy = busyId === item.couponId;
+          return (
+            <View key={item.couponId} style={styles.card}>
+              <TouchableOpacity
+                disabled={!c}
+                onPress={() => router.push({ pathname: '/coupon/[id]', params: { id: item.couponId } })}
+                style={{ flexDirection: 'row', alignItems: 'center' }}
+              >
+                <View style={{ flex: 1 }}>
+                  <Text style={{ color: '#3f1d0b', fontWeight: '800' }} numberOfLines={1}>
+                    {c ? c.store ?? 'Unknown store' : 'Coupon no longer available'}
+                  </Text>
+                  {deal ? (
+                    <Text style={{ color: '#b91c1c', fontWeight: '700' }} numberOfLines={1}>
+                      {deal}
+                    </Text>
+                  ) : null}
+                </View>
+                {c?.hidden_at ? (
+                  <View style={[styles.badge, { backgroundColor: '#fef3c7' }]}>
+                    <Text style={{ color: '#92400e', fontSize: 11, fontWeight: '700' }}>Hidden</Text>
+                  </View>
+                ) : null}
+                {c ? <Ionicons name="chevron-forward" size={16} color="#8a7a6b" /> : null}
+              </TouchableOpacity>
+
+              <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 6, marginTop: 8 }}>
+                {REPORT_REASONS.filter((r) => item.reasons[r.value]).map((r) => (
+                  <View key={r.value} style={[styles.badge, { backgroundColor: '#e5e7eb' }]}>
+                    <Text style={{ color: '#374151', fontSize: 11, fontWeight: '700' }}>
+                      {r.label} × {item.reasons[r.value]}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+
+              {notes.map((r) => (
+                <Text key={r.id} style={{ color: '#6b5b4d', fontSize: 12, marginTop: 6 }}>
+                  “{r.note}”
+                </Text>
+              ))}
+
+              <View style={{ flexDirection: 'row', gap: 8, marginTop: 10 }}>
+                {busy ? (
+                  <ActivityIndicator />
+                ) : (
+                  <>
+                    <TouchableOpacity
+                      onPress={() => act(item, 'restore')}
+                      style={[styles.smallBtn, { backgroundColor: '#16a34a' }]}
+                    >
+                      <Text style={styles.btnText}>Restore</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      onPress={() => act(item, 'hide')}
+                      style={[styles.smallBtn, { backgroundColor: '#6b7280' }]}
+                    >
+                      <Text style={styles.btnText}>Keep hidden</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      onPress={() => act(item, 'remove')}
+                      style={[styles.smallBtn, { backgroundColor: '#b91c1c' }]}
+                    >
+                      <Text style={styles.btnText}>Remove</Text>
+                    </TouchableOpacity>
+                  </>
+                )}
+              </View>
+            </View>
+          );
+        })}
+
+        <Text style={[styles.section, { marginTop: 8 }]}>Log</Text>
+        <View style={styles.card}>
+          {!log.length ? <Text style={{ color: '#6b5b4d' }}>No moderation actions yet.</Text> : null}
+          {log.map((e) => (
+            <View key={e.id} style={{ flexDirection: 'row', paddingVertical: 6 }}>
+              <Ionicons
+                name={e.actor_id ? 'person-outline' : 'flash-outline'}
+                size={14}
+                color="#5a4636"
+                style={{ marginRight: 8, marginTop: 2 }}
+              />
+              <View style={{ flex: 1 }}>
+                <Text style={{ color: '#3f1d0b', fontWeight: '700' }}>{ACTION_LABELS[e.action]}</Text>
+                <Text style={{ color: '#8a7a6b', fontSize: 12 }}>
+                  {new Date(e.created_at).toLocaleString()}
+                  {e.note ? ` · ${e.note}` : ''}
+                </Text>
+              </View>
+              {e.coupon_id ? (
+                <TouchableOpacity
+                  onPress={() =>
+                    router.push({ pathname: '/coupon/[id]', params: { id: e.coupon_id! } })
+                  }
+                >
+                  <Text style={{ color: '#2563eb', fontWeight: '700', fontSize: 12 }}>View</Text>
+                </TouchableOpacity>
+              ) : null}
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  center: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#ffebd5',
+    padding: 16,
+  },
+  section: { color: '#5a4636', fontWeight: '800', fontSize: 16, marginBottom: 8 },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 14,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#f2caa1',
+    marginBottom: 12,
+  },
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 999,
+    marginRight: 6,
+  },
+  smallBtn: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 12,
+  },
+  btnText: { color: '#fff', fontWeight: '800' },
+});
@@ -0,0 +1,60 @@
+// app/(protected)/share/[token].tsx
+// Landing route for invite links (snapigo://share/<token>): accept the share, then show the coupon.
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, Text, TouchableOpacity, View } from 'react-native';
+
+import { acceptShareLink } from '../../../lib/shares';
+import { toStr } from '../../../utils/params';
+
+export default function AcceptShareScreen() {
+  const params = useLocalSearchParams();
+  const token = toStr(params.token);
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+
+  const accept = useCallback(async () => {
+    setError(null);
+    try {
+      const couponId = await acceptShareLink(token);
+      router.replace({ pathname: '/coupon/[id]', params: { id: couponId } });
+    } catch (e: any) {
+      setError(e?.message ?? 'Could not open this link.');
+    }
+  }, [token, router]);
+
+  useEffect(() => {
+    if (token) accept();
+  }, [token, accept]);
+
+  return (
+    <View
+      style={{
+        flex: 1,
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: '#ffebd5',
+        padding: 16,
+      }}
+    >
+      <Stack.Screen options={{ title: 'Shared coupon' }} />
+      {error || !token ? (
+        <>
+          <Text style={{ fontSize: 16, color: '#5a4636', marginBottom: 6 }}>
+            Couldn’t open this coupon
+          </Text>
+          <Text style={{ color: '#6b5b4d', textAlign: 'center', marginBottom: 12 }}>
+            {error ?? 'The link is incomplete.'}
+          </Text>
+          {token ? (
+            <TouchableOpacity onPress={accept}>
+              <Text style={{ color: '#2563eb', fontWeight: '700' }}>Try again</Text>
+            </TouchableOpacity>
+          ) : null}
+        </>
+      ) : (
+        <ActivityIndicator />
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,49 @@
+// components/CouponBarcode.tsx
+import bwipjs from 'bwip-js';
+import React, { useMemo } from 'react';
+import { Text, View } from 'react-native';
+import { SvgXml } from 'react-native-svg';
+
+import {
+  barcodeLabel,
+  bwipSymbology,
+  isMatrixCode,
+  type CouponBarcode as Barcode,
+} from '../lib/barcode';
+
+/** Redraws a captured barcode so the register can scan the phone screen. */
+export default function CouponBarcode({ barcode, width = 280 }: { barcode: Barcode; width?: number }) {
+  const matrix = isMatrixCode(barcode.format);
+
+  const svg = useMemo(() => {
+    try {
+      return bwipjs.toSVG({
+        bcid: bwipSymbology(barcode.format),
+        text: barcode.data,
+        scale: 3,
+        height: matrix ? undefined : 18,
+        includetext: !matrix,
+        textxalign: 'center',
+        paddingwidth: 6,
+        paddingheight: 6,
+        backgroundcolor: 'FFFFFF',
+      });
+    } catch (e: any) {
+      console.warn('[Barcode] render failed', barcode.format, e?.message ?? e);
+      return null;
+    }
+  }, [barcode.format, barcode.data, matrix]);
+
+  return (
+    <View style={{ alignItems: 'center', backgroundColor: '#fff', padding: 8, borderRadius: 12 }}>
+      {svg ? (
+        <SvgXml xml={svg} width={matrix ? width * 0.7 : width} height={matrix ? width * 0.7 : width * 0.4} />
+      ) : (
+        <Text style={{ fontSize: 18, fontWeight: '800', letterSpacing: 2, color: '#111' }}>
+          {barcode.data}
+        </Text>
+      )}
+      <Text style={{ color: '#6b7280', fontSize: 11, marginTop: 4 }}>{barcodeLabel(barcode.format)}</Text>
+    </View>
+  );
+}
@@ -0,0 +1,38 @@
+// components/CouponImage.tsx
+import { Image, type ImageProps } from 'expo-image';
+import React, { useEffect, useState } from 'react';
+
+import { couponImageUri } from '../lib/images';
+
+type Props = Omit<ImageProps, 'source' | 'placeholder'> & {
+  /** coupons.image_url */
+  url: string;
+  /** Show the small thumbnail instead of the full photo */
+  thumb?: boolean;
+  /** Show the thumbnail while the full photo loads */
+  thumbPlaceholder?: boolean;
+};
+
+/** Coupon photo: the device copy when there is one, else a signed URL (lib/images). */
+export default function CouponImage({ url, thumb = false, thumbPlaceholder = false, ...rest }: Props) {
+  const [uri, setUri] = useState<string | null>(null);
+  const [placeholder, setPlaceholder] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    setUri(null);
+    couponImageUri(url, thumb).then((u) => alive && setUri(u));
+    if (thumbPlaceholder && !thumb) couponImageUri(url, true).then((u) => alive && setPlaceholder(u));
+    return () => {
+      alive = false;
+    };
+  }, [url, thumb, thumbPlaceholder]);
+
+  return (
+    <Image
+      {...rest}
+      source={uri ? { uri } : null}
+      placeholder={placeholder ? { uri: placeholder } : undefined}
+    />
+  );
+}
@@ -1,41 +1,249 @@
-import React, { createContext, useContext, useMemo, useState } from "react";
-
-export type Coupon = {
-  id: string;
-  merchant: string;
-  offer: string;
-  expiry?: string;
-  address?: string;
-  createdAt: number;
-};
+// context/coupons.tsx
+// App-wide coupon store. Screens read my coupons / saved coupons / group wallets from here instead of
+// fetching on their own; writes still go through lib/coupons.ts and lib/saves.ts, which
+// update the offline cache, and every change there re-renders all subscribed screens.
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+
+import { startArchivePurge } from '../lib/archive';
+import { getCoupon, type Coupon } from '../lib/coupons';
+import { startExpiryReminders } from '../lib/expiry-reminders';
+import type { CouponGroup } from '../lib/groups';
+import { syncOfflineImages } from '../lib/images';
+import {
+  getLocalGroupCoupons,
+  getLocalGroups,
+  getLocalMine,
+  getLocalRedemptions,
+  getLocalSaved,
+  startBackgroundSync,
+  subscribeLocalStore,
+  syncNow,
+} from '../lib/local-store';
+import type { Redemption } from '../lib/redemptions';
+import type { SavedRow } from '../lib/saves';
+
+// Screens mounting after this long since the last pull trigger a background sync
+const STALE_MS = 60_000;
 
 type CouponsCtx = {
-  coupons: Coupon[];
-  addCoupon: (c: Coupon) => void;
-  clearCoupons: () => void;
+  mine: Coupon[];
+  saved: SavedRow[];
+  redemptions: Redemption[];
+  groups: CouponGroup[];
+  /** Other members' coupons in my groups' wallets */
+  groupCoupons: Coupon[];
+  /** false until the offline cache has been read once */
+  ready: boolean;
+  syncing: boolean;
+  offline: boolean;
+  /** Pull from the server now (pull-to-refresh) */
+  refresh: () => Promise<void>;
+  /** Pull only if the cache is older than STALE_MS */
+  revalidate: () => void;
+  /** Coupons that are neither mine nor saved (public ones opened from the feed) */
+  fetchOther: (id: string) => Promise<Coupon | null>;
 };
 
 const CouponsContext = createContext<CouponsCtx | null>(null);
 
 export function CouponsProvider({ children }: { children: React.ReactNode }) {
-  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [mine, setMine] = useState<Coupon[]>([]);
+  const [saved, setSaved] = useState<SavedRow[]>([]);
+  const [redemptions, setRedemptions] = useState<Redemption[]>([]);
+  const [groups, setGroups] = useState<CouponGroup[]>([]);
+  const [groupCoupons, setGroupCoupons] = useState<Coupon[]>([]);
+  const [ready, setReady] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+  const [offline, setOffline] = useState(false);
 
-  const value = useMemo<CouponsCtx>(() => ({
-    coupons,
-    addCoupon: (c) => setCoupons((prev) => {
-      if (prev.some((p) => p.id === c.id)) return prev; // avoid duplicates
-      return [...prev, c];
-    }),
-    clearCoupons: () => setCoupons([]),
-  }), [coupons]);
+  const lastPullRef = useRef(0);
+  const othersRef = useRef(new Map<string, Coupon | null>());
+
+  // Invalidation: any local write or finished sync re-reads the cache
+  useEffect(() => {
+    let alive = true;
+    const read = async () => {
+      const [m, s, r, g, gc] = await Promise.all([
+        getLocalMine(),
+        getLocalSaved(),
+        getLocalRedemptions(),
+        getLocalGroups(),
+        getLocalGroupCoupons(),
+      ]);
+      if (!alive) return;
+      othersRef.current.clear();
+      setMine(m);
+      setSaved(s);
+      setRedemptions(r);
+      setGroups(g);
+      setGroupCoupons(gc);
+      setReady(true);
+      // photos to show at the register with no signal
+      syncOfflineImages([...m.map((c) => c.image_url), ...s.map((row) => row.coupon?.image_url)]);
+    };
+    read();
+    startBackgroundSync();
+    startExpiryReminders();
+    startArchivePurge();
+    const unsubscribe = subscribeLocalStore(read);
+    return () => {
+      alive = false;
+      unsubscribe();
+    };
+  }, []);
 
-  return (
-    <CouponsContext.Provider value={value}>{children}</CouponsContext.Provider>
+  const refresh = useCallback(async () => {
+    setSyncing(true);
+    try {
+      const res = await syncNow();
+      setOffline(res.offline);
+      if (res.ok) lastPullRef.current = Date.now();
+    } finally {
+      setSyncing(false);
+    }
+  }, []);
+
+  const revalidate = useCallback(() => {
+    if (Date.now() - lastPullRef.current > STALE_MS) refresh();
+  }, [refresh]);
+
+  const fetchOther = useCallback(async (id: string) => {
+    const cache = othersRef.current;
+    if (cache.has(id)) return cache.get(id) ?? null;
+    const row = await getCoupon(id);
+    cache.set(id, row);
+    return row;
+  }, []);
+
+  const value = useMemo<CouponsCtx>(
+    () => ({
+      mine,
+      saved,
+      redemptions,
+      groups,
+      groupCoupons,
+      ready,
+      syncing,
+      offline,
+      refresh,
+      revalidate,
+      fetchOther,
+    }),
+    [
+      mine,
+      saved,
+      redemptions,
+      groups,
+      groupCoupons,
+      ready,
+      syncing,
+      offline,
+      refresh,
+      revalidate,
+      fetchOther,
+    ]
   );
+
+  return <CouponsContext.Provider value={value}>{children}</CouponsContext.Provider>;
 }
 
-export function useCoupons() {
+function useCouponsStore() {
   const ctx = useContext(CouponsContext);
-  if (!ctx) throw new Error("useCoupons must be used inside <CouponsProvider>");
+  if (!ctx) throw new Error('Coupon hooks must be used inside <CouponsProvider>');
   return ctx;
 }
+
+/** Coupons I own, newest first (includes offline adds that haven't synced yet). */
+export function useMyCoupons() {
+  const { mine, ready, syncing, offline, refresh, revalidate } = useCouponsStore();
+
+  useEffect(() => {
+    revalidate();
+  }, [revalidate]);
+
+  return { coupons: mine, loading: !ready, syncing, offline, refresh };
+}
+
+/** Coupons I saved from the feed, plus a Set of their ids for quick "is saved" checks. */
+export function useSavedCoupons() {
+  const { saved, ready, syncing, offline, refresh, revalidate } = useCouponsStore();
+
+  useEffect(() => {
+    revalidate();
+  }, [revalidate]);
+
+  const savedIds = useMemo(() => {
+    const s = new Set<string>();
+    for (const r of saved) if (r.coupon?.id) s.add(r.coupon.id);
+    return s;
+  }, [saved]);
+
+  return { saved, savedIds, loading: !ready, syncing, offline, refresh };
+}
+
+/** Groups I'm in and the wallet coupons other members added; `walletFor` lists one group's wallet. */
+export function useGroups() {
+  const { mine, groups, groupCoupons, ready, syncing, offline, refresh, revalidate } =
+    useCouponsStore();
+
+  useEffect(() => {
+    revalidate();
+  }, [revalidate]);
+
+  const walletFor = useCallback(
+    (groupId: string) => [
+      ...mine.filter((c) => c.group_id === groupId),
+      ...groupCoupons.filter((c) => c.group_id === groupId),
+    ],
+    [mine, groupCoupons]
+  );
+
+  return { groups, groupCoupons, walletFor, loading: !ready, syncing, offline, refresh };
+}
+
+/** My redemptions, newest first; `byCoupon` maps a coupon id to its latest redemption. */
+export function useRedemptions() {
+  const { redemptions, ready, syncing, offline, refresh } = useCouponsStore();
+
+  const byCoupon = useMemo(() => {
+    const m = new Map<string, Redemption>();
+    for (const r of redemptions) if (r.coupon_id && !m.has(r.coupon_id)) m.set(r.coupon_id, r);
+    return m;
+  }, [redemptions]);
+
+  return { redemptions, byCoupon, loading: !ready, syncing, offline, refresh };
+}
+
+/** One coupon by id: mine from the store, anything else fetched once and cached until the next change. */
+export function useCoupon(id: string | undefined) {
+  const { mine, saved, ready, fetchOther } = useCouponsStore();
+  const own = useMemo(() => (id ? mine.find((c) => c.id === id) ?? null : null), [mine, id]);
+
+  const [other, setOther] = useState<{ id: string; row: Coupon | null } | null>(null);
+
+  useEffect(() => {
+    if (!id || !ready || own) return;
+    let alive = true;
+    // Also covers temporary ids of synced adds and saved rows (getCoupon reads the cache first)
+    fetchOther(id)
+      .then((row) => alive && setOther({ id, row }))
+      .catch((e) => {
+        console.warn('[Coupons] load coupon error', e?.message);
+        if (alive) setOther({ id, row: null });
+      });
+    return () => {
+      alive = false;
+    };
+  }, [id, ready, own, mine, saved, fetchOther]);
+
+  const fetched = other && other.id === id ? other.row : undefined;
+  return { coupon: own ?? fetched ?? null, loading: !ready || (!own && fetched === undefined) };
+}
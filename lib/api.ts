@@ -0,0 +1,22 @@
+// lib/api.ts
+// Shared bits for the lib/* modules that call Supabase: the signed-in user's id, and
+// readable errors for calls that need the network.
+import { isNetworkError } from './local-store';
+import { supabase } from './supabase';
+
+/** The signed-in user's id, from the persisted session (no network). Throws when signed out. */
+export async function requireUid() {
+  const { data: sess } = await supabase.auth.getSession();
+  const uid = sess.session?.user?.id;
+  if (!uid) throw new Error('Not signed in');
+  return uid;
+}
+
+/**
+ * Error to show for a failed online-only call: connectivity problems get `offline`,
+ * database errors keep their readable message.
+ */
+export function onlineError(error: any, offline: string, fallback = 'Something went wrong') {
+  if (isNetworkError(error)) return new Error(offline);
+  return new Error(error?.message ?? fallback);
+}
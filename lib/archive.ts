@@ -0,0 +1,112 @@
+// lib/archive.ts
+// Expired coupons stay under "Archived" in My List for a while, then they're purged:
+// my own private coupons are deleted and saved ones unsaved. Public and group coupons are
+// left alone, since other people may still hold them. The retention period is a device
+// setting; the purge runs at most once a day, driven by the offline store like reminders.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { expiryTime } from './coupons';
+import {
+  getLocalMine,
+  getLocalSaved,
+  queueDelete,
+  queueUnsave,
+  subscribeLocalStore,
+  syncNow,
+} from './local-store';
+import { supabase } from './supabase';
+
+export const RETENTION_OPTIONS: (number | null)[] = [7, 30, 90, null]; // null = keep forever
+export const DEFAULT_RETENTION_DAYS = 30;
+
+const RETENTION_KEY = 'snapigo_archive_retention_days';
+const LAST_PURGE_KEY = 'snapigo_archive_last_purge';
+const PURGE_INTERVAL_MS = 24 * 3600 * 1000;
+
+const DAY_MS = 24 * 3600 * 1000;
+
+/** Days an expired coupon is kept; null when archived coupons are never purged. */
+export async function getArchiveRetentionDays(): Promise<number | null> {
+  try {
+    const raw = await AsyncStorage.getItem(RETENTION_KEY);
+    if (raw == null) return DEFAULT_RETENTION_DAYS;
+    const v = JSON.parse(raw);
+    return typeof v === 'number' && v > 0 ? v : null;
+  } catch {
+    return DEFAULT_RETENTION_DAYS;
+  }
+}
+
+/** Changing the period purges right away with the new value. */
+export async function setArchiveRetentionDays(days: number | null) {
+  await AsyncStorage.setItem(RETENTION_KEY, JSON.stringify(days));
+  await purgeArchivedCoupons({ force: true });
+}
+
+/** When an archived coupon will be purged (epoch ms), or null if it's kept. */
+export function purgeTime(expiresAt: string | null | undefined, retentionDays: number | null) {
+  const t = expiryTime(expiresAt);
+  if (t == null || retentionDays == null) return null;
+  return t + retentionDays * DAY_MS;
+}
+
+let purging: Promise<number> | null = null;
+
+/**
+ * Delete / unsave coupons whose retention has run out. Returns how many were purged.
+ * One run at a time: the queued ops change the store, which asks for another run.
+ */
+export function purgeArchivedCoupons(opts: { force?: boolean } = {}): Promise<number> {
+  if (purging) return opts.force ? purging.then(() => purgeArchivedCoupons(opts)) : purging;
+  purging = purge(opts).finally(() => {
+    purging = null;
+  });
+  return purging;
+}
+
+async function purge(opts: { force?: boolean }) {
+  const now = Date.now();
+  if (!opts.force) {
+    const last = Number(await AsyncStorage.getItem(LAST_PURGE_KEY)) || 0;
+    if (now - last < PURGE_INTERVAL_MS) return 0;
+  }
+  await AsyncStorage.setItem(LAST_PURGE_KEY, String(now));
+
+  const { data: sess } = await supabase.auth.getSession(); // persisted session, no network
+  const uid = sess.session?.user?.id;
+  if (!uid) return 0;
+
+  const days = await getArchiveRetentionDays();
+  if (days == null) return 0;
+
+  const due = (expiresAt?: string | null) => {
+    const at = purgeTime(expiresAt, days);
+    return at != null && at < now;
+  };
+
+  let purged = 0;
+  for (const c of await getLocalMine()) {
+    if (c.owner_id !== uid || !due(c.expires_at)) continue;
+    if ((c.visibility ?? 'private') !== 'private' || c.group_id) continue;
+    await queueDelete(uid, c.id);
+    purged += 1;
+  }
+  for (const row of await getLocalSaved()) {
+    if (!row.coupon || !due(row.coupon.expires_at)) continue;
+    await queueUnsave(uid, row.coupon.id);
+    purged += 1;
+  }
+  if (purged) await syncNow();
+  return purged;
+}
+
+let started = false;
+
+/** Purge on launch and whenever the store changes (at most once a day). Call once. */
+export function startArchivePurge() {
+  if (started) return;
+  started = true;
+  const run = () =>
+    purgeArchivedCoupons().catch((e) => console.warn('[Archive] purge failed', e?.message));
+  run();
+  subscribeLocalStore(run);
+}
@@ -0,0 +1,117 @@
+// lib/barcode.ts
+// Barcodes / QR codes printed on a coupon, captured by expo-camera during the scan step.
+import type { BarcodeScanningResult, BarcodeType } from 'expo-camera';
+
+export type CouponBarcodeFormat = BarcodeType;
+
+export type CouponBarcode = {
+  format: CouponBarcodeFormat;
+  data: string;
+  /** 'live' = seen in the viewfinder, 'photo' = decoded from the captured picture */
+  source: 'live' | 'photo';
+};
+
+// Everything expo-camera can decode; GS1 DataBar isn't supported by the native scanners
+export const SCAN_BARCODE_TYPES: BarcodeType[] = [
+  'qr',
+  'ean13',
+  'ean8',
+  'upc_a',
+  'upc_e',
+  'code128',
+  'code39',
+  'code93',
+  'itf14',
+  'codabar',
+  'pdf417',
+  'datamatrix',
+  'aztec',
+];
+
+// Older iOS builds report AVFoundation identifiers instead of the short names
+const IOS_TYPE_ALIASES: Record<string, BarcodeType> = {
+  'org.iso.qrcode': 'qr',
+  'org.gs1.ean-13': 'ean13',
+  'org.gs1.ean-8': 'ean8',
+  'org.gs1.upc-e': 'upc_e',
+  'org.iso.code128': 'code128',
+  'org.iso.code39': 'code39',
+  'com.intermec.code93': 'code93',
+  'org.gs1.itf14': 'itf14',
+  'org.iso.pdf417': 'pdf417',
+  'org.iso.datamatrix': 'datamatrix',
+  'org.iso.aztec': 'aztec',
+};
+
+export function normalizeBarcodeType(type: string): CouponBarcodeFormat | null {
+  const t = type.toLowerCase();
+  if ((SCAN_BARCODE_TYPES as string[]).includes(t)) return t as BarcodeType;
+  return IOS_TYPE_ALIASES[t] ?? null;
+}
+
+export function toCouponBarcode(
+  r: Pick<BarcodeScanningResult, 'type' | 'data'>,
+  source: CouponBarcode['source']
+): CouponBarcode | null {
+  const format = normalizeBarcodeType(r.type);
+  const data = (r.data ?? '').trim();
+  if (!format || !data) return null;
+  return { format, data, source };
+}
+
+/** Dedupe by format + payload; earlier entries win (photo results are passed first). */
+export function mergeBarcodes(...lists: (CouponBarcode | null)[][]): CouponBarcode[] {
+  const out: CouponBarcode[] = [];
+  const seen = new Set<string>();
+  for (const b of lists.flat()) {
+    if (!b) continue;
+    const key = `${b.format}:${b.data}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.push(b);
+  }
+  return out;
+}
+
+const FORMAT_LABELS: Record<CouponBarcodeFormat, string> = {
+  qr: 'QR code',
+  ean13: 'EAN-13',
+  ean8: 'EAN-8',
+  upc_a: 'UPC-A',
+  upc_e: 'UPC-E',
+  code128: 'Code 128',
+  code39: 'Code 39',
+  code93: 'Code 93',
+  itf14: 'ITF-14',
+  codabar: 'Codabar',
+  pdf417: 'PDF417',
+  datamatrix: 'Data Matrix',
+  aztec: 'Aztec',
+};
+
+export function barcodeLabel(format: CouponBarcodeFormat) {
+  return FORMAT_LABELS[format] ?? format;
+}
+
+/** bwip-js symbology id used to redraw the code on screen */
+export function bwipSymbology(format: CouponBarcodeFormat): string {
+  switch (format) {
+    case 'qr':
+      return 'qrcode';
+    case 'upc_a':
+      return 'upca';
+    case 'upc_e':
+      return 'upce';
+    case 'codabar':
+      return 'rationalizedCodabar';
+    case 'aztec':
+      return 'azteccode';
+    default:
+      return format;
+  }
+}
+
+/** 2D codes are square; 1D codes are drawn wide and short */
+export function isMatrixCode(format: CouponBarcodeFormat) {
+  return format === 'qr' || format === 'datamatrix' || format === 'aztec';
+}
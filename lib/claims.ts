@@ -0,0 +1,124 @@
+// lib/claims.ts
+// Claim-limited public coupons. A coupon's claim policy comes from coupons.claim_limit:
+// null = unlimited (anyone can save and use it), 1 = single claim, N = N claims. Claiming
+// reserves one for a while (CLAIM_HOLD_HOURS, or until the coupon expires); marking it used
+// makes the claim permanent, otherwise it's released and someone else can claim it.
+// The limit is enforced by claim_coupon() on the server, so claiming needs the network.
+import { onlineError, requireUid } from './api';
+import type { Coupon } from './coupons';
+import { isNetworkError } from './local-store';
+import { saveCoupon, type SavedRow } from './saves';
+import { supabase } from './supabase';
+
+export type ClaimPolicy = 'unlimited' | 'single' | 'limited';
+
+export type CouponClaim = {
+  id: string;
+  coupon_id: string;
+  user_id: string;
+  claimed_at: string;
+  hold_until: string;
+  redeemed_at: string | null;
+};
+
+/** How long a claim is held; set by claim_coupon() on the server, shown in the UI. */
+export const CLAIM_HOLD_HOURS = 48;
+
+export const CLAIM_POLICY_OPTIONS: { value: ClaimPolicy; label: string }[] = [
+  { value: 'unlimited', label: 'Unlimited' },
+  { value: 'single', label: 'Single claim' },
+  { value: 'limited', label: 'Limited' },
+];
+
+type Claimable = Pick<Coupon, 'claim_limit' | 'claims_count'>;
+
+export function claimPolicyOf(c: Claimable): ClaimPolicy {
+  if (c.claim_limit == null) return 'unlimited';
+  return c.claim_limit === 1 ? 'single' : 'limited';
+}
+
+/** claim_limit for a policy; `n` is only used for 'limited'. undefined when `n` isn't valid. */
+export function claimLimitFor(policy: ClaimPolicy, n?: number | null): number | null | undefined {
+  if (policy === 'unlimited') return null;
+  if (policy === 'single') return 1;
+  return n != null && Number.isInteger(n) && n > 1 ? n : undefined;
+}
+
+/** Claims still available; null for unlimited coupons. */
+export function claimsLeft(c: Claimable): number | null {
+  if (c.claim_limit == null) return null;
+  return Math.max(c.claim_limit - (c.claims_count ?? 0), 0);
+}
+
+/** "Single claim", "3 of 5 left", "All claimed"; null for unlimited coupons. */
+export function claimStatusText(c: Claimable): string | null {
+  const left = claimsLeft(c);
+  if (left == null) return null;
+  if (left === 0) return 'All claimed';
+  if (c.claim_limit === 1) return 'Single claim';
+  return `${left} of ${c.claim_limit} left`;
+}
+
+const OFFLINE = 'You’re offline. Claiming needs a connection.';
+
+/** My active claims (unused holds that haven't lapsed, and used ones), by coupon id. */
+export async function listMyClaims(): Promise<Map<string, CouponClaim>> {
+  const uid = await requireUid();
+  const { data, error } = await supabase
+    .from('coupon_claims')
+    .select('*')
+    .eq('user_id', uid)
+    .order('claimed_at', { ascending: false })
+    .limit(500);
+  if (error) {
+    // Offline, or the claims migration isn't applied yet: nothing claimed as far as we know
+    if (isNetworkError(error) || error.code === '42P01' || error.code === 'PGRST205') {
+      return new Map();
+    }
+    throw onlineError(error, OFFLINE, 'Could not claim this coupon');
+  }
+  const now = Date.now();
+  const out = new Map<string, CouponClaim>();
+  for (const k of (data ?? []) as CouponClaim[]) {
+    if (k.redeemed_at || Date.parse(k.hold_until) > now) out.set(k.coupon_id, k);
+  }
+  return out;
+}
+
+/**
+ * A coupon's claim count right now (claims_active(), which leaves lapsed holds out), or null
+ * when it can't be read. The stored claims_count only changes when a claim row does.
+ */
+export async function getActiveClaimsCount(couponId: string): Promise<number | null> {
+  const { data, error } = await supabase
+    .from('coupons')
+    .select('claims_count:claims_active')
+    .eq('id', couponId)
+    .maybeSingle();
+  if (error || !data) return null;
+  return (data as { claims_count: number | null }).claims_count ?? null;
+}
+
+/**
+ * Reserve a claim-limited coupon and save it, so it shows up in Saved and nearby alerts
+ * while the hold lasts. Throws when none are left.
+ */
+export async function claimCoupon(couponId: string, coupon?: SavedRow['coupon']) {
+  await requireUid();
+  const { data, error } = await supabase.rpc('claim_coupon', { p_coupon_id: couponId });
+  if (error) throw onlineError(error, OFFLINE, 'Could not claim this coupon');
+  await saveCoupon(couponId, coupon);
+  return data as CouponClaim;
+}
+
+/** Give an unused claim back. */
+export async function releaseClaim(couponId: string) {
+  const uid = await requireUid();
+  const { error } = await supabase
+    .from('coupon_claims')
+    .delete()
+    .eq('coupon_id', couponId)
+    .eq('user_id', uid)
+    .is('redeemed_at', null);
+  if (error) throw onlineError(error, OFFLINE, 'Could not claim this coupon');
+}
@@ -1,11 +1,30 @@
-import * as Location from 'expo-location';
+import { discountTitle, type Discount, type DiscountTier } from './discount';
 
 /** ---------- Shared types ---------- */
 
 export type BBox = { x: number; y: number; w: number; h: number };
 export type OcrLineBlock = { text: string; bbox?: BBox };
 
-/** What the UI expects from the quick parser */
+/** Bump whenever a stage changes what it extracts; saved into coupon attrs. */
+export const PARSER_VERSION = 3;
+
+export type ParsedField =
+  | 'store'
+  | 'address'
+  | 'phone'
+  | 'mode'
+  | 'location_note'
+  | 'terms'
+  | 'title'
+  | 'discount'
+  | 'expires_at'
+  | 'publication'
+  | 'geo';
+
+/** Which stage produced a field and how sure it was (0–1). */
+export type FieldSource = { stage: string; confidence: number };
+
+/** What the UI expects from the extraction pipeline */
 export type ParsedCoupon = {
   store?: string | null;
   address?: string | null;
@@ -14,9 +33,52 @@ export type ParsedCoupon = {
   location_note?: string | null;
   terms?: string | null;
   title?: string | null;
-  expires_at?: string | null; // 👈 NEW
+  discount?: Discount | null;
+  expires_at?: string | null; // YYYY-MM-DD
+  publication?: string | null;
+  geo?: { lat: number; lng: number } | null;
+  parser_version: number;
+  fields: Partial<Record<ParsedField, FieldSource>>;
 };
 
+/** Address → coordinates. Injected so parsing stays pure (the app passes lib/geocode). */
+export type Geocoder = (address: string) => Promise<{ lat: number; lng: number } | null>;
+
+export type ExtractOptions = {
+  brands?: string[];
+  geocode?: Geocoder;
+};
+
+/** ---------- Known brands (boost store ranking + last-chance match) ---------- */
+
+export const KNOWN_BRANDS = [
+  "McDonald's",
+  'McDonalds',
+  "Mc Donald's",
+  'Mc Donalds',
+  'Starbucks',
+  'Subway',
+  'The Melting Pot',
+  'Melting Pot',
+  'Chipotle',
+  'Dunkin',
+  'Panera',
+  "Wendy's",
+  "Domino's",
+  'Target',
+  'Walmart',
+  'Kroger',
+  'Meijer',
+  'Aldi',
+  'Costco',
+  "Sam's Club",
+  'CVS',
+  'Walgreens',
+  'Best Buy',
+  'Taco Bell',
+  'Burger King',
+];
+
 /** ---------- Common regex/helpers ---------- */
 
 // Accepts optional country code, optional area code, separators (space/.-/•/·),
@@ -44,49 +106,186 @@ function spacedFromDomainLabel(label: string) {
 }
 
 // Normalize brand / line text for comparison: remove punctuation, spaces, ®, etc.
-function normalizeName(s: string) {
+export function normalizeName(s: string) {
   return s.toLowerCase().replace(/[^a-z0-9]/g, '');
 }
 
-/** ---------- Lightweight, text-only extractor (keeps your old flow working) ---------- */
-/** Heuristics for discount/title */
-function pickBestPercent(text: string): number | null {
-  const re = /(\d{1,3})\s*%/g;
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+/** ---------- OCR cleanup ---------- */
+
+// Remove UI noise + random junk from OCR before parsing
+export function cleanOcrText(raw: string): string {
+  const lines = raw.split(/\r?\n/);
+  const keep: string[] = [];
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    // Drop your UI header / labels from the app chrome
+    if (/^visibility:/i.test(line)) continue;
+    if (/my list/i.test(line)) continue;
+    if (/public\s*\(feed\)/i.test(line)) continue;
+
+    // Drop terminal / simulator junk
+    if (/^esc$/i.test(line)) continue;
+    if (/^0:$/.test(line)) continue;
+    if (/^F\d+$/i.test(line)) continue;
+
+    // Drop single-letter-ish lines with no digits (like "M", "v")
+    const letters = line.replace(/[^A-Za-z]/g, '');
+    const hasDigits = /\d/.test(line);
+    if (letters.length < 2 && !hasDigits) continue;
+
+    keep.push(rawLine);
+  }
+
+  return keep.join('\n');
+}
+
+/** ---------- Text-only helpers (discount, expiry, terms, phone, mode) ---------- */
+
+const MONEY = String.raw`(?:\$|USD\s*)\s*(\d+(?:\.\d{2})?)`;
+const WORD_NUMS: Record<string, number> = { one: 1, two: 2, three: 3, four: 4, five: 5 };
+const toCount = (s: string) => WORD_NUMS[s.toLowerCase()] ?? parseInt(s, 10);
+
+// "$10 off (any|a|your) (purchase|order) of $50" — the second amount is a spend threshold
+const SPEND_PAIR_RE = new RegExp(
+  MONEY +
+    String.raw`\s*off\s+(?:(?:any|a|an|your)\s+)?(?:(?:purchases?|orders?)\s+(?:of|over)\s+)?` +
+    MONEY,
+  'gi'
+);
+const MIN_PURCHASE_RES = [
+  new RegExp(String.raw`(?:purchases?|orders?|spend(?:ing)?)\s+(?:of|over|at\s+least)\s+` + MONEY, 'i'),
+  new RegExp(String.raw`min(?:imum|\.)?\s+(?:purchase|order|spend)(?:\s+of)?\s*` + MONEY, 'i'),
+  new RegExp(String.raw`(?:with|when\s+you\s+spend)\s+(?:a\s+)?` + MONEY + String.raw`\s*(?:\+|or\s+more|purchase)?`, 'i'),
+  new RegExp(MONEY + String.raw`\s*(?:minimum|min\.?)\s+(?:purchase|order)?`, 'i'),
+];
+const MAX_DISCOUNT_RES = [
+  new RegExp(String.raw`up\s+to\s+` + MONEY + String.raw`\s*off`, 'i'),
+  new RegExp(String.raw`max(?:imum|\.)?\s+(?:discount|savings?|value)(?:\s+of)?\s*` + MONEY, 'i'),
+];
+const BUY_GET_RE =
+  /\bbuy\s+(\d|one|two|three|four|five)\b[^.]{0,30}?\bget\s+(\d|one|two|three)\b[^.]{0,30}?\b(free|half\s+off|(\d{1,3})\s*%\s*off)/i;
+const FREE_ITEM_RE =
+  /\bfree\s+([a-z][a-z'&\- ]{2,30}?)(?=\s+(?:with|when|w\/|after|on)\b|[.,!(]|$)/i;
+
+function firstMoney(text: string, res: RegExp[]): number | null {
+  for (const re of res) {
+    const m = re.exec(text);
+    if (m) return parseFloat(m[1]);
+  }
+  return null;
+}
+
+function pickBestPercent(text: string): { value: number; withOff: boolean } | null {
+  const re = /(\d{1,3})\s*%(\s*off)?/gi;
   let m: RegExpExecArray | null,
-    best: number | null = null;
+    best: { value: number; withOff: boolean } | null = null;
   while ((m = re.exec(text))) {
     const v = parseInt(m[1], 10);
-    if (v >= 5 && v <= 100) best = best == null ? v : Math.max(best, v);
+    if (v < 5 || v > 100) continue;
+    const cand = { value: v, withOff: !!m[2] };
+    // "20% off" beats a bigger bare "30%" (often tax/tip/fine print)
+    if (!best || (cand.withOff && !best.withOff) || (cand.withOff === best.withOff && v > best.value)) {
+      best = cand;
+    }
   }
+  if (!best && /\bhalf\s+off\b/i.test(text)) best = { value: 50, withOff: true };
   return best;
 }
-function pickBestAmount(text: string): number | null {
-  const re = /(?:\$|USD\s*)\s*(\d+(?:\.\d{2})?)\s*(?:off|discount|save)?/gi;
+
+function pickBestAmount(text: string, exclude: (number | null)[]): { value: number; withOff: boolean } | null {
+  const re = new RegExp(MONEY + String.raw`\s*(off|discount)?|save\s+` + MONEY, 'gi');
   let m: RegExpExecArray | null,
-    best: number | null = null;
+    best: { value: number; withOff: boolean } | null = null;
   while ((m = re.exec(text))) {
-    const v = parseFloat(m[1]);
-    if (!isNaN(v) && v > 0) best = best == null ? v : Math.max(best, v);
+    const v = parseFloat(m[1] ?? m[3]);
+    if (isNaN(v) || v <= 0) continue;
+    const withOff = !!m[2] || m[3] != null;
+    if (!withOff && exclude.includes(v)) continue; // that's the spend threshold / cap
+    if (!best || (withOff && !best.withOff) || (withOff === best.withOff && v > best.value)) {
+      best = { value: v, withOff };
+    }
   }
   return best;
 }
 
-function deriveTitle(raw: string): string | null {
-  const p = pickBestPercent(raw);
-  if (p != null) return `${p}% off`;
-  const a = pickBestAmount(raw);
-  if (a != null) return `$${a} off`;
+/**
+ * Read the offer into a typed Discount.
+ * Precedence: spend tiers → buy/get → percent → dollar amount → free item.
+ */
+function parseDiscount(raw: string): { discount: Discount; confidence: number } | null {
+  const text = raw.replace(/\s+/g, ' ');
+  const max_discount = firstMoney(text, MAX_DISCOUNT_RES);
+
+  const tiers: DiscountTier[] = [];
+  for (const m of text.matchAll(SPEND_PAIR_RE)) {
+    const value = parseFloat(m[1]);
+    const min_purchase = parseFloat(m[2]);
+    if (value > 0 && min_purchase > value && !tiers.some((t) => t.min_purchase === min_purchase)) {
+      tiers.push({ value, min_purchase });
+    }
+  }
+  if (tiers.length >= 2) {
+    tiers.sort((a, b) => a.min_purchase - b.min_purchase);
+    const best = Math.max(...tiers.map((t) => t.value));
+    return { discount: { kind: 'tiered', value: best, tiers, max_discount }, confidence: 0.85 };
+  }
+
+  const min_purchase = tiers[0]?.min_purchase ?? firstMoney(text, MIN_PURCHASE_RES);
+
+  const bg = BUY_GET_RE.exec(text);
+  if (bg) {
+    const buy = toCount(bg[1]);
+    const get = toCount(bg[2]);
+    const pctOff = bg[4] ? parseInt(bg[4], 10) : /half/i.test(bg[3]) ? 50 : 100;
+    if (buy === 1 && get === 1 && pctOff === 100) {
+      return { discount: { kind: 'bogo', min_purchase, max_discount }, confidence: 0.85 };
+    }
+    return {
+      discount: { kind: 'buy_x_get_y', buy, get, get_percent_off: pctOff, min_purchase, max_discount },
+      confidence: 0.8,
+    };
+  }
+  if (/\bbogo\b/i.test(text)) {
+    return { discount: { kind: 'bogo', min_purchase, max_discount }, confidence: 0.75 };
+  }
+
+  const pct = pickBestPercent(text);
+  if (pct) {
+    return {
+      discount: { kind: 'percent', value: pct.value, min_purchase, max_discount },
+      confidence: pct.withOff ? 0.85 : 0.6,
+    };
+  }
+
+  const amt = tiers[0] ? { value: tiers[0].value, withOff: true } : pickBestAmount(text, [min_purchase, max_discount]);
+  if (amt) {
+    return {
+      discount: { kind: 'amount', value: amt.value, min_purchase, max_discount: null },
+      confidence: amt.withOff ? 0.8 : 0.5,
+    };
+  }
+
+  const free = FREE_ITEM_RE.exec(text);
+  if (free) {
+    const item = free[1].trim().toLowerCase();
+    return { discount: { kind: 'free_item', item, min_purchase, max_discount: null }, confidence: 0.5 };
+  }
+
   return null;
 }
 
-function extractTerms(raw: string): string | null {
+function extractTerms(raw: string): { terms: string; anchored: boolean } {
   const text = raw.replace(/\s+/g, ' ').trim();
   const idx = text.search(/\b(terms|conditions|valid|offer valid|not valid|exclusions|present|only)\b/i);
   if (idx >= 0) {
-    const snippet = text.slice(idx);
-    return snippet.slice(0, 400);
+    return { terms: text.slice(idx).slice(0, 400), anchored: true };
   }
-  return text.slice(Math.max(0, text.length - 300));
+  return { terms: text.slice(Math.max(0, text.length - 300)), anchored: false };
 }
 
 function detectMode(raw: string): ParsedCoupon['mode'] {
@@ -95,57 +294,183 @@ function detectMode(raw: string): ParsedCoupon['mode'] {
   return m[1].toLowerCase().includes('dine') ? 'dine-in' : 'pickup';
 }
 
-/** Extract an expiry date-looking string from the raw OCR text. */
-function extractExpiry(raw: string): string | null {
+// Prefer a 10-digit phone if present; else first match
+function pickPhone(text: string): string | null {
+  const matches = [...(text.matchAll(PHONE_RE) ?? [])].map((m) => m[0]);
+  if (!matches.length) return null;
+  const digits = (s: string) => (s.match(/\d/g) || []).length;
+  matches.sort((a, b) => digits(b) - digits(a));
+  return matches[0] || null;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const NUMERIC_DATE = String.raw`(\d{1,2})[\/\-\.](\d{1,2})[\/\-\.](\d{4}|\d{2})`;
+const MONTH_DATE = String.raw`(Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t|tember)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)\.?\s+(\d{1,2})(?:st|nd|rd|th)?(?:,?\s+(\d{4}|\d{2}))?`;
+const EXPIRY_LABEL = String.raw`(?:expires?|exp\.?|expiration(?: date)?|valid (?:thru|through|until)|good (?:thru|through|until)|offer ends)[:\s]+`;
+
+function toISODateOnly(y: number, m: number, d: number): string | null {
+  const dt = new Date(y, m - 1, d);
+  if (dt.getFullYear() !== y || dt.getMonth() !== m - 1 || dt.getDate() !== d) return null;
+  return `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+}
+
+function numericToISO(a: string, b: string, c: string): string | null {
+  let mm = +a,
+    dd = +b,
+    yy = +c;
+  if (yy < 100) yy += 2000;
+  // US order first; fall back to day/month when the first part can't be a month
+  if (!(mm >= 1 && mm <= 12)) [mm, dd] = [dd, mm];
+  return toISODateOnly(yy, mm, dd);
+}
+
+function monthToISO(mon: string, day: string, year?: string): string | null {
+  const mm = MONTHS.indexOf(mon.slice(0, 3).toLowerCase()) + 1;
+  if (!mm) return null;
+  if (year) {
+    const yy = +year < 100 ? +year + 2000 : +year;
+    return toISODateOnly(yy, mm, +day);
+  }
+  // No year printed: assume the next time that date comes around
+  const now = new Date();
+  const thisYear = toISODateOnly(now.getFullYear(), mm, +day);
+  if (thisYear && new Date(thisYear).getTime() >= now.getTime() - 86400000) return thisYear;
+  return toISODateOnly(now.getFullYear() + 1, mm, +day);
+}
+
+/** Find an expiry date and return it as YYYY-MM-DD. Labeled dates ("Expires …") win. */
+function extractExpiry(raw: string): { iso: string; confidence: number } | null {
   const text = raw.replace(/\s+/g, ' ');
 
+  const labeledNum = new RegExp(EXPIRY_LABEL + NUMERIC_DATE, 'i').exec(text);
+  if (labeledNum) {
+    const iso = numericToISO(labeledNum[1], labeledNum[2], labeledNum[3]);
+    if (iso) return { iso, confidence: 0.95 };
+  }
+  const labeledMonth = new RegExp(EXPIRY_LABEL + MONTH_DATE, 'i').exec(text);
+  if (labeledMonth) {
+    const iso = monthToISO(labeledMonth[1], labeledMonth[2], labeledMonth[3]);
+    if (iso) return { iso, confidence: labeledMonth[3] ? 0.95 : 0.7 };
+  }
+
   // 01/05/2026, 1-5-26, 01.05.2026
-  const numericRe = /\b(0?[1-9]|1[0-2])[\/\-\.](0?[1-9]|[12]\d|3[01])[\/\-\.](20\d{2}|\d{2})\b/;
-  const m1 = text.match(numericRe);
-  if (m1) return m1[0];
-
-  // Jan 5, 2026 / January 5 2026
-  const longRe =
-    /\b(Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|Jun(?:e)?|Jul(?:y)?|Aug(?:ust)?|Sep(?:t|tember)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)\.?\s+\d{1,2},?\s+(20\d{2}|\d{2})\b/i;
-  const m2 = text.match(longRe);
-  if (m2) return m2[0];
-
-  // "Expires 12/31/26", "Valid thru 12-31-2026"
-  const labeledRe =
-    /\b(expires?|valid (?:thru|through|until))[:\s]+((0?[1-9]|1[0-2])[\/\-\.](0?[1-9]|[12]\d|3[01])[\/\-\.](20\d{2}|\d{2}))\b/i;
-  const m3 = text.match(labeledRe);
-  if (m3) return m3[2];
+  const num = new RegExp(String.raw`\b` + NUMERIC_DATE + String.raw`\b`).exec(text);
+  if (num) {
+    const iso = numericToISO(num[1], num[2], num[3]);
+    if (iso) return { iso, confidence: 0.7 };
+  }
+
+  // Jan 5, 2026 / January 5 2026 / Dec 20
+  const month = new RegExp(String.raw`\b` + MONTH_DATE + String.raw`\b`, 'i').exec(text);
+  if (month) {
+    const iso = monthToISO(month[1], month[2], month[3]);
+    if (iso) return { iso, confidence: month[3] ? 0.7 : 0.45 };
+  }
 
   return null;
 }
 
-/**
- * Text-only extractor you already use.
- * Store/address are left undefined so the layout-aware extractor can take precedence.
- */
-export function extractCouponFields(
-  text: string,
-  _blocks?: { text: string; bbox?: BBox }[]
-): ParsedCoupon {
-  const phoneMatch = [...(text.matchAll(PHONE_RE) ?? [])].map((m) => m[0]);
-  const pickDigits = (s: string) => (s.match(/\d/g) || []).length;
-  const phone = phoneMatch.length ? phoneMatch.sort((a, b) => pickDigits(b) - pickDigits(a))[0] : null;
+function detectPublication(raw: string): string | null {
+  const lower = raw.toLowerCase();
+  if (lower.includes('entertainment book')) return 'Entertainment';
+  if (lower.includes('entertainment®')) return 'Entertainment';
+  if (lower.includes('key card')) return 'Key Card';
+  if (lower.includes('valpak')) return 'Valpak';
+  return null;
+}
 
-  const title = deriveTitle(text);
-  const terms = extractTerms(text);
-  const mode = detectMode(text);
-  const expiry = extractExpiry(text); // 👈 NEW
+/** ---------- Store fallbacks (used when layout ranking comes up weak) ---------- */
 
-  return {
-    store: undefined,
-    address: undefined,
-    phone,
-    mode,
-    location_note: null,
-    terms,
-    title,
-    expires_at: expiry, // 👈 NEW
-  };
+// Last-chance store fallback just from text lines
+function fallbackStoreFromText(raw: string): string {
+  const lines = raw
+    .split(/\r?\n/)
+    .map((l) => l.trim())
+    .filter(Boolean);
+
+  let best = '';
+  let bestScore = -999;
+
+  for (const line of lines) {
+    if (!/[A-Za-z]/.test(line)) continue; // need letters
+
+    // ignore typical offer / terms / expiry lines
+    if (
+      /(valid|coupon|expires|expiration|discount|percent|%|off|save|only|terms|conditions|present|offer|with purchase)/i.test(
+        line
+      )
+    ) {
+      continue;
+    }
+
+    const letters = line.replace(/[^A-Za-z]/g, '');
+    // completely ignore super-short lines like "M" or "v"
+    if (letters.length < 3) continue;
+
+    let score = 0;
+
+    const caps = letters.replace(/[^A-Z]/g, '').length;
+    const capsRatio = letters.length ? caps / letters.length : 0;
+
+    const hasDigits = /\d/.test(line);
+    if (!hasDigits) score += 1.0; // store names usually no digits
+    score += capsRatio; // more caps → heading/logo-ish
+
+    const len = line.length;
+    if (len <= 30) score += 0.5;
+    if (len > 40) score -= 0.5;
+
+    if (score > bestScore) {
+      bestScore = score;
+      best = line;
+    }
+  }
+
+  return best;
+}
+
+// Offer / fine-print words that never belong in a store name ("20% OFF", "Buy One")
+const OFFER_WORD_RE =
+  /\b(off|free|save|buy|get|deal|coupon|only|order|offer|valid|expires?|each|any|with|limit|purchase)\b/i;
+
+// A line that could be part of a store name: one or two words, letters only (apostrophes and
+// "&" allowed), no prices, percentages or offer wording
+function looksLikeNamePart(line: string) {
+  if (/[\d%$]/.test(line) || OFFER_WORD_RE.test(line)) return false;
+  if (!/^[A-Za-z][A-Za-z'’&.\- ]*$/.test(line)) return false;
+  const letters = line.replace(/[^A-Za-z]/g, '');
+  return letters.length >= 3 && letters.length <= 12 && line.split(/\s+/).length <= 2;
+}
+
+// If store is like "MEIJER" and the next line is "MARKET", combine → "Meijer Market".
+// A one-word fragment like "Pot" is joined with the name line above it → "Melting Pot".
+function maybeExtendStoreWithNextLine(store: string, text: string): string {
+  if (!store) return store;
+
+  const lines = text
+    .split(/\r?\n/)
+    .map((l) => l.trim())
+    .filter(Boolean);
+
+  const idx = lines.findIndex((l) => l.toLowerCase() === store.toLowerCase());
+  if (idx < 0) return store;
+
+  const prev = lines[idx - 1];
+  const storeLetters = store.replace(/[^A-Za-z]/g, '');
+  const isFragment = !/\s/.test(store) && storeLetters.length <= 4;
+  if (prev && isFragment && !/\s/.test(prev) && looksLikeNamePart(prev)) {
+    return toTitleCase(`${prev} ${store}`);
+  }
+
+  const next = lines[idx + 1];
+  if (!next || !looksLikeNamePart(next)) return store;
+
+  // next line must be mostly caps (like "MARKET")
+  const letters = next.replace(/[^A-Za-z]/g, '');
+  const capsRatio = letters.replace(/[^A-Z]/g, '').length / letters.length;
+  if (capsRatio < 0.7) return store;
+
+  return toTitleCase(`${store} ${next}`);
 }
 
 /** ---------- Layout-aware extractor (store/address/phone via bbox + optional geocode) ---------- */
@@ -303,22 +628,11 @@ function scoreAddressCandidate(line: string, idxFromTop: number) {
   return score;
 }
 
-/**
- * Layout-aware extractor. Use this to get more accurate store/address/phone.
- * Pass OCR blocks with bbox if available; provide brand list to improve ranking.
- */
-export async function extractStoreAndAddressFromBlocks(
-  blocks: OcrLineBlock[] | undefined,
-  allText: string,
-  options?: { brands?: string[]; tryGeocode?: boolean }
-): Promise<{
-  store: string | null;
-  address: string | null;
-  phone: string | null;
-  geo?: { lat: number; lng: number };
-}> {
-  // Flatten to lines preserving each block's bbox
-  const lines: { text: string; block?: OcrLineBlock }[] = [];
+type Line = { text: string; block?: OcrLineBlock };
+
+// Flatten to lines preserving each block's bbox
+function toLines(blocks: OcrLineBlock[] | undefined, allText: string): Line[] {
+  const lines: Line[] = [];
   if (blocks?.length) {
     for (const b of blocks) {
       const parts = (b.text || '')
@@ -334,6 +648,28 @@ export async function extractStoreAndAddressFromBlocks(
       .filter(Boolean)
       .forEach((s) => lines.push({ text: s }));
   }
+  return lines;
+}
+
+/**
+ * Layout-aware extractor. Use this to get more accurate store/address/phone.
+ * Pass OCR blocks with bbox if available; provide brand list to improve ranking.
+ * Pass a geocoder to validate address candidates (skipped when omitted, e.g. offline runs).
+ * Scores are the raw heuristic totals of the winning candidates (higher = surer).
+ */
+export async function extractStoreAndAddressFromBlocks(
+  blocks: OcrLineBlock[] | undefined,
+  allText: string,
+  options?: { brands?: string[]; geocode?: Geocoder }
+): Promise<{
+  store: string | null;
+  address: string | null;
+  phone: string | null;
+  geo?: { lat: number; lng: number };
+  storeScore: number;
+  addressScore: number;
+}> {
+  const lines = toLines(blocks, allText);
 
   // ---- Brand hints from URL and stitched top title
   let urlBrand: string | null = null;
@@ -379,21 +715,21 @@ export async function extractStoreAndAddressFromBlocks(
   // Optional: geocode validate to pick the best address
   let bestAddress: string | null = null;
   let bestGeo: { lat: number; lng: number } | undefined;
-  if (options?.tryGeocode !== false && addressCandidates.length) {
-    let bestScore = -999;
+  let addressScore = -999;
+  if (options?.geocode && addressCandidates.length) {
     for (const cand of addressCandidates) {
       try {
-        const g = await Location.geocodeAsync(cand.text);
-        if (g?.length) {
+        const g = await options.geocode(cand.text);
+        if (g) {
           const geoScore =
             2.0 +
             (ZIP_RE.test(cand.text) ? 0.3 : 0) +
             (hasStreetToken(cand.text) ? 0.2 : 0);
           const total = cand.score + geoScore;
-          if (total > bestScore) {
-            bestScore = total;
+          if (total > addressScore) {
+            addressScore = total;
             bestAddress = cand.text;
-            bestGeo = { lat: g[0].latitude, lng: g[0].longitude };
+            bestGeo = g;
           }
         }
       } catch {
@@ -401,20 +737,154 @@ export async function extractStoreAndAddressFromBlocks(
       }
     }
   }
-  if (!bestAddress && addressCandidates[0]) bestAddress = addressCandidates[0].text;
+  if (!bestAddress && addressCandidates[0]) {
+    bestAddress = addressCandidates[0].text;
+    addressScore = addressCandidates[0].score;
+  }
 
   const store = storeCandidates[0]?.text || null;
 
-  // Prefer a 10-digit phone if present; else first match
-  let phone: string | null = null;
+  return {
+    store,
+    address: bestAddress,
+    phone: pickPhone(allText),
+    geo: bestGeo,
+    storeScore: storeCandidates[0]?.score ?? -999,
+    addressScore,
+  };
+}
+
+/** ---------- Extraction pipeline ---------- */
+
+type StageContext = {
+  text: string;
+  blocks: OcrLineBlock[];
+  options: ExtractOptions;
+  /** Read what earlier stages produced */
+  current: ParsedCoupon;
+  /** Propose a value; it wins if the field is empty, the confidence is higher, or `refine` is set */
+  set: <K extends ParsedField>(
+    field: K,
+    value: ParsedCoupon[K],
+    confidence: number,
+    refine?: boolean
+  ) => void;
+};
+
+type Stage = { name: string; run: (ctx: StageContext) => void | Promise<void> };
+
+/**
+ * Stages run in order. Each one proposes values for the fields it knows about;
+ * later stages only replace a field when they are more confident.
+ */
+const STAGES: Stage[] = [
   {
-    const matches = [...(allText.matchAll(PHONE_RE) ?? [])].map((m) => m[0]);
-    if (matches.length) {
-      const digits = (s: string) => (s.match(/\d/g) || []).length;
-      matches.sort((a, b) => digits(b) - digits(a));
-      phone = matches[0] || null;
-    }
+    name: 'discount',
+    run: ({ text, set }) => {
+      const hit = parseDiscount(text);
+      if (!hit) return;
+      set('discount', hit.discount, hit.confidence);
+      set('title', discountTitle(hit.discount), hit.confidence);
+    },
+  },
+  {
+    name: 'expiry',
+    run: ({ text, set }) => {
+      const hit = extractExpiry(text);
+      if (hit) set('expires_at', hit.iso, hit.confidence);
+    },
+  },
+  {
+    name: 'phone',
+    run: ({ text, set }) => {
+      const phone = pickPhone(text);
+      if (!phone) return;
+      const digits = (phone.match(/\d/g) || []).length;
+      set('phone', phone, digits >= 10 ? 0.9 : 0.5);
+    },
+  },
+  {
+    name: 'mode',
+    run: ({ text, set }) => {
+      const mode = detectMode(text);
+      if (mode) set('mode', mode, 0.8);
+    },
+  },
+  {
+    name: 'terms',
+    run: ({ text, set }) => {
+      const { terms, anchored } = extractTerms(text);
+      set('terms', terms, anchored ? 0.6 : 0.2);
+    },
+  },
+  {
+    name: 'layout',
+    run: async ({ text, blocks, options, set }) => {
+      const layout = await extractStoreAndAddressFromBlocks(blocks, text, {
+        brands: options.brands ?? KNOWN_BRANDS,
+        geocode: options.geocode,
+      });
+      // Typical winning store scores land around 3–6, addresses around 2–7
+      set('store', layout.store, clamp01(layout.storeScore / 6));
+      set('address', layout.address, layout.geo ? 0.9 : clamp01(layout.addressScore / 5));
+      if (layout.geo) set('geo', layout.geo, 0.9);
+    },
+  },
+  {
+    name: 'brand-match',
+    run: ({ text, options, set }) => {
+      const normText = normalizeName(text);
+      for (const brand of options.brands ?? KNOWN_BRANDS) {
+        const nb = normalizeName(brand);
+        if (nb && normText.includes(nb)) return set('store', brand, 0.6);
+      }
+    },
+  },
+  {
+    name: 'text-fallback',
+    run: ({ text, set }) => {
+      set('store', fallbackStoreFromText(text) || null, 0.3);
+    },
+  },
+  {
+    name: 'store-extend',
+    run: ({ text, current, set }) => {
+      const store = current.store;
+      if (!store) return;
+      const extended = maybeExtendStoreWithNextLine(store, text);
+      const prev = current.fields.store?.confidence ?? 0;
+      if (extended !== store) set('store', extended, Math.min(1, prev + 0.05), true);
+    },
+  },
+  {
+    name: 'publication',
+    run: ({ text, set }) => {
+      set('publication', detectPublication(text), 0.8);
+    },
+  },
+];
+
+/**
+ * Single entry point for turning OCR output into coupon fields.
+ * `text` should already be cleaned of UI noise; `blocks` may be empty.
+ */
+export async function extractCoupon(
+  text: string,
+  blocks?: OcrLineBlock[],
+  options: ExtractOptions = {}
+): Promise<ParsedCoupon> {
+  const out: ParsedCoupon = { mode: '', parser_version: PARSER_VERSION, fields: {} };
+
+  for (const stage of STAGES) {
+    const set: StageContext['set'] = (field, value, confidence, refine) => {
+      if (value == null || value === '') return;
+      const prev = out.fields[field];
+      if (prev && prev.confidence >= confidence && !refine) return;
+      out[field] = value;
+      out.fields[field] = { stage: stage.name, confidence: Math.round(clamp01(confidence) * 100) / 100 };
+    };
+    await stage.run({ text, blocks: blocks ?? [], options, current: out, set });
   }
 
-  return { store, address: bestAddress, phone, geo: bestGeo };
+  return out;
 }
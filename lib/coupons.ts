@@ -1,4 +1,17 @@
 // lib/coupon.ts
+import { requireUid } from './api';
+import type { CouponBarcode } from './barcode';
+import { discountWorth, type Discount, type DiscountKind } from './discount';
+import {
+  getLocalCoupon,
+  getLocalMine,
+  isLocalId,
+  isNetworkError,
+  queueAdd,
+  queueDelete,
+  queueUpdate,
+  syncNow,
+} from './local-store';
 import { supabase } from './supabase';
 
 export type Visibility = 'private' | 'public';
@@ -9,9 +22,14 @@ export type Coupon = {
   owner_id: string;
   store: string | null;
   title: string | null;
+  discount: Discount | null;
+  discount_kind?: DiscountKind | null;   // generated from discount->>'kind'
+  discount_value?: number | null;        // generated from discount->>'value'
+  discount_worth?: number | null;        // estimated $ saving, for "best value" (discountWorth)
   terms: string | null;
   expires_at: string | null;
   image_url: string | null;
+  barcodes: CouponBarcode[] | null;
   stable_id: string | null;
   attrs: Record<string, any> | null;
   created_at: string;
@@ -19,6 +37,11 @@ export type Coupon = {
   visibility: Visibility;
   category: Category;
   publication: string | null;            // 👈 NEW FIELD
+  merchant_id?: string | null;           // set = valid at every branch of the merchant
+  group_id?: string | null;              // set = in that group's shared wallet (lib/groups.ts)
+  claim_limit?: number | null;           // public coupons: null = unlimited, N = N claims (lib/claims.ts)
+  claims_count?: number;                 // active claims, kept by a trigger
+  hidden_at?: string | null;             // hidden from the feed after reports (lib/moderation.ts)
   saves_count?: number;
 };
 
@@ -26,115 +49,263 @@ export type NewCouponInput = {
   owner_id: string;
   store?: string | null;
   title?: string | null;
+  discount?: Discount | null;
   terms?: string | null;
   expires_at?: string | null;
   image_url?: string | null;
+  barcodes?: CouponBarcode[] | null;
   stable_id?: string | null;
   attrs?: Record<string, any> | null;
   visibility?: Visibility;
   category?: Category;
   publication?: string | null;           // 👈 NEW FIELD
+  merchant_id?: string | null;
+  group_id?: string | null;
+  claim_limit?: number | null;
 };
 
-/** Get coupons I own */
-export async function getMyCoupons() {
-  const { data: userData, error: userErr } = await supabase.auth.getUser();
-  if (userErr) throw userErr;
-  const uid = userData.user?.id;
-  if (!uid) throw new Error('Not signed in');
+/*
+ * My coupons live in the offline store (lib/local-store.ts): reads come from the cache
+ * after a best-effort sync, writes are applied locally and queued for Supabase.
+ */
 
-  const { data, error } = await supabase
-    .from('coupons')
-    .select(
-      'id, store, title, terms, expires_at, created_at, visibility, category, publication, saves_count'
-    )
-    .eq('owner_id', uid)
-    .order('created_at', { ascending: false });
+const normalize = (s?: string | null) => {
+  const v = (s ?? '').trim();
+  return v.length ? v : null;
+};
 
-  if (error) throw error;
-  return (data ?? []) as Coupon[];
+/**
+ * Get coupons I own, straight from the offline cache. A sync is kicked off in the background;
+ * subscribeLocalStore listeners see the fresh copy when it lands.
+ */
+export async function getMyCoupons() {
+  await requireUid();
+  syncNow();
+  return getLocalMine();
 }
 
-/** Add a new coupon */
+/** Add a new coupon. Returns the cached row right away, with a temporary id until synced. */
 export async function addCoupon(input: NewCouponInput) {
-  const normalize = (s?: string | null) => {
-    const v = (s ?? '').trim();
-    return v.length ? v : null;
-  };
+  const uid = await requireUid();
+  if (input.owner_id !== uid) throw new Error('You can only add your own coupons');
 
   const payload = {
     owner_id: input.owner_id,
     store: normalize(input.store),
     title: normalize(input.title),
+    discount: input.discount ?? null,
     terms: normalize(input.terms),
     expires_at: input.expires_at ?? null,
     image_url: input.image_url ?? null,
+    barcodes: input.barcodes?.length ? input.barcodes : null,
     stable_id: normalize(input.stable_id),
     attrs: input.attrs ?? null,
     visibility: (input.visibility ?? 'private') as Visibility,
     category: (input.category ?? 'other') as Category,
     publication: normalize(input.publication), // 👈 added
+    // only sent when set, so saving still works before the merchants migration is applied
+    ...(input.merchant_id ? { merchant_id: input.merchant_id } : {}),
+    ...(input.group_id ? { group_id: input.group_id } : {}),
+    ...(input.claim_limit ? { claim_limit: input.claim_limit } : {}),
   };
 
+  const local = await queueAdd(uid, payload);
+  syncNow();
+  return local;
+}
+
+/** One coupon with everything the detail screen shows (mine, saved, or public). */
+export async function getCoupon(couponId: string) {
+  const local = await getLocalCoupon(couponId);
+  if (local) return local;
+  if (isLocalId(couponId)) return null;
+
   const { data, error } = await supabase
     .from('coupons')
-    .insert(payload)
     .select('*')
-    .single();
+    .eq('id', couponId)
+    .maybeSingle();
 
-  if (error) throw error;
-  return data as Coupon;
+  if (error) {
+    if (isNetworkError(error)) return null;
+    throw error;
+  }
+  return (data ?? null) as Coupon | null;
+}
+
+export type CouponPatch = Partial<
+  Pick<
+    NewCouponInput,
+    | 'store'
+    | 'title'
+    | 'discount'
+    | 'terms'
+    | 'expires_at'
+    | 'image_url'
+    | 'barcodes'
+    | 'visibility'
+    | 'category'
+    | 'publication'
+    | 'merchant_id'
+    | 'group_id'
+    | 'claim_limit'
+    | 'attrs'
+  >
+>;
+
+/**
+ * Edit a coupon I own. Only the keys present in `patch` change;
+ * `attrs` is merged into the stored attrs rather than replacing them.
+ */
+export async function updateCoupon(couponId: string, patch: CouponPatch) {
+  const uid = await requireUid();
+
+  const current = await getCoupon(couponId);
+  if (!current) throw new Error('Coupon not found');
+  if (current.owner_id !== uid) throw new Error('You can only edit your own coupons');
+
+  const payload: Record<string, any> = {};
+  if ('store' in patch) payload.store = normalize(patch.store);
+  if ('title' in patch) payload.title = normalize(patch.title);
+  if ('discount' in patch) payload.discount = patch.discount ?? null;
+  if ('terms' in patch) payload.terms = normalize(patch.terms);
+  if ('expires_at' in patch) payload.expires_at = patch.expires_at ?? null;
+  if ('image_url' in patch) payload.image_url = patch.image_url ?? null;
+  if ('barcodes' in patch) payload.barcodes = patch.barcodes?.length ? patch.barcodes : null;
+  if (patch.visibility) payload.visibility = patch.visibility;
+  if (patch.category) payload.category = patch.category;
+  if ('publication' in patch) payload.publication = normalize(patch.publication);
+  if ('merchant_id' in patch) payload.merchant_id = patch.merchant_id ?? null;
+  if ('group_id' in patch) payload.group_id = patch.group_id ?? null;
+  if ('claim_limit' in patch) payload.claim_limit = patch.claim_limit ?? null;
+  if (patch.attrs) payload.attrs = { ...(current.attrs ?? {}), ...patch.attrs };
+
+  const local = await queueUpdate(uid, current, payload);
+  syncNow();
+  return local;
 }
 
-/** Delete a coupon I own (RLS will block others). */
+/** Delete a coupon I own (RLS will block others). Queued when offline. */
 export async function deleteCoupon(couponId: string) {
-  const { data: sess } = await supabase.auth.getSession();
-  const uid = sess.session?.user?.id;
-  if (!uid) throw new Error('Not signed in');
+  const uid = await requireUid();
 
-  const { error } = await supabase
-    .from('coupons')
-    .delete()
-    .eq('id', couponId)
-    .eq('owner_id', uid); // enforced by RLS too
+  const current = await getLocalCoupon(couponId);
+  if (current && current.owner_id !== uid) throw new Error('You can only delete your own coupons');
 
-  if (error) throw error;
+  await queueDelete(uid, couponId);
+  syncNow();
   return { ok: true };
 }
 
+/**
+ * Save coordinates resolved from a coupon's address into attrs.geo, so coupons_near finds it.
+ * Done by the server only while attrs.geo is empty, and not an edit: updated_at is untouched.
+ */
+export async function backfillCouponGeo(couponId: string, geo: { lat: number; lng: number }) {
+  const { data, error } = await supabase.rpc('backfill_coupon_geo', {
+    p_coupon_id: couponId,
+    p_lat: geo.lat,
+    p_lng: geo.lng,
+  });
+  if (error) throw error;
+  return data as boolean;
+}
+
+/* ----------------------------------------------------------------------------
+ * Expiry / archive
+ * Expired coupons are "archived": hidden from the feed, geofencing and nearby counts,
+ * listed under Archived in My List, and purged after the retention period (lib/archive.ts).
+ * --------------------------------------------------------------------------*/
+
+/** When a coupon stops being valid (epoch ms); bare dates count until the end of that day. */
+export function expiryTime(iso?: string | null): number | null {
+  if (!iso) return null;
+  const t = Date.parse(iso);
+  if (Number.isNaN(t)) return null;
+  // "2026-01-31" saved via toISOString() lands on midnight UTC
+  if (/T00:00:00(\.0+)?(Z|\+00:00)$/.test(iso)) {
+    const d = new Date(t);
+    return new Date(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate(), 23, 59, 59, 999).getTime();
+  }
+  return t;
+}
+
+export function isExpired(c: { expires_at?: string | null }, now = Date.now()) {
+  const t = expiryTime(c.expires_at);
+  return t != null && t < now;
+}
+
+// Without the expires_date_only column the server can't tell a bare date from midnight UTC
+const ARCHIVE_GRACE_MS = 24 * 3600 * 1000;
+
+/**
+ * PostgREST `or` filter for coupons that aren't archived yet; the same test as isExpired.
+ * Bare dates (expires_date_only) last through today's date here, not just until midnight UTC.
+ * `exact: false` is for databases without that column: a day of grace, and the caller drops
+ * the stragglers with isExpired.
+ */
+export function activeCouponsFilter(now = Date.now(), exact = true) {
+  if (!exact) {
+    return `expires_at.is.null,expires_at.gte.${new Date(now - ARCHIVE_GRACE_MS).toISOString()}`;
+  }
+  return (
+    `expires_at.is.null,expires_at.gte.${new Date(now).toISOString()},` +
+    `and(expires_date_only.is.true,expires_at.gte.${localDateStart(now)})`
+  );
+}
+
+/** Today's local date as UTC midnight: how a bare expiry date for today is stored. */
+function localDateStart(now: number) {
+  const d = new Date(now);
+  return new Date(Date.UTC(d.getFullYear(), d.getMonth(), d.getDate())).toISOString();
+}
+
 /** Optional: Fetch coupons by scope & publication (for lists) */
 export async function getCouponsByScope({
   scope,
   publication,
+  discountKind,
+  sort = 'expiry',
   q,
   limit = 50,
   offset = 0,
 }: {
   scope: Visibility;
   publication?: string | null;
+  discountKind?: DiscountKind | null;
+  /** 'value' = biggest estimated saving first (discountWorth) */
+  sort?: 'expiry' | 'value';
   q?: string;
   limit?: number;
   offset?: number;
 }) {
-  const { data: userData } = await supabase.auth.getUser();
-  const uid = userData?.user?.id ?? null;
+  if (scope === 'private') {
+    await requireUid();
+    syncNow();
+    return filterCoupons(await getLocalMine(), { publication, discountKind, sort, q }).slice(
+      offset,
+      offset + limit
+    );
+  }
 
   let query = supabase
     .from('coupons')
     .select(
-      'id, store, title, terms, expires_at, created_at, visibility, category, publication, saves_count'
-    );
-
-  if (scope === 'public') query = query.eq('visibility', 'public');
-  else {
-    if (!uid) throw new Error('Not signed in');
-    query = query.eq('owner_id', uid);
-  }
+      'id, store, title, discount, discount_kind, discount_value, discount_worth, terms, expires_at, image_url, created_at, visibility, category, publication, saves_count'
+    )
+    .eq('visibility', 'public')
+    .or(activeCouponsFilter());
 
   if (publication && publication.trim()) {
     query = query.ilike('publication', publication.trim());
   }
 
+  if (discountKind) query = query.eq('discount_kind', discountKind);
+
+  if (sort === 'value') {
+    query = query.order('discount_worth', { ascending: false, nullsFirst: false });
+  }
+
   if (q && q.trim()) {
     const term = `%${q.trim()}%`;
     query = query.or(
@@ -148,7 +319,92 @@ export async function getCouponsByScope({
     .range(offset, offset + limit - 1);
 
   if (error) throw error;
-  return (data ?? []) as Coupon[];
+  // the query already leaves expired rows out; this only catches one expiring mid-request
+  return ((data ?? []) as Coupon[]).filter((c) => !isExpired(c));
+}
+
+/** Same filters/ordering as the server query above, for coupons already on the device. */
+export function filterCoupons(
+  rows: Coupon[],
+  {
+    publication,
+    discountKind,
+    sort,
+    q,
+  }: { publication?: string | null; discountKind?: DiscountKind | null; sort: 'expiry' | 'value'; q?: string }
+) {
+  const pub = publication?.trim().toLowerCase();
+  const term = q?.trim().toLowerCase();
+  const time = (iso?: string | null) => (iso ? Date.parse(iso) || 0 : 0);
+
+  return rows
+    .filter((c) => !pub || (c.publication ?? '').toLowerCase() === pub)
+    .filter((c) => !discountKind || c.discount?.kind === discountKind)
+    .filter(
+      (c) =>
+        !term ||
+        [c.title, c.store, c.publication].some((v) => (v ?? '').toLowerCase().includes(term))
+    )
+    .sort((a, b) => {
+      if (sort === 'value') {
+        const d = (discountWorth(b.discount) ?? -1) - (discountWorth(a.discount) ?? -1);
+        if (d) return d;
+      }
+      // expiry ascending, no-expiry last, then newest first
+      const ea = a.expires_at ? time(a.expires_at) : Infinity;
+      const eb = b.expires_at ? time(b.expires_at) : Infinity;
+      if (ea !== eb) return ea - eb;
+      return time(b.created_at) - time(a.created_at);
+    });
+}
+
+export type NearbyCoupon = Coupon & { distance_m: number };
+
+/** Public coupons within radiusM of a point, nearest first (PostGIS RPC `coupons_near`). */
+export async function getCouponsNear({
+  lat,
+  lng,
+  radiusM,
+  category,
+  publication,
+  independent = false,
+  discountKind,
+  q,
+  limit = 20,
+  offset = 0,
+}: {
+  lat: number;
+  lng: number;
+  radiusM: number;
+  category?: Category | null;
+  publication?: string | null;
+  /** only coupons without a publication */
+  independent?: boolean;
+  discountKind?: DiscountKind | null;
+  q?: string;
+  limit?: number;
+  offset?: number;
+}): Promise<{ rows: NearbyCoupon[]; total: number }> {
+  const { data, error } = await supabase.rpc('coupons_near', {
+    p_lat: lat,
+    p_lng: lng,
+    p_radius_m: radiusM,
+    p_category: category ?? null,
+    p_publication: publication?.trim() || null,
+    p_independent: independent,
+    p_discount_kind: discountKind ?? null,
+    p_q: q?.trim() || null,
+    p_limit: limit,
+    p_offset: offset,
+    p_today: localDateStart(Date.now()), // the server applies the same expiry test as isExpired
+  });
+  if (error) throw error;
+
+  const list = (data ?? []) as { coupon: Coupon; distance_m: number; total_count: number }[];
+  return {
+    rows: list.map((r) => ({ ...r.coupon, distance_m: r.distance_m })),
+    total: list.length ? Number(list[0].total_count) : 0,
+  };
 }
 
 /** Optional: Suggest existing publications for autocomplete */
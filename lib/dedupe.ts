@@ -0,0 +1,137 @@
+// lib/dedupe.ts
+// Duplicate detection before saving a scan. Scanning the same paper coupon twice used to
+// create two rows (and two geofences); now the scan screen checks my coupons and public ones
+// first and offers to merge into mine, save the public one, or save anyway.
+// A match has a compatible expiry (same day, or missing on one side – OCR often misses it) and
+// either the same stable_id or the same store (normalizeName) with the same deal.
+import { normalizeName } from './coupon-parse';
+import {
+  isExpired,
+  updateCoupon,
+  type Coupon,
+  type CouponPatch,
+  type NewCouponInput,
+} from './coupons';
+import { discountValue, type Discount } from './discount';
+import { getLocalMine, isNetworkError } from './local-store';
+import { supabase } from './supabase';
+
+export type DuplicateCandidate = {
+  store: string | null;
+  title: string | null;
+  discount: Discount | null;
+  expires_at: string | null;
+  stable_id: string | null;
+};
+
+export type DuplicateMatch = {
+  coupon: Coupon;
+  mine: boolean;
+};
+
+/** The slug scan.tsx stores as coupons.stable_id. */
+export function stableIdFor(store?: string | null, title?: string | null) {
+  return store && title ? `${store}-${title}`.toLowerCase().replace(/[^a-z0-9]+/g, '-') : null;
+}
+
+function sameStore(a?: string | null, b?: string | null) {
+  const x = normalizeName(a ?? '');
+  const y = normalizeName(b ?? '');
+  if (!x || !y) return false;
+  if (x === y) return true;
+  // "Joe's Pizza" vs "Joe's Pizza & Grill"
+  const [short, long] = x.length < y.length ? [x, y] : [y, x];
+  return short.length >= 4 && long.includes(short);
+}
+
+function sameDeal(a: DuplicateCandidate, b: Coupon) {
+  if (a.discount && b.discount) {
+    return a.discount.kind === b.discount.kind && discountValue(a.discount) === discountValue(b.discount);
+  }
+  if (a.discount || b.discount) return false;
+  const t = normalizeName(a.title ?? '');
+  return !!t && t === normalizeName(b.title ?? '');
+}
+
+function sameExpiry(a?: string | null, b?: string | null) {
+  if (!a || !b) return true;
+  return new Date(a).toDateString() === new Date(b).toDateString();
+}
+
+export function isDuplicateOf(c: DuplicateCandidate, existing: Coupon) {
+  // stable_id is only store + title, so next month's edition of the same coupon shares it
+  if (!sameExpiry(c.expires_at, existing.expires_at)) return false;
+  if (c.stable_id && c.stable_id === existing.stable_id) return true;
+  return sameStore(c.store, existing.store) && sameDeal(c, existing);
+}
+
+// Longest word of the store name; safe to put in a PostgREST or() filter
+function storeSearchWord(store: string | null) {
+  const words = (store ?? '').toLowerCase().match(/[a-z0-9]{3,}/g) ?? [];
+  return words.sort((a, b) => b.length - a.length)[0] ?? null;
+}
+
+async function findPublicDuplicates(uid: string, c: DuplicateCandidate): Promise<Coupon[]> {
+  const filters: string[] = [];
+  if (c.stable_id) filters.push(`stable_id.eq.${c.stable_id}`);
+  const word = storeSearchWord(c.store);
+  if (word) filters.push(`store.ilike.%${word}%`);
+  if (!filters.length) return [];
+
+  const { data, error } = await supabase
+    .from('coupons')
+    .select('*')
+    .eq('visibility', 'public')
+    .neq('owner_id', uid)
+    .or(filters.join(','))
+    .order('created_at', { ascending: false })
+    .limit(50);
+  if (error) {
+    // No connection: only my own coupons get checked
+    if (isNetworkError(error)) return [];
+    throw error;
+  }
+  return ((data ?? []) as Coupon[]).filter((row) => !isExpired(row) && isDuplicateOf(c, row));
+}
+
+/** Matches for a scan, my own coupons first. Expired coupons don't count. */
+export async function findDuplicates(uid: string, c: DuplicateCandidate): Promise<DuplicateMatch[]> {
+  const mine = (await getLocalMine())
+    .filter((row) => !isExpired(row) && isDuplicateOf(c, row))
+    .map((coupon) => ({ coupon, mine: true }));
+
+  let others: DuplicateMatch[] = [];
+  try {
+    others = (await findPublicDuplicates(uid, c)).map((coupon) => ({ coupon, mine: false }));
+  } catch (e: any) {
+    console.warn('[Dedupe] public lookup failed', e?.message);
+  }
+  return [...mine, ...others];
+}
+
+/**
+ * Fold a new scan into a coupon I already have: fills in what the existing one is missing
+ * (deal, terms, expiry, photo, address…) and adds any new barcodes. Nothing is overwritten.
+ */
+export async function mergeIntoCoupon(existing: Coupon, scan: NewCouponInput) {
+  const patch: CouponPatch = {};
+  if (!existing.discount && scan.discount) patch.discount = scan.discount;
+  if (!existing.terms && scan.terms) patch.terms = scan.terms;
+  if (!existing.expires_at && scan.expires_at) patch.expires_at = scan.expires_at;
+  if (!existing.image_url && scan.image_url) patch.image_url = scan.image_url;
+  if (!existing.publication && scan.publication) patch.publication = scan.publication;
+
+  const codes = existing.barcodes ?? [];
+  const seen = new Set(codes.map((b) => `${b.format}:${b.data}`));
+  const added = (scan.barcodes ?? []).filter((b) => !seen.has(`${b.format}:${b.data}`));
+  if (added.length) patch.barcodes = [...codes, ...added];
+
+  const attrs: Record<string, any> = {};
+  for (const [k, v] of Object.entries(scan.attrs ?? {})) {
+    if (v != null && existing.attrs?.[k] == null) attrs[k] = v;
+  }
+  if (Object.keys(attrs).length) patch.attrs = attrs;
+
+  if (!Object.keys(patch).length) return existing;
+  return updateCoupon(existing.id, patch);
+}
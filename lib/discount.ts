@@ -0,0 +1,102 @@
+// lib/discount.ts
+// Typed discount model shared by the parser, the coupons API and the UI.
+
+export type DiscountKind = 'percent' | 'amount' | 'bogo' | 'buy_x_get_y' | 'free_item' | 'tiered';
+
+/** "$value off when you spend min_purchase" */
+export type DiscountTier = { min_purchase: number; value: number };
+
+type DiscountLimits = {
+  min_purchase?: number | null; // spend at least this much
+  max_discount?: number | null; // "up to $20 off"
+};
+
+export type Discount =
+  | (DiscountLimits & { kind: 'percent'; value: number })
+  | (DiscountLimits & { kind: 'amount'; value: number })
+  | (DiscountLimits & { kind: 'bogo' })
+  | (DiscountLimits & { kind: 'buy_x_get_y'; buy: number; get: number; get_percent_off: number })
+  | (DiscountLimits & { kind: 'free_item'; item: string | null })
+  | (DiscountLimits & { kind: 'tiered'; value: number; tiers: DiscountTier[] }); // value = best tier
+
+export const DISCOUNT_KIND_OPTIONS: { value: DiscountKind; label: string }[] = [
+  { value: 'percent', label: '% off' },
+  { value: 'amount', label: '$ off' },
+  { value: 'tiered', label: 'Spend & save' },
+  { value: 'bogo', label: 'BOGO' },
+  { value: 'buy_x_get_y', label: 'Buy X get Y' },
+  { value: 'free_item', label: 'Free item' },
+];
+
+export function formatMoney(v: number) {
+  return Number.isInteger(v) ? `$${v}` : `$${v.toFixed(2)}`;
+}
+
+/** Headline only, e.g. "20% off", "Buy 2 Get 1 Free", "$10 off $50 · $25 off $100" */
+export function formatDiscount(d: Discount): string {
+  switch (d.kind) {
+    case 'percent':
+      return `${d.value}% off`;
+    case 'amount':
+      return `${formatMoney(d.value)} off`;
+    case 'bogo':
+      return 'Buy 1 Get 1 Free';
+    case 'buy_x_get_y':
+      return d.get_percent_off >= 100
+        ? `Buy ${d.buy} Get ${d.get} Free`
+        : `Buy ${d.buy} Get ${d.get} ${d.get_percent_off}% off`;
+    case 'free_item':
+      return d.item ? `Free ${d.item}` : 'Free item';
+    case 'tiered':
+      return d.tiers
+        .map((t) => `${formatMoney(t.value)} off ${formatMoney(t.min_purchase)}`)
+        .join(' · ');
+  }
+}
+
+/** Minimum-purchase / cap fine print, e.g. "Min. $50 · Up to $20 off"; empty when none */
+export function formatDiscountLimits(d: Discount): string {
+  const parts: string[] = [];
+  if (d.min_purchase != null && d.kind !== 'tiered') parts.push(`Min. ${formatMoney(d.min_purchase)}`);
+  if (d.max_discount != null) parts.push(`Up to ${formatMoney(d.max_discount)} off`);
+  return parts.join(' · ');
+}
+
+/** Single-line label used for titles and notification copy */
+export function discountTitle(d: Discount): string {
+  const limits = formatDiscountLimits(d);
+  return limits ? `${formatDiscount(d)} (${limits})` : formatDiscount(d);
+}
+
+/**
+ * The number the coupon headlines with (percent or dollars); null for BOGO / free items.
+ * Mirrors the `discount_value` column the database derives from `discount->value`.
+ */
+export function discountValue(d?: Discount | null): number | null {
+  if (!d || !('value' in d)) return null;
+  return d.value;
+}
+
+// Basket a "% off" is measured against when the coupon has no minimum spend
+const WORTH_BASKET = 50;
+
+/**
+ * Estimated saving in dollars, so "best value" can rank "% off" against "$ off":
+ * dollars for amount / tiered, value% of the minimum spend (or a $50 basket) capped at
+ * max_discount for percent, null when there's no way to tell (BOGO, free items).
+ * Mirrors the `discount_worth` column (public.discount_worth() in the database).
+ */
+export function discountWorth(d?: Discount | null): number | null {
+  if (!d) return null;
+  switch (d.kind) {
+    case 'amount':
+    case 'tiered':
+      return d.value;
+    case 'percent': {
+      const worth = (d.value / 100) * (d.min_purchase ?? WORTH_BASKET);
+      return d.max_discount != null ? Math.min(worth, d.max_discount) : worth;
+    }
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,191 @@
+// lib/expiry-reminders.ts
+// Local notifications a few days before coupons expire. One digest per day: coupons whose
+// reminder lands on the same day share a single notification. The whole schedule is rebuilt
+// whenever the offline store changes (add / edit / delete / save / unsave) or the
+// preferences change, so it never points at a coupon that's gone or has a new date.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { expiryTime, type Coupon } from './coupons';
+import { cancelScheduledNotifications, logAndScheduleNotification } from './geo';
+import { getWatchedCoupons, subscribeLocalStore } from './local-store';
+import { COUPON_CATEGORY, couponLink } from './notification-actions';
+import { getNotifyPrefs } from './notify-prefs';
+
+type ReminderState = {
+  scheduled: { identifier: string; fireAt: number; couponIds: string[]; expiries: string[] }[];
+  sent: Record<string, string>; // couponId → expires_at it was already reminded for
+};
+
+const STATE_KEY = 'snapigo_expiry_reminders';
+const MAX_DIGESTS = 30;      // iOS keeps at most 64 pending local notifications
+const RESCHEDULE_DELAY_MS = 1500;
+
+const DAY_MS = 24 * 3600 * 1000;
+
+async function readState(): Promise<ReminderState> {
+  try {
+    const raw = await AsyncStorage.getItem(STATE_KEY);
+    return raw ? JSON.parse(raw) : { scheduled: [], sent: {} };
+  } catch {
+    return { scheduled: [], sent: {} };
+  }
+}
+
+const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate());
+
+function daysBetween(from: Date, to: Date) {
+  return Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS);
+}
+
+function whenText(days: number) {
+  if (days <= 0) return 'today';
+  if (days === 1) return 'tomorrow';
+  return `in ${days} days`;
+}
+
+/**
+ * When to remind about a coupon: `daysBefore` days ahead at `hour`, or the next
+ * reminder hour if that has already passed. null once there's no slot left before expiry.
+ */
+function reminderTime(expiresAt: Date, daysBefore: number, hour: number, now: Date) {
+  const day = startOfDay(expiresAt);
+  day.setDate(day.getDate() - daysBefore);
+  day.setHours(hour, 0, 0, 0);
+
+  if (day.getTime() <= now.getTime()) {
+    day.setTime(startOfDay(now).getTime());
+    day.setHours(hour, 0, 0, 0);
+    if (day.getTime() <= now.getTime()) day.setDate(day.getDate() + 1);
+  }
+  return day.getTime() < expiresAt.getTime() ? day : null;
+}
+
+function buildDigest(items: { coupon: Coupon; days: number }[]) {
+  const label = (c: Coupon) => c.store?.trim() || c.title?.trim() || 'Coupon';
+
+  if (items.length === 1) {
+    const { coupon, days } = items[0];
+    return {
+      title: `⏰ ${label(coupon)} coupon expires ${whenText(days)}`,
+      body:
+        coupon.store && coupon.title
+          ? `${coupon.title}. Use it before it’s gone!`
+          : 'Use it before it’s gone!',
+    };
+  }
+
+  const sorted = [...items].sort((a, b) => a.days - b.days);
+  const shown = sorted.slice(0, 3).map((i) => `${label(i.coupon)} (${whenText(i.days)})`);
+  const more = sorted.length > 3 ? `, +${sorted.length - 3} more` : '';
+  return {
+    title: `⏰ ${items.length} coupons expiring soon`,
+    body: `${shown.join(', ')}${more}`,
+  };
+}
+
+/** Cancel every pending reminder and plan them again from the current coupons + prefs. */
+export async function scheduleExpiryReminders() {
+  const state = await readState();
+  const now = new Date();
+
+  // Anything that already went out counts as reminded (until its expiry date changes)
+  for (const s of state.scheduled) {
+    if (s.fireAt > now.getTime()) continue;
+    s.couponIds.forEach((id, i) => (state.sent[id] = s.expiries[i]));
+  }
+  await cancelScheduledNotifications(
+    state.scheduled.filter((s) => s.fireAt > now.getTime()).map((s) => s.identifier)
+  );
+  state.scheduled = [];
+
+  const prefs = await getNotifyPrefs();
+  const coupons = await getWatchedCoupons();
+  const live = new Set(coupons.map((c) => c.id));
+  for (const id of Object.keys(state.sent)) if (!live.has(id)) delete state.sent[id];
+
+  if (prefs.expiryReminders.enabled) {
+    const { daysBefore, hour } = prefs.expiryReminders;
+    const byDay = new Map<number, { coupon: Coupon; days: number }[]>();
+
+    for (const c of coupons) {
+      if (!c.expires_at || state.sent[c.id] === c.expires_at) continue;
+      // same reading of the date as isExpired: a date-only expiry lasts to the end of that day
+      const t = expiryTime(c.expires_at);
+      if (t == null || t <= now.getTime()) continue;
+      const expires = new Date(t);
+
+      const at = reminderTime(expires, daysBefore, hour, now);
+      if (!at) continue;
+      const list = byDay.get(at.getTime()) ?? [];
+      list.push({ coupon: c, days: daysBetween(at, expires) });
+      byDay.set(at.getTime(), list);
+    }
+
+    const days = Array.from(byDay.keys()).sort((a, b) => a - b).slice(0, MAX_DIGESTS);
+    for (const fireAt of days) {
+      const items = byDay.get(fireAt)!;
+      const { title, body } = buildDigest(items);
+      const couponIds = items.map((i) => i.coupon.id);
+      const single = items.length === 1 ? items[0].coupon : null;
+      try {
+        const identifier = await logAndScheduleNotification({
+          title,
+          body,
+          data: {
+            kind: 'expiry',
+            couponId: single?.id ?? null,
+            couponIds,
+            storeName: single?.store ?? null,
+            url: single ? couponLink(single.id) : null,
+          },
+          categoryId: single ? COUPON_CATEGORY : undefined,
+          color: '#f97316',
+          at: new Date(fireAt),
+          identifier: `expiry_${fireAt}`,
+        });
+        state.scheduled.push({
+          identifier,
+          fireAt,
+          couponIds,
+          expiries: items.map((i) => i.coupon.expires_at!),
+        });
+      } catch (e: any) {
+        console.warn('[ExpiryReminders] schedule failed', e?.message);
+      }
+    }
+  }
+
+  await AsyncStorage.setItem(STATE_KEY, JSON.stringify(state));
+}
+
+let started = false;
+let timer: ReturnType<typeof setTimeout> | null = null;
+let running: Promise<void> = Promise.resolve();
+
+/** Rebuild soon; bursts of store changes (a sync, a batch of edits) collapse into one pass. */
+export function requestExpiryReschedule() {
+  if (timer) clearTimeout(timer);
+  timer = setTimeout(() => {
+    timer = null;
+    running = running
+      .then(scheduleExpiryReminders)
+      .catch((e) => console.warn('[ExpiryReminders] reschedule failed', e?.message));
+  }, RESCHEDULE_DELAY_MS);
+}
+
+/** Keep reminders in step with the offline coupon store. Call once. */
+export function startExpiryReminders() {
+  if (started) return;
+  started = true;
+  requestExpiryReschedule();
+  subscribeLocalStore(requestExpiryReschedule);
+}
+
+/** Cancel every pending reminder and forget what was sent. Sign-out. */
+export async function clearExpiryReminders() {
+  if (timer) clearTimeout(timer);
+  timer = null;
+  await running;
+  const state = await readState();
+  await cancelScheduledNotifications(state.scheduled.map((s) => s.identifier));
+  await AsyncStorage.removeItem(STATE_KEY);
+}
@@ -4,14 +4,32 @@
 // - Registers regions from your Supabase coupons table
 // - Sends local notifications when you enter a saved place
 // - Includes helpers for testing and "notify now if already inside"
-// - NOW ALSO logs notifications into an in-app inbox + unread count
+// - NOW ALSO logs notifications into the in-app inbox (lib/inbox.ts)
 // - NEW: Includes both owned coupons and saved public coupons for geofencing
+// - Coupons come from the offline store (lib/local-store.ts), so no signal is fine
+// - Rolling slot scheduler: only the MAX_REGIONS best coupons are registered, plus a
+//   "re-plan" boundary around where we ranked them; leaving it re-ranks the full set
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Location from 'expo-location';
 import * as Notifications from 'expo-notifications';
 import * as TaskManager from 'expo-task-manager';
-import { supabase } from './supabase';
+import { Platform } from 'react-native';
+import { backfillCouponGeo, isExpired, type Category } from './coupons';
+import { geocodeAddress } from './geocode';
+import { addInboxItem, addPendingInboxItem, dropPendingInboxItems } from './inbox';
+import {
+  getLocalCoupon,
+  getLocalUid,
+  getWatchedCoupons,
+  hasLocalSnapshot,
+  isCouponSpent,
+  syncNow,
+} from './local-store';
+import { getMerchantLocations } from './merchants';
+import { COUPON_CATEGORY, couponLink } from './notification-actions';
+import { checkNotifyPrefs, getNotifyPrefs, type NotifyContext } from './notify-prefs';
+import { isLocalId } from './outbox';
 
 /* ----------------------------------------------------------------------------
  * Types
@@ -27,38 +45,50 @@ type Store = {
 
 type Row = {
   id: string;
+  owner_id?: string;
+  merchant_id?: string | null;
+  group_id?: string | null;
+  category?: Category | null;
   title?: string | null;
   expires_at?: string | null;
   store?: string | null;   // store name (optional)
   attrs?: any;             // expects attrs.address and optional attrs.geo.{lat,lng}
 };
 
-type InboxItem = {
+type GeoCoupon = {
   id: string;
-  title: string;
-  body: string;
-  createdAt: number;
-  read: boolean;
-  data?: any;
+  title?: string;
+  valid_to?: string;
+  store: Store;
+  merchantId?: string; // valid at every branch; also the notification throttle key
+  category?: Category;  // for muted-category preferences
+  groupId?: string;    // group wallet of another member's coupon, for per-group mute
+  slot?: string;       // region id when expanded per branch (shared by the merchant's coupons)
+};
+
+type GeoPlan = {
+  anchor: { lat: number; lng: number };
+  radius: number; // re-plan boundary; 0 = every candidate fits, nothing to re-rank
+  at: number;
 };
 
 /* ----------------------------------------------------------------------------
  * Constants
  * --------------------------------------------------------------------------*/
 const TASK = 'SNAPIGO_GEOFENCE_TASK';           // Geofencing task name
+const MOVE_TASK = 'SNAPIGO_LOCATION_TASK';      // Significant-change location updates (iOS)
 const META_KEY = 'snapigo_region_meta';         // Stored notif metadata per region
 const STATE_KEY = 'snapigo_notif_state';        // Anti-spam throttle state
-const MAX_REGIONS = 18;                         // Keep under iOS ~20 region cap
-const DAILY_CAP = 50;                           // Max notifications per day
-const COOLDOWN_H = 0.01;                        // Per-coupon cooldown (hours)
+const CANDIDATES_KEY = 'snapigo_geo_candidates'; // Every coupon with coords, for re-ranking
+const PLAN_KEY = 'snapigo_geo_plan';            // Anchor + boundary of the current ranking
+const MAX_REGIONS = 18;                         // Keep under iOS ~20 region cap (+1 boundary)
+const REPLAN_ID = '__SNAPIGO_REPLAN__';         // Boundary region identifier
+const REPLAN_MIN_M = 1000;                      // Boundary radius limits
+const REPLAN_MAX_M = 5000;
 const MIN_RADIUS = 150;                         // iOS geofencing is coarse; keep >=150m
 const MAX_RADIUS = 800;                         // Don't spam huge circles
 const DEFAULT_RADIUS = 250;                     // Fallback radius when not provided
 
-// 🔴 Shared keys for in-app "inbox" + unread badge
-export const INBOX_KEY = 'snapigo_inbox';
-export const UNREAD_KEY = 'snapigo_unread_count';
-
 /* ----------------------------------------------------------------------------
  * Emoji + catchy notification copy helpers
  * --------------------------------------------------------------------------*/
@@ -141,61 +171,66 @@ function buildNearbyNotifContent(
   return { title, body, color };
 }
 
+// Deep link + action buttons for a coupon alert (the test spot has no coupon, so neither)
+function couponNotifExtras(couponId?: string | null, storeName?: string | null) {
+  if (!couponId) return { data: { couponId: null } };
+  return {
+    data: { couponId, storeName: storeName ?? null, url: couponLink(couponId) },
+    categoryId: COUPON_CATEGORY,
+  };
+}
+
 /* ----------------------------------------------------------------------------
- * Inbox helpers (log notifications for Notify tab)
+ * Send + log (inbox lives in lib/inbox.ts)
  * --------------------------------------------------------------------------*/
 
-async function appendNotificationToInbox(args: {
-  title: string;
-  body: string;
-  data?: any;
-}) {
-  try {
-    const raw = await AsyncStorage.getItem(INBOX_KEY);
-    let inbox: InboxItem[] = raw ? JSON.parse(raw) : [];
-
-    const item: InboxItem = {
-      id: `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
-      title: args.title,
-      body: args.body,
-      createdAt: Date.now(),
-      read: false,
-      data: args.data ?? null,
-    };
-
-    // newest first
-    inbox.unshift(item);
-    // keep last 50
-    if (inbox.length > 50) inbox = inbox.slice(0, 50);
-
-    await AsyncStorage.setItem(INBOX_KEY, JSON.stringify(inbox));
-
-    const rawCount = await AsyncStorage.getItem(UNREAD_KEY);
-    const prev = rawCount ? parseInt(rawCount, 10) || 0 : 0;
-    await AsyncStorage.setItem(UNREAD_KEY, String(prev + 1));
-  } catch {
-    // ignore logging errors
-  }
-}
-
-// Use this everywhere to send + log notifications
+// Use this everywhere to send + log notifications.
+// With `at`, the notification is scheduled for later and only logged once that time has passed.
 export async function logAndScheduleNotification(args: {
   title: string;
   body: string;
   data?: any;
   color?: string;
-}) {
-  await Notifications.scheduleNotificationAsync({
+  categoryId?: string; // action buttons, see notification-actions.ts
+  at?: Date;
+  identifier?: string;
+}): Promise<string> {
+  const identifier = await Notifications.scheduleNotificationAsync({
+    identifier: args.identifier,
     content: {
       title: args.title,
       body: args.body,
       data: args.data,
       color: args.color,
+      categoryIdentifier: args.categoryId,
     },
-    trigger: null,
+    trigger: args.at
+      ? { type: Notifications.SchedulableTriggerInputTypes.DATE, date: args.at }
+      : null,
+  });
+
+  if (!args.at) {
+    await addInboxItem({ id: identifier, title: args.title, body: args.body, data: args.data });
+    return identifier;
+  }
+
+  await addPendingInboxItem({
+    identifier,
+    fireAt: args.at.getTime(),
+    title: args.title,
+    body: args.body,
+    data: args.data ?? null,
   });
+  return identifier;
+}
 
-  await appendNotificationToInbox(args);
+/** Cancel notifications scheduled with `at` (and forget their pending inbox entries). */
+export async function cancelScheduledNotifications(identifiers: string[]) {
+  if (!identifiers.length) return;
+  await Promise.all(
+    identifiers.map((id) => Notifications.cancelScheduledNotificationAsync(id).catch(() => {}))
+  );
+  await dropPendingInboxItems(identifiers);
 }
 
 /* ----------------------------------------------------------------------------
@@ -223,6 +258,16 @@ if (!(globalThis as any).__SNAPIGO_TASK_DEFINED__) {
     if (error) return;
 
     const { eventType, region } = (data as any) || {};
+
+    // Left the area we ranked from → re-rank the full coupon set around here
+    if (region?.identifier === REPLAN_ID) {
+      if (eventType === Location.GeofencingEventType.Exit) {
+        const here = await currentPosition();
+        if (here) await replanFrom(here);
+      }
+      return;
+    }
+
     if (eventType !== Location.GeofencingEventType.Enter) return;
 
     // Retrieve the message we saved for this region ID when we registered it
@@ -231,8 +276,26 @@ if (!(globalThis as any).__SNAPIGO_TASK_DEFINED__) {
     const entry = meta[region?.identifier] || {};
     const key = entry.merchantId || entry.couponId || region?.identifier; // throttle key
 
-    // Respect anti-spam limits (daily cap & per-key cooldown)
-    if (!(await allowNotify(key))) return;
+    // Prefer the cached coupon over what we stored at registration time (offline-safe)
+    if (entry.couponId) {
+      const local = await getLocalCoupon(entry.couponId);
+      if (!local && (await hasLocalSnapshot())) return; // deleted / unsaved since registering
+      if (await isCouponSpent(entry.couponId)) return; // single-use and already redeemed
+      if (local) {
+        entry.storeName = local.store ?? entry.storeName;
+        entry.dealTitle = local.title ?? entry.dealTitle;
+        entry.validTo = local.expires_at ?? entry.validTo;
+        entry.category = local.category ?? entry.category;
+        // muting a group silences other members' coupons, never my own
+        entry.groupId = local.owner_id !== (await getLocalUid()) ? local.group_id ?? null : null;
+      }
+    }
+
+    if (isExpired({ expires_at: entry.validTo })) return; // expired since we registered it
+
+    // Respect the user's notification preferences (quiet hours, mutes, daily cap, cooldown)
+    const ctx = { category: entry.category, storeName: entry.storeName, groupId: entry.groupId };
+    if (!(await allowNotify(key, ctx))) return;
 
     // Build catchy, coupon-specific copy
     const { title, body, color } = buildNearbyNotifContent(
@@ -244,7 +307,7 @@ if (!(globalThis as any).__SNAPIGO_TASK_DEFINED__) {
     await logAndScheduleNotification({
       title,
       body,
-      data: { couponId: entry.couponId || null },
+      ...couponNotifExtras(entry.couponId, entry.storeName),
       color,
     });
 
@@ -254,10 +317,70 @@ if (!(globalThis as any).__SNAPIGO_TASK_DEFINED__) {
   (globalThis as any).__SNAPIGO_TASK_DEFINED__ = true;
 }
 
+// Backup for a missed boundary exit: re-rank once we're past the boundary
+if (!(globalThis as any).__SNAPIGO_MOVE_TASK_DEFINED__) {
+  TaskManager.defineTask(MOVE_TASK, async ({ data, error }) => {
+    if (error) return;
+    const locations = ((data as any)?.locations ?? []) as Location.LocationObject[];
+    const last = locations[locations.length - 1];
+    if (!last) return;
+    await maybeReplan({ lat: last.coords.latitude, lng: last.coords.longitude });
+  });
+
+  (globalThis as any).__SNAPIGO_MOVE_TASK_DEFINED__ = true;
+}
+
 /* ----------------------------------------------------------------------------
  * Public API
  * --------------------------------------------------------------------------*/
 
+/**
+ * Owned + saved + group wallet coupons for geofencing, read from the offline store.
+ * Other members' coupons in muted groups are left out so they don't take a geofence slot;
+ * my own coupons stay whatever group they're in.
+ * Tries a quick sync first; with no signal the cached copy is used as-is.
+ * Rows without attrs.geo get coordinates from the geocode cache (lib/geocode.ts), which
+ * keeps them so the address is only resolved once. My own synced coupons have them written
+ * back by the server (backfillCouponGeo) without counting as an edit, so coupons_near finds them.
+ */
+async function loadWatchedRows(ownerId: string): Promise<Row[]> {
+  await syncNow(); // never throws; offline just keeps the cache
+  const rows: Row[] = await getWatchedCoupons();
+  const { mutedGroups } = await getNotifyPrefs();
+
+  const out: Row[] = [];
+  for (const row of rows) {
+    if (isExpired(row)) continue; // archived: no geofence slot, not counted as nearby
+    if (row.group_id && row.owner_id !== ownerId && mutedGroups.includes(row.group_id)) continue;
+    const attrs = row.attrs || {};
+    const address = attrs.address || attrs.store?.address;
+    const hasCoords = (attrs.geo?.lat ?? attrs.lat) != null && (attrs.geo?.lng ?? attrs.lng) != null;
+    if (hasCoords || !address) {
+      out.push(row);
+      continue;
+    }
+
+    let geo: { lat: number; lng: number } | null = null;
+    try {
+      geo = await geocodeAddress(address);
+    } catch {
+      // geocoder unavailable; try again next time
+    }
+    if (!geo) {
+      out.push(row);
+      continue;
+    }
+
+    out.push({ ...row, attrs: { ...attrs, geo } });
+    if (row.owner_id === ownerId && !isLocalId(row.id)) {
+      backfillCouponGeo(row.id, geo).catch((e) =>
+        console.warn('[geo] attrs.geo backfill failed', row.id, e?.message)
+      );
+    }
+  }
+  return out;
+}
+
 export async function initGeo() {
   const n = await Notifications.requestPermissionsAsync();
   if (n.status !== 'granted') return false;
@@ -279,134 +402,101 @@ export async function initGeo() {
  * and register geofences for the merged set.
  */
 export async function registerFromSupabase(ownerId: string) {
-  // 1) Owned coupons
-  const { data: owned, error: ownedErr } = await supabase
-    .from('coupons')
-    .select('id,title,expires_at,store,attrs')
-    .eq('owner_id', ownerId)
-    .order('created_at', { ascending: false })
-    .limit(200);
-
-  if (ownedErr) throw ownedErr;
-
-  // 2) Saved coupons (via coupon_saves → coupons)
-  const { data: savedRows, error: savedErr } = await supabase
-    .from('coupon_saves')
-    .select('coupon:coupons ( id,title,expires_at,store,attrs )')
-    .eq('user_id', ownerId)
-    .order('created_at', { ascending: false })
-    .limit(400);
-
-  if (savedErr) throw savedErr;
-
-  // 3) Merge + dedupe by coupon id
-  const byId = new Map<string, any>();
-
-  for (const row of owned ?? []) {
-    byId.set(row.id, row);
-  }
+  // 1) Owned + saved coupons, from the offline store (no network needed)
+  const rows = await loadWatchedRows(ownerId);
 
-  for (const row of savedRows ?? []) {
-    const c = (row as any).coupon;
-    if (c && !byId.has(c.id)) {
-      byId.set(c.id, c);
-    }
-  }
+  // 2) Convert into the shape registerFromCoupons expects
+  return registerFromCoupons(rows.map((row) => toGeoCoupon(row, ownerId)));
+}
 
-  // 4) Convert into the shape registerFromCoupons expects
-  const coupons = Array.from(byId.values()).map((row: any) => {
-    const attrs = row.attrs || {};
-    const storeObj: Store = {
+function toGeoCoupon(row: Row, uid: string | null): GeoCoupon {
+  const attrs = row.attrs || {};
+  return {
+    id: row.id,
+    title: row.title || undefined,
+    valid_to: row.expires_at || undefined,
+    merchantId: row.merchant_id || undefined,
+    category: row.category || undefined,
+    groupId: (row.owner_id !== uid && row.group_id) || undefined,
+    store: {
       name: row.store || attrs.store?.name,
       address: attrs.address || attrs.store?.address,
       lat: attrs.geo?.lat ?? attrs.lat,
       lng: attrs.geo?.lng ?? attrs.lng,
       default_radius_m: attrs.default_radius_m,
       radius_m: attrs.radius_m,
-    };
-    return {
-      id: row.id,
-      title: row.title || undefined,
-      valid_to: row.expires_at || undefined,
-      store: storeObj,
-    };
-  });
-
-  return registerFromCoupons(coupons);
+    },
+  };
 }
 
 /**
- * Register geofences from an in-memory list:
- * [{ id, title, valid_to, store: { address | lat | lng | radius } }, ...]
+ * One entry per place a coupon can be used: every known branch for coupons with a merchantId,
+ * otherwise the coupon's own coordinates (geocoding the address if needed). Coupons with
+ * no place are dropped.
  */
-export async function registerFromCoupons(
-  coupons: Array<{ id: string; title?: string; valid_to?: string; store: Store }>
-) {
-  const pos = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
-  const anchor = { lat: pos.coords.latitude, lng: pos.coords.longitude };
+async function placesFor(coupons: GeoCoupon[]): Promise<GeoCoupon[]> {
+  const withCoords: GeoCoupon[] = [];
 
-  const withCoords: Array<{
-    id: string; title?: string; valid_to?: string;
-    store: Required<Pick<Store, 'lat' | 'lng'>> & Store
-  }> = [];
+  const branches = await getMerchantLocations(
+    coupons.map((c) => c.merchantId).filter((id): id is string => !!id)
+  );
 
   for (const c of coupons) {
+    const locs = c.merchantId ? branches[c.merchantId] ?? [] : [];
+    if (locs.length) {
+      for (const loc of locs) {
+        withCoords.push({
+          ...c,
+          slot: `${c.merchantId}@${loc.id}`,
+          store: { ...c.store, address: loc.address, lat: loc.lat, lng: loc.lng },
+        });
+      }
+      continue;
+    }
+
     let lat = c.store.lat, lng = c.store.lng;
 
     if ((lat == null || lng == null) && c.store.address) {
       try {
-        const res = await Location.geocodeAsync(c.store.address);
-        if (res?.length) { lat = res[0].latitude; lng = res[0].longitude; }
+        const g = await geocodeAddress(c.store.address);
+        if (g) { lat = g.lat; lng = g.lng; }
       } catch {
         // ignore geocoding errors; coupon will be skipped if coords remain missing
       }
     }
 
     if (lat != null && lng != null) {
-      withCoords.push({ ...c, store: { ...c.store, lat, lng } as any });
+      withCoords.push({ ...c, store: { ...c.store, lat, lng } });
     }
   }
 
-  const scored = withCoords
-    .map((c) => {
-      const dist = haversine(anchor.lat, anchor.lng, c.store.lat!, c.store.lng!);
-      const expBoost = Math.max(0, 1 - daysUntil(c.valid_to) / 14);
-      return { c, score: dist - expBoost * 500 };
-    })
-    .sort((a, b) => a.score - b.score)
-    .slice(0, MAX_REGIONS);
+  return withCoords;
+}
 
-  const regions = scored.map(({ c }) => ({
-    identifier: c.id,
-    latitude: c.store.lat!,
-    longitude: c.store.lng!,
-    radius: clampRadius(c.store.default_radius_m ?? c.store.radius_m ?? DEFAULT_RADIUS),
-    notifyOnEnter: true,
-    notifyOnExit: false,
-  }));
+/**
+ * Register geofences from an in-memory list:
+ * [{ id, title, valid_to, store: { address | lat | lng | radius } }, ...]
+ * Coupons with a merchantId become one candidate per known branch.
+ * The whole list is kept for re-ranking; only the best MAX_REGIONS are registered at a time.
+ */
+export async function registerFromCoupons(coupons: GeoCoupon[]) {
+  const pos = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
+  const anchor = { lat: pos.coords.latitude, lng: pos.coords.longitude };
 
-  const meta: Record<string, any> = {};
-  scored.forEach(({ c }) => {
-    meta[c.id] = {
-      couponId: c.id,
-      storeName: c.store.name ?? null,
-      dealTitle: c.title ?? null,
-      validTo: c.valid_to ?? null,
-    };
-  });
+  const withCoords = await placesFor(coupons);
 
-  try { await Location.stopGeofencingAsync(TASK); } catch {}
-  await AsyncStorage.setItem(META_KEY, JSON.stringify(meta));
-  await Location.startGeofencingAsync(TASK, regions);
+  await AsyncStorage.setItem(CANDIDATES_KEY, JSON.stringify(withCoords));
+  const { regions, meta } = await applyPlan(anchor, withCoords);
 
   // If you're already inside any region right now, send ONE immediate notification
   for (const r of regions) {
     const dist = haversine(anchor.lat, anchor.lng, r.latitude, r.longitude);
     if (dist <= r.radius) {
-      const entry = meta[r.identifier];
+      const entry = meta[r.identifier!];
       const key = entry.merchantId || entry.couponId || r.identifier;
 
-      if (await allowNotify(key)) {
+      const ctx = { category: entry.category, storeName: entry.storeName, groupId: entry.groupId };
+      if (await allowNotify(key, ctx)) {
         const { title, body, color } = buildNearbyNotifContent(
           entry.storeName,
           entry.dealTitle,
@@ -416,7 +506,7 @@ export async function registerFromCoupons(
         await logAndScheduleNotification({
           title,
           body,
-          data: { couponId: entry.couponId || null },
+          ...couponNotifExtras(entry.couponId, entry.storeName),
           color,
         });
 
@@ -441,6 +531,8 @@ export async function registerSingleTestHere(
   const radius = clampRadius(radiusM);
 
   try { await Location.stopGeofencingAsync(TASK); } catch {}
+  await stopMoveUpdates();
+  await AsyncStorage.removeItem(PLAN_KEY);
   await AsyncStorage.setItem(
     META_KEY,
     JSON.stringify({
@@ -485,90 +577,18 @@ export async function notifyOnceIfInsideNowFromSupabase(
   ownerId: string,
   fallbackRadiusM = 400
 ) {
-  // 1) Owned coupons
-  const { data: owned, error: ownedErr } = await supabase
-    .from('coupons')
-    .select('id,title,expires_at,store,attrs')
-    .eq('owner_id', ownerId)
-    .order('created_at', { ascending: false })
-    .limit(200);
-
-  if (ownedErr) throw ownedErr;
-
-  // 2) Saved coupons
-  const { data: savedRows, error: savedErr } = await supabase
-    .from('coupon_saves')
-    .select('coupon:coupons ( id,title,expires_at,store,attrs )')
-    .eq('user_id', ownerId)
-    .order('created_at', { ascending: false })
-    .limit(400);
-
-  if (savedErr) throw savedErr;
-
-  // 3) Merge + dedupe into a single array "rows"
-  const byId = new Map<string, any>();
-
-  for (const row of owned ?? []) {
-    byId.set(row.id, row);
-  }
-
-  for (const row of savedRows ?? []) {
-    const c = (row as any).coupon;
-    if (c && !byId.has(c.id)) {
-      byId.set(c.id, c);
-    }
-  }
-
-  const data = Array.from(byId.values());
+  // 1) Owned + saved coupons (cached copy when offline), one entry per branch
+  const rows = await loadWatchedRows(ownerId);
+  const withCoords = await placesFor(rows.map((row) => toGeoCoupon(row, ownerId)));
 
   const pos = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
   const me = { lat: pos.coords.latitude, lng: pos.coords.longitude };
 
-  type C = {
-    id: string; title?: string; valid_to?: string | null;
-    store: {
-      name?: string;
-      address?: string;
-      lat: number;
-      lng: number;
-      radius_m?: number;
-      default_radius_m?: number;
-    };
-  };
-  const withCoords: C[] = [];
-
-  for (const row of data || []) {
-    const attrs = (row as any).attrs || {};
-    let lat = attrs.geo?.lat ?? attrs.lat;
-    let lng = attrs.geo?.lng ?? attrs.lng;
-    const address = attrs.address || attrs.store?.address;
-    const name = (row as any).store || attrs.store?.name;
-
-    if ((lat == null || lng == null) && address) {
-      try {
-        const r = await Location.geocodeAsync(address);
-        if (r?.length) { lat = r[0].latitude; lng = r[0].longitude; }
-      } catch {}
-    }
-
-    if (lat != null && lng != null) {
-      withCoords.push({
-        id: (row as any).id,
-        title: (row as any).title || undefined,
-        valid_to: (row as any).expires_at || undefined,
-        store: {
-          name, address, lat, lng,
-          radius_m: attrs.radius_m, default_radius_m: attrs.default_radius_m
-        }
-      });
-    }
-  }
-
   if (!withCoords.length) return { fired: false, reason: 'no_coords', nearestDistanceM: undefined };
 
-  let best: { c: C; dist: number; radius: number } | null = null;
+  let best: { c: GeoCoupon; dist: number; radius: number } | null = null;
   for (const c of withCoords) {
-    const dist = haversine(me.lat, me.lng, c.store.lat, c.store.lng);
+    const dist = haversine(me.lat, me.lng, c.store.lat!, c.store.lng!);
     const r = clampRadius(c.store.default_radius_m ?? c.store.radius_m ?? fallbackRadiusM);
     if (!best || dist < best.dist) best = { c, dist, radius: r };
   }
@@ -582,8 +602,11 @@ export async function notifyOnceIfInsideNowFromSupabase(
       dealTitle: best.c.title ?? null,
       validTo: best.c.valid_to ?? null,
     };
+    // same key as the geofence task, so one merchant's branches share a cooldown
+    const key = best.c.merchantId || entry.couponId;
 
-    if (await allowNotify(entry.couponId)) {
+    const ctx = { category: best.c.category, storeName: entry.storeName, groupId: best.c.groupId };
+    if (await allowNotify(key, ctx)) {
       const { title, body, color } = buildNearbyNotifContent(
         entry.storeName,
         entry.dealTitle,
@@ -593,11 +616,11 @@ export async function notifyOnceIfInsideNowFromSupabase(
       await logAndScheduleNotification({
         title,
         body,
-        data: { couponId: entry.couponId },
+        ...couponNotifExtras(entry.couponId, entry.storeName),
         color,
       });
 
-      await markNotified(entry.couponId);
+      await markNotified(key);
       return {
         fired: true,
         id: best.c.id,
@@ -620,41 +643,9 @@ export async function countNearbyCoupons(
   ownerId: string,
   fallbackRadiusM = 400
 ): Promise<{ countInside: number; nearestDistanceM?: number }> {
-  // 1) Owned
-  const { data: owned, error: ownedErr } = await supabase
-    .from('coupons')
-    .select('id,title,expires_at,store,attrs')
-    .eq('owner_id', ownerId)
-    .order('created_at', { ascending: false })
-    .limit(200);
-
-  if (ownedErr) throw ownedErr;
-
-  // 2) Saved
-  const { data: savedRows, error: savedErr } = await supabase
-    .from('coupon_saves')
-    .select('coupon:coupons ( id,title,expires_at,store,attrs )')
-    .eq('user_id', ownerId)
-    .order('created_at', { ascending: false })
-    .limit(400);
-
-  if (savedErr) throw savedErr;
-
-  // 3) Merge + dedupe
-  const byId = new Map<string, any>();
-
-  for (const row of owned ?? []) {
-    byId.set(row.id, row);
-  }
-
-  for (const row of savedRows ?? []) {
-    const c = (row as any).coupon;
-    if (c && !byId.has(c.id)) {
-      byId.set(c.id, c);
-    }
-  }
-
-  const data = Array.from(byId.values());
+  // 1) Owned + saved coupons (cached copy when offline), one entry per branch
+  const rows = await loadWatchedRows(ownerId);
+  const withCoords = await placesFor(rows.map((row) => toGeoCoupon(row, ownerId)));
 
   // Get current location
   const pos = await Location.getCurrentPositionAsync({
@@ -662,67 +653,15 @@ export async function countNearbyCoupons(
   });
   const me = { lat: pos.coords.latitude, lng: pos.coords.longitude };
 
-  type C = {
-    id: string;
-    title?: string;
-    valid_to?: string | null;
-    store: {
-      name?: string;
-      address?: string;
-      lat: number;
-      lng: number;
-      radius_m?: number;
-      default_radius_m?: number;
-    };
-  };
-
-  const withCoords: C[] = [];
-
-  for (const row of data || []) {
-    const attrs = (row as any).attrs || {};
-    let lat = attrs.geo?.lat ?? attrs.lat;
-    let lng = attrs.geo?.lng ?? attrs.lng;
-    const address = attrs.address || attrs.store?.address;
-    const name = (row as any).store || attrs.store?.name;
-
-    if ((lat == null || lng == null) && address) {
-      try {
-        const r = await Location.geocodeAsync(address);
-        if (r?.length) {
-          lat = r[0].latitude;
-          lng = r[0].longitude;
-        }
-      } catch {
-        // ignore geocoding errors
-      }
-    }
-
-    if (lat != null && lng != null) {
-      withCoords.push({
-        id: (row as any).id,
-        title: (row as any).title || undefined,
-        valid_to: (row as any).expires_at || undefined,
-        store: {
-          name,
-          address,
-          lat,
-          lng,
-          radius_m: attrs.radius_m,
-          default_radius_m: attrs.default_radius_m,
-        },
-      });
-    }
-  }
-
   if (!withCoords.length) {
     return { countInside: 0, nearestDistanceM: undefined };
   }
 
-  let countInside = 0;
+  const inside = new Set<string>(); // coupon ids; a coupon counts once however many branches
   let nearest: number | undefined = undefined;
 
   for (const c of withCoords) {
-    const dist = haversine(me.lat, me.lng, c.store.lat, c.store.lng);
+    const dist = haversine(me.lat, me.lng, c.store.lat!, c.store.lng!);
     const r = clampRadius(
       c.store.default_radius_m ?? c.store.radius_m ?? fallbackRadiusM
     );
@@ -732,12 +671,12 @@ export async function countNearbyCoupons(
     }
 
     if (dist <= r) {
-      countInside += 1;
+      inside.add(c.id);
     }
   }
 
   return {
-    countInside,
+    countInside: inside.size,
     nearestDistanceM: nearest != null ? Math.round(nearest) : undefined,
   };
 }
@@ -747,6 +686,171 @@ export async function countNearbyCoupons(
  */
 export async function stopAllGeofences() {
   try { await Location.stopGeofencingAsync(TASK); } catch {}
+  await stopMoveUpdates();
+  await AsyncStorage.multiRemove([PLAN_KEY, CANDIDATES_KEY, META_KEY]);
+}
+
+/* ----------------------------------------------------------------------------
+ * Slot scheduler
+ * - Ranks every candidate against an anchor and registers the best MAX_REGIONS
+ * - Adds a boundary region around the anchor; exiting it (or a significant
+ *   location change past it) re-ranks from the new position
+ * --------------------------------------------------------------------------*/
+
+async function applyPlan(anchor: { lat: number; lng: number }, candidates: GeoCoupon[]) {
+  const ranked = candidates
+    .map((c) => {
+      const dist = haversine(anchor.lat, anchor.lng, c.store.lat!, c.store.lng!);
+      const expBoost = Math.max(0, 1 - daysUntil(c.valid_to) / 14);
+      return { c, dist, score: dist - expBoost * 500 };
+    })
+    .sort((a, b) => a.score - b.score);
+
+  // Several coupons for one merchant share its branch regions; the best-ranked one wins the slot
+  const seen = new Set<string>();
+  const unique = ranked.filter(({ c }) => {
+    const id = c.slot ?? c.id;
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+  const chosen = unique.slice(0, MAX_REGIONS);
+
+  const regions: Location.LocationRegion[] = chosen.map(({ c }) => ({
+    identifier: c.slot ?? c.id,
+    latitude: c.store.lat!,
+    longitude: c.store.lng!,
+    radius: clampRadius(c.store.default_radius_m ?? c.store.radius_m ?? DEFAULT_RADIUS),
+    notifyOnEnter: true,
+    notifyOnExit: false,
+  }));
+
+  const meta: Record<string, any> = {};
+  chosen.forEach(({ c }) => {
+    meta[c.slot ?? c.id] = {
+      couponId: c.id,
+      merchantId: c.merchantId ?? null,
+      category: c.category ?? null,
+      groupId: c.groupId ?? null,
+      storeName: c.store.name ?? null,
+      dealTitle: c.title ?? null,
+      validTo: c.valid_to ?? null,
+    };
+  });
+
+  // Halfway to the farthest chosen coupon: beyond that, coupons we skipped may be closer
+  let radius = 0;
+  if (unique.length > MAX_REGIONS) {
+    const farthest = Math.max(...chosen.map((x) => x.dist));
+    radius = Math.max(REPLAN_MIN_M, Math.min(REPLAN_MAX_M, farthest / 2));
+  }
+  const boundary: Location.LocationRegion[] = radius
+    ? [{
+        identifier: REPLAN_ID,
+        latitude: anchor.lat,
+        longitude: anchor.lng,
+        radius,
+        notifyOnEnter: false,
+        notifyOnExit: true,
+      }]
+    : [];
+
+  const plan: GeoPlan = { anchor, radius, at: Date.now() };
+
+  try { await Location.stopGeofencingAsync(TASK); } catch {}
+  await AsyncStorage.multiSet([
+    [META_KEY, JSON.stringify(meta)],
+    [PLAN_KEY, JSON.stringify(plan)],
+  ]);
+  await Location.startGeofencingAsync(TASK, [...regions, ...boundary]);
+
+  if (radius) await startMoveUpdates();
+  else await stopMoveUpdates();
+
+  return { regions, meta };
+}
+
+/**
+ * Candidates for a background re-rank: what registration resolved (geocoded, expanded per
+ * branch), minus coupons deleted / unsaved since, plus new ones that already have attrs.geo.
+ * Nothing is geocoded or fetched from the background.
+ */
+async function loadCandidates(): Promise<GeoCoupon[]> {
+  const raw = await AsyncStorage.getItem(CANDIDATES_KEY);
+  const { mutedGroups } = await getNotifyPrefs();
+  const muted = (groupId?: string | null) => !!groupId && mutedGroups.includes(groupId);
+  const stored: GeoCoupon[] = (raw ? (JSON.parse(raw) as GeoCoupon[]) : []).filter(
+    (c) => !isExpired({ expires_at: c.valid_to }) && !muted(c.groupId)
+  );
+  if (!(await hasLocalSnapshot())) return stored;
+
+  const uid = await getLocalUid();
+  const rows = (await getWatchedCoupons()).filter(
+    (r) => !isExpired(r) && !(r.owner_id !== uid && muted(r.group_id))
+  );
+  const watched = new Set(rows.map((r) => r.id));
+  const known = new Set(stored.map((c) => c.id));
+  const added = rows
+    .filter((r) => !known.has(r.id))
+    .map((r) => toGeoCoupon(r, uid))
+    .filter((c) => c.store.lat != null && c.store.lng != null);
+  return stored.filter((c) => watched.has(c.id)).concat(added);
+}
+
+async function replanFrom(here: { lat: number; lng: number }) {
+  try {
+    const candidates = await loadCandidates();
+    if (!candidates.length) return;
+    await applyPlan(here, candidates);
+  } catch (e: any) {
+    console.warn('[geo] re-plan failed', e?.message);
+  }
+}
+
+async function maybeReplan(here: { lat: number; lng: number }) {
+  const raw = await AsyncStorage.getItem(PLAN_KEY);
+  const plan: GeoPlan | null = raw ? JSON.parse(raw) : null;
+  if (!plan?.radius) return;
+  if (haversine(plan.anchor.lat, plan.anchor.lng, here.lat, here.lng) < plan.radius) return;
+  await replanFrom(here);
+}
+
+async function currentPosition() {
+  try {
+    const pos =
+      (await Location.getLastKnownPositionAsync({ maxAge: 60_000 })) ??
+      (await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced }));
+    return { lat: pos.coords.latitude, lng: pos.coords.longitude };
+  } catch {
+    return null;
+  }
+}
+
+// iOS only: low-accuracy updates with a large distance filter (significant-change style).
+// Android delivers boundary exits reliably, and background updates there would need a
+// foreground-service notification.
+async function startMoveUpdates() {
+  if (Platform.OS !== 'ios') return;
+  try {
+    if (await Location.hasStartedLocationUpdatesAsync(MOVE_TASK)) return;
+    await Location.startLocationUpdatesAsync(MOVE_TASK, {
+      accuracy: Location.Accuracy.Low,
+      distanceInterval: REPLAN_MIN_M,
+      pausesUpdatesAutomatically: true,
+      activityType: Location.ActivityType.Other,
+      showsBackgroundLocationIndicator: false,
+    });
+  } catch (e: any) {
+    console.warn('[geo] location updates unavailable', e?.message);
+  }
+}
+
+async function stopMoveUpdates() {
+  try {
+    if (await Location.hasStartedLocationUpdatesAsync(MOVE_TASK)) {
+      await Location.stopLocationUpdatesAsync(MOVE_TASK);
+    }
+  } catch {}
 }
 
 /* ----------------------------------------------------------------------------
@@ -757,19 +861,23 @@ function clampRadius(r: number) {
   return Math.max(MIN_RADIUS, Math.min(MAX_RADIUS, r));
 }
 
-async function allowNotify(key: string) {
+// key = merchant id (or coupon id) so one merchant's branches share a cooldown
+async function allowNotify(key: string, ctx: NotifyContext = {}) {
+  const prefs = await getNotifyPrefs();
+  if (checkNotifyPrefs(prefs, ctx)) return false;
+
   const now = Date.now();
   const s = await AsyncStorage.getItem(STATE_KEY);
   let state = s ? JSON.parse(s) : {};
   const today = new Date().toISOString().slice(0, 10);
 
   if (state.day !== today) state = { day: today, daily: 0, lastByKey: {} };
-  if ((state.daily || 0) >= DAILY_CAP) {
+  if ((state.daily || 0) >= prefs.maxPerDay) {
     await AsyncStorage.setItem(STATE_KEY, JSON.stringify(state));
     return false;
   }
   const last = state.lastByKey?.[key];
-  if (last && now - last < COOLDOWN_H * 3600 * 1000) {
+  if (last && now - last < prefs.merchantCooldownH * 3600 * 1000) {
     await AsyncStorage.setItem(STATE_KEY, JSON.stringify(state));
     return false;
   }
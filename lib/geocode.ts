@@ -0,0 +1,115 @@
+// lib/geocode.ts
+// Address → coordinates with a persistent cache, shared by scanning, editing and geofencing.
+// Hits are kept for GEOCODE_TTL_DAYS; "no match" answers are memoized for a day so a bad
+// address isn't sent to the platform geocoder on every registration.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Location from 'expo-location';
+
+export type LatLng = { lat: number; lng: number };
+
+type CacheEntry = { at: number } & ({ lat: number; lng: number } | { miss: true });
+
+const CACHE_KEY = 'snapigo_geocode_cache_v1';
+const GEOCODE_TTL_DAYS = 30;
+const MISS_TTL_H = 24;
+const MAX_ENTRIES = 500; // oldest entries are dropped past this
+
+const DAY_MS = 24 * 3600 * 1000;
+
+let cache: Record<string, CacheEntry> | null = null;
+const inFlight = new Map<string, Promise<LatLng | null>>();
+
+const SUFFIXES: Record<string, string> = {
+  street: 'st',
+  avenue: 'ave',
+  road: 'rd',
+  boulevard: 'blvd',
+  drive: 'dr',
+  lane: 'ln',
+  highway: 'hwy',
+  parkway: 'pkwy',
+  suite: 'ste',
+  north: 'n',
+  south: 's',
+  east: 'e',
+  west: 'w',
+};
+
+/** Cache key: lowercase, punctuation-free, common street words abbreviated. */
+export function normalizeAddressKey(address: string) {
+  return address
+    .toLowerCase()
+    .replace(/[.,;:#()"']/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((w) => SUFFIXES[w] ?? w)
+    .join(' ');
+}
+
+async function loadCache() {
+  if (!cache) {
+    try {
+      const raw = await AsyncStorage.getItem(CACHE_KEY);
+      cache = raw ? JSON.parse(raw) : {};
+    } catch {
+      cache = {};
+    }
+  }
+  return cache!;
+}
+
+async function persist() {
+  const c = await loadCache();
+  const keys = Object.keys(c);
+  if (keys.length > MAX_ENTRIES) {
+    keys
+      .sort((a, b) => c[a].at - c[b].at)
+      .slice(0, keys.length - MAX_ENTRIES)
+      .forEach((k) => delete c[k]);
+  }
+  try {
+    await AsyncStorage.setItem(CACHE_KEY, JSON.stringify(c));
+  } catch (e: any) {
+    console.warn('[geocode] persist failed', e?.message);
+  }
+}
+
+/** Forget every cached answer. Sign-out. */
+export async function clearGeocodeCache() {
+  cache = {};
+  inFlight.clear();
+  await AsyncStorage.removeItem(CACHE_KEY);
+}
+
+function fresh(entry: CacheEntry) {
+  const age = Date.now() - entry.at;
+  return 'miss' in entry ? age < MISS_TTL_H * 3600 * 1000 : age < GEOCODE_TTL_DAYS * DAY_MS;
+}
+
+/**
+ * Resolve an address with the platform geocoder; null when nothing matched.
+ * Answers are cached; geocoder errors (offline, rate limits) are thrown and not cached.
+ */
+export async function geocodeAddress(address: string): Promise<LatLng | null> {
+  const key = normalizeAddressKey(address);
+  if (!key) return null;
+
+  const c = await loadCache();
+  const hit = c[key];
+  if (hit && fresh(hit)) return 'miss' in hit ? null : { lat: hit.lat, lng: hit.lng };
+
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+
+  const run = (async () => {
+    const res = await Location.geocodeAsync(address);
+    const out = res?.length ? { lat: res[0].latitude, lng: res[0].longitude } : null;
+    c[key] = out ? { ...out, at: Date.now() } : { miss: true, at: Date.now() };
+    await persist();
+    return out;
+  })().finally(() => inFlight.delete(key));
+
+  inFlight.set(key, run);
+  return run;
+}
+
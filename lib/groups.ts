@@ -0,0 +1,167 @@
+// lib/groups.ts
+// Household / group wallets: a coupon with group_id is in that group's shared wallet, so
+// everyone in the group sees it in My List and gets nearby alerts for it (unless they mute
+// the group). Groups and wallet coupons are pulled into the offline store with everything
+// else; managing groups and members needs the network.
+import { onlineError, requireUid } from './api';
+import { updateCoupon, type Coupon } from './coupons';
+import { getLocalGroupCoupons, getLocalGroups, syncNow } from './local-store';
+import { getNotifyPrefs, saveNotifyPrefs } from './notify-prefs';
+import { supabase } from './supabase';
+
+export type GroupRole = 'owner' | 'admin' | 'member';
+
+/** A group I'm in, with my role. */
+export type CouponGroup = {
+  id: string;
+  name: string;
+  created_by: string;
+  created_at: string;
+  role: GroupRole;
+};
+
+export type GroupMember = {
+  group_id: string;
+  user_id: string;
+  email: string | null;
+  role: GroupRole;
+  joined_at: string;
+};
+
+export const ROLE_LABELS: Record<GroupRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+};
+
+const OFFLINE = 'You’re offline. Managing groups needs a connection.';
+
+export const canManageMembers = (g: Pick<CouponGroup, 'role'>) => g.role === 'owner' || g.role === 'admin';
+
+/* ----------------------------------------------------------------------------
+ * Reads (offline store)
+ * --------------------------------------------------------------------------*/
+
+export async function listMyGroups(): Promise<CouponGroup[]> {
+  return getLocalGroups();
+}
+
+/** Coupons other members put in a group's wallet (mine are in getLocalMine with group_id set). */
+export async function listGroupCoupons(groupId: string): Promise<Coupon[]> {
+  return getLocalGroupCoupons(groupId);
+}
+
+/* ----------------------------------------------------------------------------
+ * Groups + members (online)
+ * --------------------------------------------------------------------------*/
+
+export async function createGroup(name: string): Promise<CouponGroup> {
+  await requireUid();
+  const n = name.trim();
+  if (!n) throw new Error('Give the group a name');
+  const { data, error } = await supabase.rpc('create_coupon_group', { p_name: n });
+  if (error) throw onlineError(error, OFFLINE);
+  await syncNow();
+  return { ...(data as Omit<CouponGroup, 'role'>), role: 'owner' };
+}
+
+export async function renameGroup(groupId: string, name: string) {
+  await requireUid();
+  const n = name.trim();
+  if (!n) throw new Error('Give the group a name');
+  const { error } = await supabase.from('coupon_groups').update({ name: n }).eq('id', groupId);
+  if (error) throw onlineError(error, OFFLINE);
+  await syncNow();
+}
+
+/** Owner only. Wallet coupons go back to being just their owner's. */
+export async function deleteGroup(groupId: string) {
+  await requireUid();
+  const { error } = await supabase.from('coupon_groups').delete().eq('id', groupId);
+  if (error) throw onlineError(error, OFFLINE);
+  await syncNow();
+}
+
+export async function listGroupMembers(groupId: string): Promise<GroupMember[]> {
+  await requireUid();
+  const { data, error } = await supabase
+    .from('coupon_group_members')
+    .select('*')
+    .eq('group_id', groupId)
+    .order('joined_at', { ascending: true });
+  if (error) throw onlineError(error, OFFLINE);
+  return (data ?? []) as GroupMember[];
+}
+
+/** Owners and admins: add a Snapigo user by their account email. */
+export async function addGroupMember(
+  groupId: string,
+  email: string,
+  role: Exclude<GroupRole, 'owner'> = 'member'
+): Promise<GroupMember> {
+  await requireUid();
+  const e = email.trim();
+  if (!/^\S+@\S+\.\S+$/.test(e)) throw new Error('Enter a valid email address');
+  const { data, error } = await supabase.rpc('add_coupon_group_member', {
+    p_group_id: groupId,
+    p_email: e,
+    p_role: role,
+  });
+  if (error) throw onlineError(error, OFFLINE);
+  return data as GroupMember;
+}
+
+/** Owner only. */
+export async function setMemberRole(groupId: string, userId: string, role: GroupRole) {
+  await requireUid();
+  const { error } = await supabase
+    .from('coupon_group_members')
+    .update({ role })
+    .eq('group_id', groupId)
+    .eq('user_id', userId);
+  if (error) throw onlineError(error, OFFLINE);
+}
+
+/** Remove someone (owners / admins), or pass your own id to leave. Their coupons leave the wallet. */
+export async function removeGroupMember(groupId: string, userId: string) {
+  await requireUid();
+  const { error } = await supabase
+    .from('coupon_group_members')
+    .delete()
+    .eq('group_id', groupId)
+    .eq('user_id', userId);
+  if (error) throw onlineError(error, OFFLINE);
+  await syncNow();
+}
+
+export async function leaveGroup(groupId: string) {
+  const uid = await requireUid();
+  await removeGroupMember(groupId, uid);
+}
+
+/* ----------------------------------------------------------------------------
+ * Wallet
+ * --------------------------------------------------------------------------*/
+
+/** Put one of my coupons in a group's wallet (null = take it out). Works offline. */
+export async function moveCouponToGroup(couponId: string, groupId: string | null) {
+  return updateCoupon(couponId, { group_id: groupId });
+}
+
+/** Owners / admins: take another member's coupon out of the wallet. */
+export async function removeCouponFromGroup(couponId: string) {
+  await requireUid();
+  const { error } = await supabase.rpc('remove_coupon_from_group', { p_coupon_id: couponId });
+  if (error) throw onlineError(error, OFFLINE);
+  await syncNow();
+}
+
+/* ----------------------------------------------------------------------------
+ * Per-group mute (nearby alerts)
+ * --------------------------------------------------------------------------*/
+
+export async function setGroupMuted(groupId: string, muted: boolean) {
+  const prefs = await getNotifyPrefs();
+  const rest = prefs.mutedGroups.filter((id) => id !== groupId);
+  await saveNotifyPrefs({ ...prefs, mutedGroups: muted ? [...rest, groupId] : rest });
+}
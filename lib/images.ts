@@ -0,0 +1,207 @@
+// lib/images.ts
+// Coupon photos in Supabase Storage: `<owner_id>/<key>.jpg` plus `<key>_thumb.jpg` next to it.
+// The bucket is private; coupons.image_url holds the object path and screens show the photo
+// through a short-lived signed URL (couponImageUri / components/CouponImage). Who can read an
+// object follows who can read its coupon (see 20261019140000_coupon_images_private.sql).
+// Photos of my own and saved coupons are also kept on the device, so they still show at the
+// register with no signal (syncOfflineImages).
+import * as FileSystem from 'expo-file-system';
+import * as ImageManipulator from 'expo-image-manipulator';
+import { supabase } from './supabase';
+
+export const COUPON_IMAGES_BUCKET = 'coupon-images';
+
+const THUMB_WIDTH = 320;
+const SIGNED_URL_TTL = 60 * 60; // seconds
+const KEY_LENGTH = 24;
+
+async function toArrayBuffer(uri: string) {
+  const res = await fetch(uri);
+  return res.arrayBuffer();
+}
+
+// Not derived from the time or the coupon, so object names can't be guessed
+function randomKey() {
+  let key = '';
+  while (key.length < KEY_LENGTH) key += Math.random().toString(36).slice(2);
+  return key.slice(0, KEY_LENGTH);
+}
+
+/**
+ * Upload the prepared JPEG (see prepareForOcr) and a small thumbnail.
+ * Returns the storage path of the full image (stored as coupons.image_url); the thumbnail
+ * sits next to it.
+ */
+export async function uploadCouponImage(ownerId: string, localUri: string): Promise<string> {
+  const key = randomKey();
+  const path = `${ownerId}/${key}.jpg`;
+  const thumbPath = `${ownerId}/${key}_thumb.jpg`;
+
+  const thumb = await ImageManipulator.manipulateAsync(
+    localUri,
+    [{ resize: { width: THUMB_WIDTH } }],
+    { compress: 0.7, format: ImageManipulator.SaveFormat.JPEG }
+  );
+
+  const bucket = supabase.storage.from(COUPON_IMAGES_BUCKET);
+  const [full, small] = await Promise.all([toArrayBuffer(localUri), toArrayBuffer(thumb.uri)]);
+
+  const { error } = await bucket.upload(path, full, { contentType: 'image/jpeg' });
+  if (error) throw error;
+
+  const { error: thumbErr } = await bucket.upload(thumbPath, small, { contentType: 'image/jpeg' });
+  if (thumbErr) console.warn('[images] thumbnail upload failed', thumbErr.message);
+
+  return path;
+}
+
+/**
+ * Storage path of an image we uploaded, or null for foreign URLs. Accepts the bare path
+ * stored today and the public URLs stored while the bucket was public.
+ */
+export function storagePathFromUrl(url?: string | null): string | null {
+  if (!url) return null;
+  if (!/^[a-z][a-z0-9+.-]*:/i.test(url)) return url;
+  const marker = `/object/public/${COUPON_IMAGES_BUCKET}/`;
+  const i = url.indexOf(marker);
+  return i >= 0 ? decodeURIComponent(url.slice(i + marker.length).split('?')[0]) : null;
+}
+
+function thumbPathFor(path: string) {
+  return path.replace(/\.jpg$/, '_thumb.jpg');
+}
+
+/* ---------------- Signed URLs ---------------- */
+
+const signed = new Map<string, { url: string; expiresAt: number }>();
+const pending = new Map<string, Promise<string | null>>();
+
+async function signPath(path: string): Promise<string | null> {
+  const hit = signed.get(path);
+  // keep a margin so an image doesn't expire while it's loading
+  if (hit && hit.expiresAt - Date.now() > 5 * 60 * 1000) return hit.url;
+
+  let p = pending.get(path);
+  if (!p) {
+    p = (async () => {
+      const { data, error } = await supabase.storage
+        .from(COUPON_IMAGES_BUCKET)
+        .createSignedUrl(path, SIGNED_URL_TTL);
+      if (error || !data?.signedUrl) {
+        console.warn('[images] sign failed', path, error?.message);
+        return null;
+      }
+      signed.set(path, { url: data.signedUrl, expiresAt: Date.now() + SIGNED_URL_TTL * 1000 });
+      return data.signedUrl;
+    })().finally(() => pending.delete(path));
+    pending.set(path, p);
+  }
+  return p;
+}
+
+/* ---------------- Offline copies ---------------- */
+
+const OFFLINE_DIR = `${FileSystem.documentDirectory}coupon-images/`;
+
+const offlineName = (path: string) => path.replace(/\//g, '_');
+
+async function offlineUri(path: string): Promise<string | null> {
+  const file = OFFLINE_DIR + offlineName(path);
+  try {
+    return (await FileSystem.getInfoAsync(file)).exists ? file : null;
+  } catch {
+    return null;
+  }
+}
+
+async function downloadOffline(path: string) {
+  const url = await signPath(path);
+  if (!url) return; // offline, or no such object (thumbnail upload failed)
+  const file = OFFLINE_DIR + offlineName(path);
+  try {
+    const res = await FileSystem.downloadAsync(url, file);
+    if (res.status !== 200) await FileSystem.deleteAsync(file, { idempotent: true });
+  } catch (e: any) {
+    console.warn('[images] offline copy failed', path, e?.message);
+    await FileSystem.deleteAsync(file, { idempotent: true }).catch(() => {});
+  }
+}
+
+let offlineRun: Promise<void> = Promise.resolve();
+let offlineNext: (string | null | undefined)[] | null = null;
+
+async function applyOfflineImages(urls: (string | null | undefined)[]) {
+  const wanted = new Map<string, string>(); // file name → storage path
+  for (const url of urls) {
+    const path = storagePathFromUrl(url);
+    if (!path) continue;
+    wanted.set(offlineName(path), path);
+    wanted.set(offlineName(thumbPathFor(path)), thumbPathFor(path));
+  }
+
+  await FileSystem.makeDirectoryAsync(OFFLINE_DIR, { intermediates: true }).catch(() => {});
+  const have = new Set(await FileSystem.readDirectoryAsync(OFFLINE_DIR).catch(() => [] as string[]));
+  for (const name of have) {
+    if (!wanted.has(name)) await FileSystem.deleteAsync(OFFLINE_DIR + name, { idempotent: true });
+  }
+  for (const [name, path] of wanted) {
+    if (!have.has(name)) await downloadOffline(path);
+  }
+}
+
+/**
+ * Keep device copies of exactly these photos (my own + saved coupons' image_url): missing
+ * ones are downloaded when there's a connection, copies nothing points at are deleted.
+ * Calls during a run collapse into one more pass with the latest list.
+ */
+export function syncOfflineImages(urls: (string | null | undefined)[]) {
+  const queued = offlineNext != null;
+  offlineNext = urls;
+  if (queued) return offlineRun;
+  offlineRun = offlineRun
+    .then(() => {
+      const next = offlineNext ?? [];
+      offlineNext = null;
+      return applyOfflineImages(next);
+    })
+    .catch((e) => console.warn('[images] offline sync failed', e?.message));
+  return offlineRun;
+}
+
+/** Drop every device copy. Sign-out. */
+export async function clearOfflineImages() {
+  offlineNext = null;
+  await offlineRun;
+  await FileSystem.deleteAsync(OFFLINE_DIR, { idempotent: true }).catch(() => {});
+}
+
+/**
+ * Displayable URI for coupons.image_url: the device copy when there is one, else a signed URL
+ * for our own uploads (the thumbnail when `thumb`), the URL itself for anything else.
+ * Null when the image can't be read (offline with no copy, or no access).
+ */
+export async function couponImageUri(url?: string | null, thumb = false): Promise<string | null> {
+  if (!url) return null;
+  const path = storagePathFromUrl(url);
+  if (!path) return url;
+  // no thumbnail for this one (upload failed) – fall back to the full image
+  for (const p of thumb ? [thumbPathFor(path), path] : [path]) {
+    const uri = (await offlineUri(p)) ?? (await signPath(p));
+    if (uri) return uri;
+  }
+  return null;
+}
+
+/** Best-effort cleanup when a coupon is deleted */
+export async function removeCouponImage(url?: string | null) {
+  const path = storagePathFromUrl(url);
+  if (!path) return;
+  const { error } = await supabase.storage
+    .from(COUPON_IMAGES_BUCKET)
+    .remove([path, thumbPathFor(path)]);
+  if (error) console.warn('[images] remove failed', error.message);
+  for (const p of [path, thumbPathFor(path)]) {
+    signed.delete(p);
+    await FileSystem.deleteAsync(OFFLINE_DIR + offlineName(p), { idempotent: true }).catch(() => {});
+  }
+}
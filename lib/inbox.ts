@@ -0,0 +1,303 @@
+// lib/inbox.ts
+// In-app notification inbox shown on the Notify tab, plus the unread badge.
+// Everything that sends or receives a notification logs it here (geo.ts through
+// logAndScheduleNotification, the tab layout for foreground deliveries). Screens subscribe
+// instead of polling AsyncStorage.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type * as Notifications from 'expo-notifications';
+import { normalizeName } from './coupon-parse';
+
+export type InboxItem = {
+  id: string;        // notification request identifier when there is one
+  title: string;
+  body: string;
+  createdAt: number; // epoch ms
+  read: boolean;
+  data: any | null;  // { couponId, storeName, url, ... } for coupon alerts
+  groupKey: string | null;
+};
+
+/** Alerts about the same coupon (or store) folded together for display. */
+export type InboxGroup = {
+  key: string;
+  latest: InboxItem;
+  items: InboxItem[]; // newest first
+  unread: number;
+};
+
+type InboxFile = { version: number; items: InboxItem[] };
+
+// Future notifications (expiry reminders); they're added to the inbox once their time passes
+type PendingItem = {
+  identifier: string;
+  fireAt: number;
+  title: string;
+  body: string;
+  data?: any;
+};
+
+const INBOX_KEY = 'snapigo_inbox';
+const LEGACY_UNREAD_KEY = 'snapigo_unread_count'; // v1 kept a separate counter
+const PENDING_KEY = 'snapigo_inbox_pending';
+const SCHEMA_VERSION = 2;
+const MAX_ITEMS = 100;
+const READ_RETENTION_DAYS = 30; // read items older than this are pruned
+
+let items: InboxItem[] | null = null;
+let loading: Promise<InboxItem[]> | null = null;
+let writeChain: Promise<void> = Promise.resolve();
+const listeners = new Set<(unread: number) => void>();
+
+/* ----------------------------------------------------------------------------
+ * Storage + migration
+ * --------------------------------------------------------------------------*/
+
+function groupKeyFor(data: any): string | null {
+  if (data?.couponId) return `coupon:${data.couponId}`;
+  const store = data?.storeName ? normalizeName(String(data.storeName)) : '';
+  return store ? `store:${store}` : null;
+}
+
+function toTime(v: unknown) {
+  if (typeof v === 'number' && Number.isFinite(v)) return v;
+  const t = typeof v === 'string' ? Date.parse(v) : NaN;
+  return Number.isNaN(t) ? Date.now() : t;
+}
+
+// v1 entries came from two writers: createdAt as epoch ms (geo.ts) or an ISO string (notify.tsx)
+function migrateItem(raw: any): InboxItem | null {
+  if (!raw || typeof raw !== 'object' || !raw.id) return null;
+  const data = raw.data ?? null;
+  return {
+    id: String(raw.id),
+    title: String(raw.title ?? 'Snapigo alert'),
+    body: String(raw.body ?? ''),
+    createdAt: toTime(raw.createdAt),
+    read: !!raw.read,
+    data,
+    groupKey: raw.groupKey ?? groupKeyFor(data),
+  };
+}
+
+function prune(list: InboxItem[]) {
+  const cutoff = Date.now() - READ_RETENTION_DAYS * 24 * 3600 * 1000;
+  const seen = new Set<string>();
+  return list
+    .filter((n) => {
+      if (seen.has(n.id)) return false;
+      seen.add(n.id);
+      return !n.read || n.createdAt >= cutoff;
+    })
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .slice(0, MAX_ITEMS);
+}
+
+async function readFile(): Promise<InboxItem[]> {
+  try {
+    const raw = await AsyncStorage.getItem(INBOX_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    const file: InboxFile = Array.isArray(parsed) ? { version: 1, items: parsed } : parsed;
+    const list = prune((file.items ?? []).map(migrateItem).filter(Boolean) as InboxItem[]);
+    if (file.version !== SCHEMA_VERSION) {
+      await AsyncStorage.setItem(INBOX_KEY, JSON.stringify({ version: SCHEMA_VERSION, items: list }));
+      await AsyncStorage.removeItem(LEGACY_UNREAD_KEY);
+    }
+    return list;
+  } catch (e: any) {
+    console.warn('[Inbox] load failed', e?.message);
+    return [];
+  }
+}
+
+async function load(): Promise<InboxItem[]> {
+  if (items) return items;
+  if (!loading) {
+    loading = readFile().then((list) => {
+      items = list;
+      loading = null;
+      return list;
+    });
+  }
+  return loading;
+}
+
+// Writes are serialized so a slow write can't land after a newer one
+function commit(next: InboxItem[]) {
+  items = prune(next);
+  const snapshot = JSON.stringify({ version: SCHEMA_VERSION, items });
+  writeChain = writeChain
+    .then(() => AsyncStorage.setItem(INBOX_KEY, snapshot))
+    .catch((e) => console.warn('[Inbox] persist failed', e?.message));
+  emit();
+}
+
+function emit() {
+  const unread = (items ?? []).filter((n) => !n.read).length;
+  listeners.forEach((fn) => {
+    try {
+      fn(unread);
+    } catch {}
+  });
+}
+
+/* ----------------------------------------------------------------------------
+ * Reads + subscriptions
+ * --------------------------------------------------------------------------*/
+
+/** Newest first. */
+export async function getInbox(): Promise<InboxItem[]> {
+  return load();
+}
+
+export async function getUnreadCount() {
+  return (await load()).filter((n) => !n.read).length;
+}
+
+/** Called with the unread count after every change; returns an unsubscribe function. */
+export function subscribeInbox(fn: (unread: number) => void) {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+/**
+ * Re-read storage, e.g. when coming back to the foreground after a background task
+ * (which may have run in a separate JS context) logged something.
+ */
+export async function reloadInbox() {
+  await writeChain;
+  items = await readFile();
+  await flushDueNotifications();
+  emit();
+}
+
+/** Alerts about the same coupon (or store) shown as one row; order follows the newest item. */
+export function groupInbox(list: InboxItem[]): InboxGroup[] {
+  const groups = new Map<string, InboxGroup>();
+  for (const item of list) {
+    const key = item.groupKey ?? `item:${item.id}`;
+    const g = groups.get(key);
+    if (g) {
+      g.items.push(item);
+      if (!item.read) g.unread += 1;
+    } else {
+      groups.set(key, { key, latest: item, items: [item], unread: item.read ? 0 : 1 });
+    }
+  }
+  return Array.from(groups.values());
+}
+
+/* ----------------------------------------------------------------------------
+ * Writes
+ * --------------------------------------------------------------------------*/
+
+export async function addInboxItem(args: {
+  id?: string;
+  createdAt?: number;
+  title: string;
+  body: string;
+  data?: any;
+}) {
+  const list = await load();
+  // The same notification can be logged by its sender and again when it's delivered
+  if (args.id && list.some((n) => n.id === args.id)) return;
+
+  const data = args.data ?? null;
+  commit([
+    {
+      id: args.id ?? `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      title: args.title,
+      body: args.body,
+      createdAt: args.createdAt ?? Date.now(),
+      read: false,
+      data,
+      groupKey: groupKeyFor(data),
+    },
+    ...list,
+  ]);
+}
+
+/** Mirror a notification delivered while the app is in the foreground. */
+export async function addDeliveredNotification(notification: Notifications.Notification) {
+  const { identifier, content } = notification.request;
+  await addInboxItem({
+    id: identifier || undefined,
+    createdAt: notification.date || Date.now(),
+    title: content.title || 'Snapigo alert',
+    body: content.body || '',
+    data: content.data ?? null,
+  });
+  await dropPendingInboxItems([identifier]);
+}
+
+export async function markInboxRead(ids: string[]) {
+  const drop = new Set(ids);
+  const list = await load();
+  if (!list.some((n) => drop.has(n.id) && !n.read)) return;
+  commit(list.map((n) => (drop.has(n.id) ? { ...n, read: true } : n)));
+}
+
+export async function clearInbox() {
+  await load();
+  commit([]);
+}
+
+/** Empty the inbox, alerts scheduled for later included. Sign-out. */
+export async function resetInbox() {
+  await clearInbox();
+  await writeChain;
+  await AsyncStorage.multiRemove([PENDING_KEY, LEGACY_UNREAD_KEY]);
+}
+
+/* ----------------------------------------------------------------------------
+ * Scheduled notifications
+ * --------------------------------------------------------------------------*/
+
+async function readPending(): Promise<PendingItem[]> {
+  try {
+    const raw = await AsyncStorage.getItem(PENDING_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function addPendingInboxItem(item: PendingItem) {
+  const pending = (await readPending()).filter((p) => p.identifier !== item.identifier);
+  pending.push(item);
+  await AsyncStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+}
+
+export async function dropPendingInboxItems(identifiers: string[]) {
+  const drop = new Set(identifiers);
+  const pending = await readPending();
+  if (!pending.some((p) => drop.has(p.identifier))) return;
+  await AsyncStorage.setItem(
+    PENDING_KEY,
+    JSON.stringify(pending.filter((p) => !drop.has(p.identifier)))
+  );
+}
+
+/** Move scheduled notifications whose time has passed into the inbox. */
+export async function flushDueNotifications() {
+  const pending = await readPending();
+  const now = Date.now();
+  const due = pending.filter((p) => p.fireAt <= now);
+  if (!due.length) return;
+
+  for (const p of due.sort((a, b) => a.fireAt - b.fireAt)) {
+    await addInboxItem({
+      id: p.identifier,
+      createdAt: p.fireAt,
+      title: p.title,
+      body: p.body,
+      data: p.data,
+    });
+  }
+  await AsyncStorage.setItem(
+    PENDING_KEY,
+    JSON.stringify(pending.filter((p) => p.fireAt > now))
+  );
+}
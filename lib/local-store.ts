@@ -0,0 +1,733 @@
+// lib/local-store.ts
+// Offline-first cache of *my* coupons, saves and redemptions, persisted in AsyncStorage,
+// plus read-only copies of my groups and the coupons other members put in their wallets.
+// - lib/coupons.ts / lib/saves.ts / lib/redemptions.ts write here first and queue an outbox op
+// - syncNow() pushes the outbox in order, then pulls fresh copies (last write wins on updated_at)
+// - anything the server refuses or a newer remote edit overrides is kept as a SyncConflict
+// - the geofence task reads from here, so it never needs the network
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState } from 'react-native';
+
+import type { Coupon } from './coupons';
+import { discountValue, discountWorth } from './discount';
+import type { CouponGroup } from './groups';
+import { removeCouponImage } from './images';
+import {
+  isLocalId,
+  LOCAL_PREFIX,
+  outboxAfterDelete,
+  outboxAfterUpdate,
+  resolveId,
+  retargetOutbox,
+  type OutboxOp,
+} from './outbox';
+import type { Redemption } from './redemptions';
+import type { SavedRow } from './saves';
+import { supabase } from './supabase';
+
+/* ----------------------------------------------------------------------------
+ * Types
+ * --------------------------------------------------------------------------*/
+export type SyncConflict = {
+  id: string;
+  coupon_id: string;
+  /** update/delete = a newer remote change won; rejected = the server refused our change */
+  kind: 'update' | 'delete' | 'rejected';
+  message: string;
+  at: string;
+};
+
+export type SyncResult = {
+  ok: boolean;
+  offline: boolean;
+  pending: number; // ops still in the outbox
+  conflicts: number; // new conflicts from this run
+};
+
+type LocalState = {
+  version: 1;
+  uid: string | null;
+  mine: Record<string, Coupon>; // by id; offline adds use a temporary "local-…" id
+  saved: Record<string, SavedRow>; // by coupon id
+  redemptions: Record<string, Redemption>; // by id; offline ones use a temporary "local-…" id
+  groups: Record<string, CouponGroup>; // by id, with my role
+  groupCoupons: Record<string, Coupon>; // other members' wallet coupons, by id (read-only)
+  outbox: OutboxOp[];
+  idMap: Record<string, string>; // temporary id → server id once pushed
+  conflicts: SyncConflict[];
+  lastSyncAt: string | null;
+};
+
+/* ----------------------------------------------------------------------------
+ * Constants
+ * --------------------------------------------------------------------------*/
+const STORE_KEY = 'snapigo_local_store_v1';
+const MAX_CONFLICTS = 50;
+const RETRY_MIN_MS = 5_000;
+const RETRY_MAX_MS = 5 * 60_000;
+
+const emptyState = (uid: string | null): LocalState => ({
+  version: 1,
+  uid,
+  mine: {},
+  saved: {},
+  redemptions: {},
+  groups: {},
+  groupCoupons: {},
+  outbox: [],
+  idMap: {},
+  conflicts: [],
+  lastSyncAt: null,
+});
+
+/* ----------------------------------------------------------------------------
+ * Persistence + change listeners
+ * --------------------------------------------------------------------------*/
+let state: LocalState | null = null;
+let loading: Promise<LocalState> | null = null;
+let writeChain: Promise<void> = Promise.resolve();
+/** The outbox op runSync is awaiting; queue* calls must not fold into or drop it */
+let pushing: OutboxOp | null = null;
+const listeners = new Set<() => void>();
+
+async function load(): Promise<LocalState> {
+  if (state) return state;
+  if (!loading) {
+    loading = (async () => {
+      try {
+        const raw = await AsyncStorage.getItem(STORE_KEY);
+        const parsed = raw ? (JSON.parse(raw) as LocalState) : null;
+        state =
+          parsed?.version === 1
+            ? {
+                // older caches predate redemptions and groups
+                ...parsed,
+                redemptions: parsed.redemptions ?? {},
+                groups: parsed.groups ?? {},
+                groupCoupons: parsed.groupCoupons ?? {},
+              }
+            : emptyState(null);
+      } catch {
+        state = emptyState(null);
+      }
+      return state;
+    })();
+  }
+  return loading;
+}
+
+// Writes are serialized so a slow write can't land after a newer one
+function commit() {
+  const snapshot = JSON.stringify(state);
+  writeChain = writeChain
+    .then(() => AsyncStorage.setItem(STORE_KEY, snapshot))
+    .catch((e) => console.warn('[LocalStore] persist failed', e?.message));
+  listeners.forEach((fn) => {
+    try {
+      fn();
+    } catch {}
+  });
+}
+
+/** Called after every local change or sync; returns an unsubscribe function. */
+export function subscribeLocalStore(fn: () => void) {
+  listeners.add(fn);
+  return () => {
+    listeners.delete(fn);
+  };
+}
+
+// Make sure the cache belongs to the signed-in user; a different user starts fresh
+async function forUser(uid: string): Promise<LocalState> {
+  const s = await load();
+  if (s.uid !== uid) {
+    state = emptyState(uid);
+    commit();
+  }
+  return state!;
+}
+
+async function sessionUid(): Promise<string | null> {
+  const { data } = await supabase.auth.getSession(); // reads the persisted session, no network
+  return data.session?.user?.id ?? null;
+}
+
+// Reads only ever see the signed-in user's cache; signed out, or another account's leftovers,
+// read as empty
+async function readable(): Promise<LocalState> {
+  const [s, uid] = await Promise.all([load(), sessionUid()]);
+  return uid && s.uid === uid ? s : emptyState(uid);
+}
+
+/** Forget everything cached for the previous account, queued changes included. Sign-out. */
+export async function clearLocalStore() {
+  await load();
+  state = emptyState(null);
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  retryDelay = RETRY_MIN_MS;
+  commit();
+  await writeChain;
+}
+
+/* ----------------------------------------------------------------------------
+ * Helpers
+ * --------------------------------------------------------------------------*/
+const nowIso = () => new Date().toISOString();
+const ts = (iso?: string | null) => (iso ? Date.parse(iso) || 0 : 0);
+const newLocalId = () =>
+  `${LOCAL_PREFIX}${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export { isLocalId };
+
+/** fetch() failures surface as "Network request failed" / "Failed to fetch" inside supabase errors */
+export function isNetworkError(e: any) {
+  const msg = String(e?.message ?? e ?? '');
+  return /network request failed|failed to fetch|network ?error|timed? ?out|offline/i.test(msg);
+}
+
+function addConflict(s: LocalState, c: Omit<SyncConflict, 'id' | 'at'>) {
+  s.conflicts = [{ ...c, id: newLocalId(), at: nowIso() }, ...s.conflicts].slice(0, MAX_CONFLICTS);
+}
+
+function withDerived(c: Coupon): Coupon {
+  return {
+    ...c,
+    discount_kind: c.discount?.kind ?? null,
+    discount_value: discountValue(c.discount),
+    discount_worth: discountWorth(c.discount),
+  };
+}
+
+/* ----------------------------------------------------------------------------
+ * Reads (never touch the network)
+ * --------------------------------------------------------------------------*/
+export async function getLocalMine(): Promise<Coupon[]> {
+  const s = await readable();
+  return Object.values(s.mine).sort((a, b) => ts(b.created_at) - ts(a.created_at));
+}
+
+export async function getLocalSaved(): Promise<SavedRow[]> {
+  const s = await readable();
+  return Object.values(s.saved).sort((a, b) => ts(b.created_at) - ts(a.created_at));
+}
+
+/** Mine, saved or in a group wallet, by id (temporary ids of synced adds are followed to the server id). */
+export async function getLocalCoupon(id: string): Promise<Coupon | null> {
+  const s = await readable();
+  const real = resolveId(s.idMap, id);
+  return (
+    s.mine[real] ?? (s.saved[real]?.coupon as Coupon | undefined) ?? s.groupCoupons[real] ?? null
+  );
+}
+
+export async function getLocalGroups(): Promise<CouponGroup[]> {
+  const s = await readable();
+  return Object.values(s.groups).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Other members' coupons, newest first; all groups when no id is given. */
+export async function getLocalGroupCoupons(groupId?: string): Promise<Coupon[]> {
+  const s = await readable();
+  return Object.values(s.groupCoupons)
+    .filter((c) => !groupId || c.group_id === groupId)
+    .sort((a, b) => ts(b.created_at) - ts(a.created_at));
+}
+
+export async function getLocalRedemptions(): Promise<Redemption[]> {
+  const s = await readable();
+  return Object.values(s.redemptions).sort((a, b) => ts(b.redeemed_at) - ts(a.redeemed_at));
+}
+
+// Coupons with a single-use redemption are done with
+function spentIds(s: LocalState) {
+  const ids = new Set<string>();
+  for (const r of Object.values(s.redemptions)) {
+    if (r.single_use && r.coupon_id) ids.add(resolveId(s.idMap, r.coupon_id));
+  }
+  return ids;
+}
+
+/** True once a single-use coupon has been redeemed. */
+export async function isCouponSpent(id: string) {
+  const s = await readable();
+  return spentIds(s).has(resolveId(s.idMap, id));
+}
+
+/** Owned + saved + group wallet coupons, deduped and not yet used up — what geofencing watches. */
+export async function getWatchedCoupons(): Promise<Coupon[]> {
+  const s = await readable();
+  const spent = spentIds(s);
+  const byId = new Map<string, Coupon>();
+  for (const c of Object.values(s.mine)) byId.set(c.id, c);
+  for (const row of Object.values(s.saved)) {
+    if (row.coupon && !byId.has(row.coupon.id)) byId.set(row.coupon.id, row.coupon as Coupon);
+  }
+  for (const c of Object.values(s.groupCoupons)) if (!byId.has(c.id)) byId.set(c.id, c);
+  return Array.from(byId.values()).filter((c) => !spent.has(c.id));
+}
+
+/** The signed-in user's id, from the persisted session (works in background tasks). */
+export async function getLocalUid() {
+  return sessionUid();
+}
+
+/** True once we've pulled from the server at least once (so "missing" means deleted). */
+export async function hasLocalSnapshot() {
+  const s = await readable();
+  return !!s.lastSyncAt;
+}
+
+export async function getPendingCount() {
+  const s = await readable();
+  return s.outbox.length;
+}
+
+export async function getSyncConflicts(): Promise<SyncConflict[]> {
+  const s = await readable();
+  return s.conflicts;
+}
+
+export async function clearSyncConflicts() {
+  const s = await load();
+  s.conflicts = [];
+  commit();
+}
+
+/* ----------------------------------------------------------------------------
+ * Local writes (apply now, queue for the server)
+ * --------------------------------------------------------------------------*/
+
+/** `payload` is an already-normalized coupons row without id/timestamps. */
+export async function queueAdd(uid: string, payload: Record<string, any>): Promise<Coupon> {
+  const s = await forUser(uid);
+  const at = nowIso();
+  const id = newLocalId();
+  const row = withDerived({
+    ...(payload as any),
+    id,
+    owner_id: uid,
+    created_at: at,
+    updated_at: at,
+    saves_count: 0,
+  });
+  s.mine[id] = row;
+  s.outbox.push({ kind: 'add', id, payload, at });
+  commit();
+  return row;
+}
+
+/** `current` is the copy being edited (local or freshly fetched). */
+export async function queueUpdate(
+  uid: string,
+  current: Coupon,
+  payload: Record<string, any>
+): Promise<Coupon> {
+  const s = await forUser(uid);
+  const at = nowIso();
+  const row = withDerived({ ...(s.mine[current.id] ?? current), ...payload, updated_at: at });
+  s.mine[current.id] = row;
+
+  // Not on the server yet → folded into the pending insert, unless that insert is mid-push
+  s.outbox = outboxAfterUpdate(s.outbox, pushing, current.id, payload, current.updated_at ?? null, at);
+  commit();
+  return row;
+}
+
+export async function queueDelete(uid: string, couponId: string) {
+  const s = await forUser(uid);
+  // the screen may still hold the temporary id of a coupon that has since been pushed
+  const real = resolveId(s.idMap, couponId);
+  const existing = s.mine[real] ?? s.mine[couponId];
+  delete s.mine[couponId];
+  delete s.mine[real];
+  delete s.saved[couponId];
+  delete s.saved[real];
+
+  s.outbox = outboxAfterDelete(
+    s.outbox,
+    s.idMap,
+    couponId,
+    existing?.updated_at ?? null,
+    nowIso(),
+    pushing
+  );
+  commit();
+}
+
+export async function queueSave(uid: string, couponId: string, coupon?: SavedRow['coupon']) {
+  const s = await forUser(uid);
+  const at = nowIso();
+  s.saved[couponId] = { id: s.saved[couponId]?.id ?? newLocalId(), created_at: at, coupon: coupon ?? null };
+
+  const undo = s.outbox.findIndex((op) => op.kind === 'unsave' && op.coupon_id === couponId);
+  if (undo >= 0) s.outbox.splice(undo, 1);
+  else s.outbox.push({ kind: 'save', coupon_id: couponId, at });
+  commit();
+}
+
+export async function queueUnsave(uid: string, couponId: string) {
+  const s = await forUser(uid);
+  delete s.saved[couponId];
+
+  const undo = s.outbox.findIndex((op) => op.kind === 'save' && op.coupon_id === couponId);
+  if (undo >= 0) s.outbox.splice(undo, 1);
+  else s.outbox.push({ kind: 'unsave', coupon_id: couponId, at: nowIso() });
+  commit();
+}
+
+/** `payload` is a coupon_redemptions row without id/user_id/created_at. */
+export async function queueRedeem(uid: string, payload: Record<string, any>): Promise<Redemption> {
+  const s = await forUser(uid);
+  const at = nowIso();
+  const id = newLocalId();
+  const row = { ...(payload as any), id, user_id: uid, created_at: at } as Redemption;
+  s.redemptions[id] = row;
+  s.outbox.push({ kind: 'redeem', id, payload, at });
+  commit();
+  return row;
+}
+
+export async function queueUnredeem(uid: string, redemptionId: string) {
+  const s = await forUser(uid);
+  delete s.redemptions[redemptionId];
+
+  const pending = s.outbox.findIndex((op) => op.kind === 'redeem' && op.id === redemptionId);
+  if (pending >= 0) s.outbox.splice(pending, 1);
+  else s.outbox.push({ kind: 'unredeem', id: redemptionId, at: nowIso() });
+  commit();
+}
+
+/* ----------------------------------------------------------------------------
+ * Sync engine
+ * --------------------------------------------------------------------------*/
+
+// Push one op. Network errors propagate (op stays queued); anything else is final.
+async function pushOp(s: LocalState, uid: string, op: OutboxOp) {
+  switch (op.kind) {
+    case 'add': {
+      const { data, error } = await supabase.from('coupons').insert(op.payload).select('*').single();
+      if (error) throw error;
+      delete s.mine[op.id];
+      s.idMap[op.id] = data.id;
+      // edits (or a delete) queued while the insert was in flight now target the server row
+      s.outbox = retargetOutbox(s.outbox, op.id, data.id, data.updated_at ?? null);
+      const behind = s.outbox.filter((o) => o !== op && 'id' in o && o.id === data.id);
+      if (!behind.some((o) => o.kind === 'delete')) {
+        s.mine[data.id] = withDerived(
+          behind.reduce(
+            (row, o) => (o.kind === 'update' ? { ...row, ...o.payload } : row),
+            data as Coupon
+          )
+        );
+      }
+      return;
+    }
+
+    case 'update': {
+      const { data: remote, error: readErr } = await supabase
+        .from('coupons')
+        .select('*')
+        .eq('id', op.id)
+        .maybeSingle();
+      if (readErr) throw readErr;
+      if (!remote) {
+        delete s.mine[op.id];
+        addConflict(s, {
+          coupon_id: op.id,
+          kind: 'delete',
+          message: 'This coupon was deleted on another device; your edit was dropped.',
+        });
+        return;
+      }
+      // Someone changed it after our base copy, and later than our edit → theirs wins
+      if (ts(remote.updated_at) > ts(op.base_updated_at) && ts(remote.updated_at) > ts(op.at)) {
+        s.mine[op.id] = remote as Coupon;
+        addConflict(s, {
+          coupon_id: op.id,
+          kind: 'update',
+          message: 'A newer edit from another device replaced your offline change.',
+        });
+        return;
+      }
+      const { data, error } = await supabase
+        .from('coupons')
+        .update({ ...op.payload, updated_at: op.at })
+        .eq('id', op.id)
+        .eq('owner_id', uid) // enforced by RLS too
+        .select('*')
+        .single();
+      if (error) throw error;
+      s.mine[op.id] = data as Coupon;
+      return;
+    }
+
+    case 'delete': {
+      const { data: remote, error: readErr } = await supabase
+        .from('coupons')
+        .select('*')
+        .eq('id', op.id)
+        .maybeSingle();
+      if (readErr) throw readErr;
+      if (!remote) return; // already gone
+      if (ts(remote.updated_at) > ts(op.at)) {
+        s.mine[op.id] = remote as Coupon;
+        addConflict(s, {
+          coupon_id: op.id,
+          kind: 'delete',
+          message: 'This coupon was edited on another device after you deleted it, so it was kept.',
+        });
+        return;
+      }
+      const { error } = await supabase.from('coupons').delete().eq('id', op.id).eq('owner_id', uid);
+      if (error) throw error;
+      await removeCouponImage(remote.image_url);
+      return;
+    }
+
+    case 'save': {
+      const { error } = await supabase
+        .from('coupon_saves')
+        .insert({ user_id: uid, coupon_id: op.coupon_id });
+      if (error && error.code !== '23505') throw error; // 23505 = already saved
+      return;
+    }
+
+    case 'unsave': {
+      const { error } = await supabase
+        .from('coupon_saves')
+        .delete()
+        .eq('user_id', uid)
+        .eq('coupon_id', op.coupon_id);
+      if (error) throw error;
+      return;
+    }
+
+    case 'redeem': {
+      // A coupon added offline has its server id by now (its add was earlier in the outbox)
+      const raw = op.payload.coupon_id as string | null;
+      const couponId = raw ? resolveId(s.idMap, raw) : null;
+      const { data, error } = await supabase
+        .from('coupon_redemptions')
+        .insert({ ...op.payload, coupon_id: couponId && !isLocalId(couponId) ? couponId : null })
+        .select('*')
+        .single();
+      if (error) throw error;
+      delete s.redemptions[op.id];
+      s.redemptions[data.id] = data as Redemption;
+      s.idMap[op.id] = data.id;
+      return;
+    }
+
+    case 'unredeem': {
+      const { error } = await supabase
+        .from('coupon_redemptions')
+        .delete()
+        .eq('id', op.id)
+        .eq('user_id', uid);
+      if (error) throw error;
+      return;
+    }
+  }
+}
+
+async function pullMine(s: LocalState, uid: string) {
+  const { data, error } = await supabase
+    .from('coupons')
+    .select('*')
+    .eq('owner_id', uid)
+    .order('created_at', { ascending: false })
+    .limit(500);
+  if (error) throw error;
+
+  const pendingUpdate = new Set(s.outbox.filter((op) => op.kind === 'update').map((op) => (op as any).id));
+  const pendingDelete = new Set(s.outbox.filter((op) => op.kind === 'delete').map((op) => (op as any).id));
+
+  const next: Record<string, Coupon> = {};
+  for (const remote of (data ?? []) as Coupon[]) {
+    if (pendingDelete.has(remote.id)) continue;
+    const local = s.mine[remote.id];
+    // last write wins: keep an unsynced local edit that is at least as new
+    next[remote.id] =
+      local && pendingUpdate.has(remote.id) && ts(local.updated_at) >= ts(remote.updated_at)
+        ? local
+        : remote;
+  }
+  for (const op of s.outbox) {
+    if (op.kind === 'add' && s.mine[op.id]) next[op.id] = s.mine[op.id];
+  }
+  s.mine = next;
+}
+
+async function pullSaved(s: LocalState, uid: string) {
+  const { data, error } = await supabase
+    .from('coupon_saves')
+    .select('id, created_at, coupon:coupons ( * )')
+    .eq('user_id', uid)
+    .order('created_at', { ascending: false })
+    .limit(400);
+  if (error) throw error;
+
+  const next: Record<string, SavedRow> = {};
+  for (const row of (data ?? []) as unknown as SavedRow[]) {
+    if (row.coupon) next[row.coupon.id] = row;
+  }
+  for (const op of s.outbox) {
+    if (op.kind === 'save' && s.saved[op.coupon_id]) next[op.coupon_id] = s.saved[op.coupon_id];
+    if (op.kind === 'unsave') delete next[op.coupon_id];
+  }
+  s.saved = next;
+}
+
+async function pullRedemptions(s: LocalState, uid: string) {
+  const { data, error } = await supabase
+    .from('coupon_redemptions')
+    .select('*')
+    .eq('user_id', uid)
+    .order('redeemed_at', { ascending: false })
+    .limit(1000);
+  if (error) {
+    // Table not created yet (migration pending): keep what we have locally
+    if (error.code === '42P01' || error.code === 'PGRST205') return;
+    throw error;
+  }
+
+  const next: Record<string, Redemption> = {};
+  for (const row of (data ?? []) as Redemption[]) next[row.id] = row;
+  for (const op of s.outbox) {
+    if (op.kind === 'redeem' && s.redemptions[op.id]) next[op.id] = s.redemptions[op.id];
+    if (op.kind === 'unredeem') delete next[op.id];
+  }
+  s.redemptions = next;
+}
+
+async function pullGroups(s: LocalState, uid: string) {
+  const { data, error } = await supabase
+    .from('coupon_group_members')
+    .select('role, group:coupon_groups ( * )')
+    .eq('user_id', uid);
+  if (error) {
+    // Tables not created yet (migration pending): no groups
+    if (error.code === '42P01' || error.code === 'PGRST205') return;
+    throw error;
+  }
+
+  const groups: Record<string, CouponGroup> = {};
+  for (const row of (data ?? []) as any[]) {
+    if (row.group) groups[row.group.id] = { ...row.group, role: row.role };
+  }
+
+  const coupons: Record<string, Coupon> = {};
+  const ids = Object.keys(groups);
+  if (ids.length) {
+    const { data: rows, error: couponsErr } = await supabase
+      .from('coupons')
+      .select('*')
+      .in('group_id', ids)
+      .neq('owner_id', uid)
+      .order('created_at', { ascending: false })
+      .limit(500);
+    if (couponsErr) throw couponsErr;
+    for (const c of (rows ?? []) as Coupon[]) coupons[c.id] = c;
+  }
+  s.groups = groups;
+  s.groupCoupons = coupons;
+}
+
+async function runSync(): Promise<SyncResult> {
+  const uid = await sessionUid();
+  if (!uid) return { ok: false, offline: false, pending: 0, conflicts: 0 };
+  const s = await forUser(uid);
+  const conflictsBefore = s.conflicts.length;
+
+  try {
+    // 1) Push, in order. Stop at the first network failure; keep the rest queued.
+    while (s.outbox.length) {
+      const op = s.outbox[0];
+      pushing = op;
+      try {
+        await pushOp(s, uid, op);
+      } catch (e: any) {
+        if (isNetworkError(e)) throw e;
+        // The server said no (RLS, constraint…) — drop the op, tell the user, restore truth on pull
+        if (op.kind === 'add') delete s.mine[op.id];
+        if (op.kind === 'redeem') delete s.redemptions[op.id];
+        addConflict(s, {
+          coupon_id: 'id' in op ? op.id : op.coupon_id,
+          kind: 'rejected',
+          message: e?.message ?? 'The server rejected this change.',
+        });
+      } finally {
+        pushing = null;
+      }
+      s.outbox.shift();
+      commit();
+    }
+
+    // 2) Pull fresh copies
+    await pullMine(s, uid);
+    await pullSaved(s, uid);
+    await pullRedemptions(s, uid);
+    await pullGroups(s, uid);
+    s.lastSyncAt = nowIso();
+    commit();
+    retryDelay = RETRY_MIN_MS;
+    return {
+      ok: true,
+      offline: false,
+      pending: 0,
+      conflicts: Math.max(0, s.conflicts.length - conflictsBefore),
+    };
+  } catch (e: any) {
+    commit();
+    const offline = isNetworkError(e);
+    if (offline) scheduleRetry();
+    else console.warn('[LocalStore] sync error', e?.message);
+    return {
+      ok: false,
+      offline,
+      pending: s.outbox.length,
+      conflicts: Math.max(0, s.conflicts.length - conflictsBefore),
+    };
+  }
+}
+
+let inFlight: Promise<SyncResult> | null = null;
+
+/** Push queued changes and refresh the cache. Safe to call often; concurrent calls share one run. */
+export function syncNow(): Promise<SyncResult> {
+  if (!inFlight) {
+    inFlight = runSync().finally(() => {
+      inFlight = null;
+    });
+  }
+  return inFlight;
+}
+
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let retryDelay = RETRY_MIN_MS;
+
+function scheduleRetry() {
+  if (retryTimer) return;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    syncNow();
+  }, retryDelay);
+  retryDelay = Math.min(retryDelay * 2, RETRY_MAX_MS);
+}
+
+let started = false;
+
+/** Sync on launch and whenever the app comes back to the foreground. Call once. */
+export function startBackgroundSync() {
+  if (started) return;
+  started = true;
+  syncNow();
+  AppState.addEventListener('change', (next) => {
+    if (next === 'active') {
+      retryDelay = RETRY_MIN_MS;
+      syncNow();
+    }
+  });
+}
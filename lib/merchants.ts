@@ -0,0 +1,112 @@
+// lib/merchants.ts
+// Merchants with many branches. A coupon "valid at all locations" points at a merchant
+// (coupons.merchant_id) and geofencing watches every known branch of it.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { normalizeName } from './coupon-parse';
+import { normalizeAddressKey, type LatLng } from './geocode';
+import { isNetworkError } from './local-store';
+import { supabase } from './supabase';
+
+export type Merchant = {
+  id: string;
+  name: string;
+  name_key: string;
+};
+
+export type MerchantLocation = {
+  id: string;
+  merchant_id: string;
+  address: string;
+  lat: number;
+  lng: number;
+};
+
+// merchantId → branches; lets geofencing expand coupons offline and from the background task
+const LOCATIONS_KEY = 'snapigo_merchant_locations';
+
+/** Look a merchant up by normalized name, creating it the first time anyone uses it. */
+export async function findOrCreateMerchant(name: string): Promise<Merchant> {
+  const clean = name.trim();
+  const key = normalizeName(clean);
+  if (!key) throw new Error('Merchant name is empty');
+
+  const find = async () => {
+    const { data, error } = await supabase
+      .from('merchants')
+      .select('id, name, name_key')
+      .eq('name_key', key)
+      .maybeSingle();
+    if (error) throw error;
+    return data as Merchant | null;
+  };
+
+  const existing = await find();
+  if (existing) return existing;
+
+  const { data, error } = await supabase
+    .from('merchants')
+    .insert({ name: clean, name_key: key })
+    .select('id, name, name_key')
+    .single();
+  if (error) {
+    // someone else created it between our lookup and insert
+    if (error.code === '23505') {
+      const again = await find();
+      if (again) return again;
+    }
+    throw error;
+  }
+  return data as Merchant;
+}
+
+/** Record a branch address for a merchant (no-op if it's already known). */
+export async function addMerchantLocation(merchantId: string, address: string, geo: LatLng) {
+  const { error } = await supabase.from('merchant_locations').upsert(
+    {
+      merchant_id: merchantId,
+      address: address.trim(),
+      address_key: normalizeAddressKey(address),
+      lat: geo.lat,
+      lng: geo.lng,
+    },
+    { onConflict: 'merchant_id,address_key', ignoreDuplicates: true }
+  );
+  if (error) throw error;
+}
+
+async function readCache(): Promise<Record<string, MerchantLocation[]>> {
+  try {
+    const raw = await AsyncStorage.getItem(LOCATIONS_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Branches for each merchant id. Refreshed from Supabase when online;
+ * with no signal the last fetched copy is used.
+ */
+export async function getMerchantLocations(
+  merchantIds: string[]
+): Promise<Record<string, MerchantLocation[]>> {
+  const ids = Array.from(new Set(merchantIds.filter(Boolean)));
+  const cache = await readCache();
+  const pick = () => Object.fromEntries(ids.map((id) => [id, cache[id] ?? []]));
+  if (!ids.length) return pick();
+
+  const { data, error } = await supabase
+    .from('merchant_locations')
+    .select('id, merchant_id, address, lat, lng')
+    .in('merchant_id', ids);
+
+  if (error) {
+    if (!isNetworkError(error)) console.warn('[merchants] locations error', error.message);
+    return pick();
+  }
+
+  for (const id of ids) cache[id] = [];
+  for (const loc of (data ?? []) as MerchantLocation[]) cache[loc.merchant_id].push(loc);
+  await AsyncStorage.setItem(LOCATIONS_KEY, JSON.stringify(cache));
+  return pick();
+}
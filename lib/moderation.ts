@@ -0,0 +1,133 @@
+// lib/moderation.ts
+// Community reports on public coupons and the moderator review queue. Anyone can report a
+// public coupon once; three open reports hide it from the feed until a moderator restores,
+// hides or removes it. Moderators are listed in the moderators table, and every decision
+// (including automatic hides) goes into moderation_log. These calls need the network.
+import { onlineError, requireUid } from './api';
+import type { Coupon } from './coupons';
+import { supabase } from './supabase';
+
+export type ReportReason = 'expired' | 'fake' | 'offensive' | 'duplicate';
+
+export type ModerationAction = 'restore' | 'hide' | 'remove';
+
+export type CouponReport = {
+  id: string;
+  coupon_id: string;
+  reporter_id: string;
+  reason: ReportReason;
+  note: string | null;
+  status: 'open' | 'dismissed' | 'actioned';
+  created_at: string;
+};
+
+/** A reported coupon waiting for review, with its open reports (newest first). */
+export type QueueItem = {
+  coupon: Coupon | null;
+  couponId: string;
+  reports: CouponReport[];
+  reasons: Partial<Record<ReportReason, number>>;
+};
+
+export type ModerationLogEntry = {
+  id: string;
+  coupon_id: string | null;
+  actor_id: string | null; // null = automatic
+  action: 'auto_hide' | ModerationAction;
+  note: string | null;
+  created_at: string;
+};
+
+export const REPORT_REASONS: { value: ReportReason; label: string; hint: string }[] = [
+  { value: 'expired', label: 'Expired', hint: 'The deal has ended or the store won’t take it' },
+  { value: 'fake', label: 'Fake', hint: 'Not a real coupon, or the details are wrong' },
+  { value: 'offensive', label: 'Offensive', hint: 'Inappropriate image or text' },
+  { value: 'duplicate', label: 'Duplicate', hint: 'Someone already posted this one' },
+];
+
+export const ACTION_LABELS: Record<ModerationLogEntry['action'], string> = {
+  auto_hide: 'Hidden automatically',
+  hide: 'Kept hidden',
+  restore: 'Restored',
+  remove: 'Removed from the feed',
+};
+
+const OFFLINE = 'You’re offline. Try again when you’re connected.';
+
+/* ----------------------------------------------------------------------------
+ * Reporting
+ * --------------------------------------------------------------------------*/
+
+export async function reportCoupon(couponId: string, reason: ReportReason, note?: string) {
+  await requireUid();
+  const { error } = await supabase
+    .from('coupon_reports')
+    .insert({ coupon_id: couponId, reason, note: note?.trim() || null });
+  if (error) {
+    if (error.code === '23505') throw new Error('You’ve already reported this coupon.');
+    throw onlineError(error, OFFLINE);
+  }
+}
+
+/* ----------------------------------------------------------------------------
+ * Moderators
+ * --------------------------------------------------------------------------*/
+
+/** False when offline or before the moderation migration is applied. */
+export async function isModerator(): Promise<boolean> {
+  const uid = await requireUid();
+  const { data, error } = await supabase
+    .from('moderators')
+    .select('user_id')
+    .eq('user_id', uid)
+    .maybeSingle();
+  if (error) return false;
+  return !!data;
+}
+
+/** Reported coupons with open reports, most reported first. */
+export async function listReportQueue(): Promise<QueueItem[]> {
+  await requireUid();
+  const { data, error } = await supabase
+    .from('coupon_reports')
+    .select('*, coupon:coupons ( * )')
+    .eq('status', 'open')
+    .order('created_at', { ascending: false })
+    .limit(500);
+  if (error) throw onlineError(error, OFFLINE);
+
+  const byCoupon = new Map<string, QueueItem>();
+  for (const row of (data ?? []) as (CouponReport & { coupon: Coupon | null })[]) {
+    const { coupon, ...report } = row;
+    let item = byCoupon.get(report.coupon_id);
+    if (!item) {
+      item = { coupon, couponId: report.coupon_id, reports: [], reasons: {} };
+      byCoupon.set(report.coupon_id, item);
+    }
+    item.reports.push(report);
+    item.reasons[report.reason] = (item.reasons[report.reason] ?? 0) + 1;
+  }
+  return [...byCoupon.values()].sort((a, b) => b.reports.length - a.reports.length);
+}
+
+export async function moderateCoupon(couponId: string, action: ModerationAction, note?: string) {
+  await requireUid();
+  const { error } = await supabase.rpc('moderate_coupon', {
+    p_coupon_id: couponId,
+    p_action: action,
+    p_note: note ?? null,
+  });
+  if (error) throw onlineError(error, OFFLINE);
+}
+
+/** Recent moderation actions, newest first. */
+export async function listModerationLog(limit = 50): Promise<ModerationLogEntry[]> {
+  await requireUid();
+  const { data, error } = await supabase
+    .from('moderation_log')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw onlineError(error, OFFLINE);
+  return (data ?? []) as ModerationLogEntry[];
+}
@@ -0,0 +1,102 @@
+// lib/notification-actions.ts
+// Buttons on coupon notifications ("Show coupon", "Snooze this store", "Mark used") and
+// routing into the app. Coupon notifications carry `data.url = snapigo://coupon/<id>`;
+// tapping one (or its row in the Notify inbox) opens that route through expo-router.
+import * as Notifications from 'expo-notifications';
+import { router } from 'expo-router';
+import { getLocalCoupon } from './local-store';
+import { snoozeStore } from './notify-prefs';
+import { redeemCoupon } from './redemptions';
+
+export const COUPON_CATEGORY = 'snapigo_coupon';
+
+const ACTION_SHOW = 'show_coupon';
+const ACTION_SNOOZE_STORE = 'snooze_store';
+const ACTION_MARK_USED = 'mark_used';
+
+const STORE_SNOOZE_H = 24;
+const SCHEME = 'snapigo://';
+
+export const couponLink = (couponId: string) => `${SCHEME}coupon/${encodeURIComponent(couponId)}`;
+
+/** Register the action buttons; safe to call on every launch. */
+export async function registerNotificationCategories() {
+  try {
+    await Notifications.setNotificationCategoryAsync(COUPON_CATEGORY, [
+      { identifier: ACTION_SHOW, buttonTitle: 'Show coupon' },
+      { identifier: ACTION_SNOOZE_STORE, buttonTitle: 'Snooze this store' },
+      // Actions only reach our listener if the app is running, so these open it too
+      { identifier: ACTION_MARK_USED, buttonTitle: 'Mark used' },
+    ]);
+  } catch (e: any) {
+    console.warn('[NotifActions] categories failed', e?.message);
+  }
+}
+
+/** Open a snapigo:// link (or an in-app path) with the router. */
+export function openDeepLink(url: string) {
+  const path = url.startsWith(SCHEME) ? `/${url.slice(SCHEME.length)}` : url;
+  if (!path.startsWith('/')) return;
+  router.push(path as any);
+}
+
+/** Where an inbox row / notification tap should go, if anywhere. */
+export function linkForData(data: any): string | null {
+  if (!data) return null;
+  if (typeof data.url === 'string') return data.url;
+  if (data.couponId) return couponLink(String(data.couponId));
+  return null;
+}
+
+// From the lock screen there's nowhere to type an amount, so none is recorded
+async function markUsed(couponId: string, storeName?: string | null) {
+  const local = await getLocalCoupon(couponId);
+  await redeemCoupon(
+    local ?? { id: couponId, store: storeName ?? null, title: null },
+    { singleUse: true }
+  );
+}
+
+export async function handleNotificationResponse(response: Notifications.NotificationResponse) {
+  const data: any = response.notification.request.content.data ?? {};
+  const couponId: string | null = data.couponId ?? null;
+
+  try {
+    switch (response.actionIdentifier) {
+      case ACTION_SNOOZE_STORE:
+        if (data.storeName) await snoozeStore(data.storeName, STORE_SNOOZE_H);
+        break;
+      case ACTION_MARK_USED:
+        if (couponId) await markUsed(couponId, data.storeName);
+        break;
+      case ACTION_SHOW:
+      case Notifications.DEFAULT_ACTION_IDENTIFIER: {
+        const url = linkForData(data);
+        if (url) openDeepLink(url);
+        break;
+      }
+    }
+  } catch (e: any) {
+    console.warn('[NotifActions] response failed', e?.message);
+  }
+}
+
+/**
+ * Handle the notification that launched the app, then every later response.
+ * Returns an unsubscribe function.
+ */
+export function listenForNotificationResponses() {
+  Notifications.getLastNotificationResponseAsync()
+    .then(async (last) => {
+      if (!last) return;
+      await Notifications.clearLastNotificationResponseAsync();
+      await handleNotificationResponse(last);
+    })
+    .catch(() => {});
+
+  const sub = Notifications.addNotificationResponseReceivedListener(async (response) => {
+    await handleNotificationResponse(response);
+    Notifications.clearLastNotificationResponseAsync().catch(() => {});
+  });
+  return () => sub.remove();
+}
@@ -0,0 +1,170 @@
+// lib/notify-prefs.ts
+// User-editable rules for nearby alerts (quiet hours, days, caps, mutes, snooze, muted groups)
+// and for expiry reminders (how many days ahead, at what time).
+// Kept in AsyncStorage so the background geofence task can read them offline, and mirrored
+// to Supabase (notification_prefs) so they follow the user to another device.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Category } from './coupons';
+import { normalizeName } from './coupon-parse';
+import { isNetworkError } from './local-store';
+import { supabase } from './supabase';
+
+export type NotifyPrefs = {
+  quietHours: { enabled: boolean; start: number; end: number }; // minutes after midnight
+  days: number[];               // allowed weekdays, 0 = Sunday
+  maxPerDay: number;
+  merchantCooldownH: number;    // per merchant (or per coupon when there's no merchant)
+  mutedCategories: Category[];
+  mutedStores: string[];        // display names; matched with normalizeName
+  mutedGroups: string[];        // group wallet ids (lib/groups.ts)
+  snoozeUntil: number | null;   // epoch ms
+  storeSnoozes: Record<string, number>; // normalizeName(store) → epoch ms, from "Snooze this store"
+  expiryReminders: { enabled: boolean; daysBefore: number; hour: number }; // hour 0-23
+};
+
+export const DEFAULT_NOTIFY_PREFS: NotifyPrefs = {
+  quietHours: { enabled: false, start: 22 * 60, end: 7 * 60 },
+  days: [0, 1, 2, 3, 4, 5, 6],
+  maxPerDay: 10,
+  merchantCooldownH: 6,
+  mutedCategories: [],
+  mutedStores: [],
+  mutedGroups: [],
+  snoozeUntil: null,
+  storeSnoozes: {},
+  expiryReminders: { enabled: true, daysBefore: 3, hour: 9 },
+};
+
+const PREFS_KEY = 'snapigo_notify_prefs';
+
+export type NotifyContext = {
+  category?: Category | null;
+  storeName?: string | null;
+  groupId?: string | null;
+};
+
+export type NotifyBlock =
+  | 'snoozed'
+  | 'day_off'
+  | 'quiet_hours'
+  | 'muted_category'
+  | 'muted_store'
+  | 'snoozed_store'
+  | 'muted_group';
+
+async function sessionUid() {
+  const { data } = await supabase.auth.getSession(); // persisted session, no network
+  return data.session?.user?.id ?? null;
+}
+
+const keyFor = (uid: string | null) => `${PREFS_KEY}:${uid ?? 'anon'}`;
+
+function withDefaults(p: Partial<NotifyPrefs> | null | undefined): NotifyPrefs {
+  return {
+    ...DEFAULT_NOTIFY_PREFS,
+    ...(p ?? {}),
+    quietHours: { ...DEFAULT_NOTIFY_PREFS.quietHours, ...(p?.quietHours ?? {}) },
+    expiryReminders: { ...DEFAULT_NOTIFY_PREFS.expiryReminders, ...(p?.expiryReminders ?? {}) },
+  };
+}
+
+/** Current user's preferences from the device (never touches the network). */
+export async function getNotifyPrefs(): Promise<NotifyPrefs> {
+  try {
+    const raw = await AsyncStorage.getItem(keyFor(await sessionUid()));
+    return withDefaults(raw ? JSON.parse(raw) : null);
+  } catch {
+    return { ...DEFAULT_NOTIFY_PREFS };
+  }
+}
+
+/** Save locally, then best-effort upsert to Supabase. */
+export async function saveNotifyPrefs(prefs: NotifyPrefs) {
+  const uid = await sessionUid();
+  await AsyncStorage.setItem(keyFor(uid), JSON.stringify(prefs));
+  if (!uid) return;
+
+  const { error } = await supabase
+    .from('notification_prefs')
+    .upsert({ user_id: uid, prefs, updated_at: new Date().toISOString() });
+  if (error && !isNetworkError(error)) console.warn('[NotifyPrefs] save error', error.message);
+}
+
+/** Pull the server copy (e.g. set on another device) into the local cache. */
+export async function refreshNotifyPrefs(): Promise<NotifyPrefs> {
+  const uid = await sessionUid();
+  if (!uid) return getNotifyPrefs();
+
+  const { data, error } = await supabase
+    .from('notification_prefs')
+    .select('prefs')
+    .eq('user_id', uid)
+    .maybeSingle();
+  if (error) {
+    if (!isNetworkError(error)) console.warn('[NotifyPrefs] load error', error.message);
+    return getNotifyPrefs();
+  }
+  if (!data) return getNotifyPrefs();
+
+  const prefs = withDefaults(data.prefs as Partial<NotifyPrefs>);
+  await AsyncStorage.setItem(keyFor(uid), JSON.stringify(prefs));
+  return prefs;
+}
+
+function inQuietHours(q: NotifyPrefs['quietHours'], minutes: number) {
+  if (!q.enabled || q.start === q.end) return false;
+  // 22:00 → 07:00 wraps past midnight
+  return q.start < q.end
+    ? minutes >= q.start && minutes < q.end
+    : minutes >= q.start || minutes < q.end;
+}
+
+/**
+ * Time/mute rules only; the daily cap and cooldown need the throttle state and live in geo.ts.
+ * Returns why an alert is blocked, or null when it may go out.
+ */
+export function checkNotifyPrefs(
+  prefs: NotifyPrefs,
+  ctx: NotifyContext,
+  now = new Date()
+): NotifyBlock | null {
+  if (prefs.snoozeUntil && now.getTime() < prefs.snoozeUntil) return 'snoozed';
+  if (!prefs.days.includes(now.getDay())) return 'day_off';
+  if (inQuietHours(prefs.quietHours, now.getHours() * 60 + now.getMinutes())) return 'quiet_hours';
+  if (ctx.category && prefs.mutedCategories.includes(ctx.category)) return 'muted_category';
+  if (ctx.groupId && prefs.mutedGroups.includes(ctx.groupId)) return 'muted_group';
+  if (ctx.storeName) {
+    const store = normalizeName(ctx.storeName);
+    if (store && prefs.mutedStores.some((s) => normalizeName(s) === store)) return 'muted_store';
+    if (store && (prefs.storeSnoozes[store] ?? 0) > now.getTime()) return 'snoozed_store';
+  }
+  return null;
+}
+
+/** Silence one store for a while; expired snoozes are dropped on the way. */
+export async function snoozeStore(storeName: string, hours: number) {
+  const key = normalizeName(storeName);
+  if (!key) return;
+  const prefs = await getNotifyPrefs();
+  const now = Date.now();
+  const storeSnoozes = Object.fromEntries(
+    Object.entries(prefs.storeSnoozes).filter(([, until]) => until > now)
+  );
+  storeSnoozes[key] = now + hours * 3600 * 1000;
+  await saveNotifyPrefs({ ...prefs, storeSnoozes });
+}
+
+/** "22:00" ↔ minutes after midnight */
+export function formatMinutes(m: number) {
+  const h = Math.floor(m / 60);
+  return `${String(h).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`;
+}
+
+export function parseMinutes(s: string): number | null {
+  const m = s.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!m) return null;
+  const h = Number(m[1]);
+  const min = Number(m[2]);
+  if (h > 23 || min > 59) return null;
+  return h * 60 + min;
+}
@@ -1,9 +1,18 @@
 // lib/ocr.ts
 import { Platform, NativeModules } from "react-native";
 import * as ImageManipulator from "expo-image-manipulator";
+import { createFixtureOcrEngine } from "../services/FakeOcrService";
 
 export type OcrBlocks = { text: string; bbox?: { x: number; y: number; w: number; h: number } }[];
-export type OcrResult = { text: string; blocks?: OcrBlocks; engine: "ios-vision" };
+export type OcrEngineId = "ios-vision" | "android-mlkit" | "fixture";
+export type OcrResult = { text: string; blocks?: OcrBlocks; engine: OcrEngineId };
+
+/** A text recognizer the scan flow can run. Engines are tried in registration order. */
+export type OcrEngine = {
+  id: OcrEngineId;
+  isAvailable: () => boolean;
+  recognize: (uri: string) => Promise<OcrBlocks>;
+};
 
 const TARGET_LONG_EDGE = 1800;
 
@@ -16,72 +25,85 @@ export async function prepareForOcr(uri: string): Promise<string> {
   return out.uri;
 }
 
-export async function runOcr(uri: string): Promise<OcrResult> {
-  const maybeNative = (NativeModules as any)?.OcrModule?.recognize;
-  if (Platform.OS === "ios" && typeof maybeNative === "function") {
-    const blocks: OcrBlocks = await maybeNative(uri);
-    const text = blocks?.map(b => b.text).join("\n") || "";
-    return { text, blocks, engine: "ios-vision" };
-  }
-  throw new Error("Apple Vision OcrModule not found. Add it (below) and rebuild the iOS app.");
-}
+/* ---------- Built-in native engines ---------- */
 
-export type CouponBasics = {
-  storeGuess?: string;
-  discount_kind?: "percent" | "amount" | "bogo";
-  discount_value?: number;
-  expires_guess?: string | null;
+// Apple Vision bridge written by plugins/with-apple-vision-ocr.js
+const iosVisionEngine: OcrEngine = {
+  id: "ios-vision",
+  isAvailable: () =>
+    Platform.OS === "ios" && typeof (NativeModules as any)?.OcrModule?.recognize === "function",
+  recognize: async (uri) => {
+    const blocks: OcrBlocks = await (NativeModules as any).OcrModule.recognize(uri);
+    return blocks ?? [];
+  },
 };
 
-export function parseCouponBasics(raw: string): CouponBasics {
-  const text = raw.replace(/[ \t]+/g, " ").replace(/\u00A0/g, " ").trim();
-  const lines = text.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+// Google ML Kit bridge registered as `TextRecognition` by @react-native-ml-kit/text-recognition
+type MlKitFrame = { left: number; top: number; width: number; height: number };
+type MlKitResult = { text: string; blocks?: { text: string; frame?: MlKitFrame }[] };
 
-  const storeGuess =
-    lines.find(l => isLikelyMerchant(l)) ?? (lines[0]?.length <= 40 ? lines[0] : undefined);
+const androidMlKitEngine: OcrEngine = {
+  id: "android-mlkit",
+  isAvailable: () =>
+    Platform.OS === "android" &&
+    typeof (NativeModules as any)?.TextRecognition?.recognize === "function",
+  recognize: async (uri) => {
+    const res: MlKitResult = await (NativeModules as any).TextRecognition.recognize(uri, "Latin");
+    return (res?.blocks ?? []).map((b) => ({
+      text: b.text ?? "",
+      bbox: b.frame
+        ? { x: b.frame.left, y: b.frame.top, w: b.frame.width, h: b.frame.height }
+        : undefined,
+    }));
+  },
+};
 
-  const percent = pickBestPercent(text);
-  const amount  = pickBestAmount(text);
-  const bogo    = /\b(bogo|buy\s*1\s*get\s*1)\b/i.test(text);
+/* ---------- Registry ---------- */
 
-  let discount_kind: CouponBasics["discount_kind"] | undefined;
-  let discount_value: number | undefined;
-  if (percent != null) { discount_kind = "percent"; discount_value = percent; }
-  else if (amount != null) { discount_kind = "amount"; discount_value = amount; }
-  else if (bogo) { discount_kind = "bogo"; }
+const engines: OcrEngine[] = [iosVisionEngine, androidMlKitEngine, createFixtureOcrEngine()];
 
-  const expires_guess = detectExpiryISO(text);
-  return { storeGuess, discount_kind, discount_value, expires_guess };
-}
+// EXPO_PUBLIC_OCR_ENGINE=fixture pins dev/test builds to a registered engine
+let preferredId: OcrEngineId | null =
+  (process.env.EXPO_PUBLIC_OCR_ENGINE as OcrEngineId | undefined) || null;
 
-function isLikelyMerchant(line: string) {
-  const bad = /(valid|coupon|expires|discount|percent|%|off|save|only|terms|conditions|present|offer)/i;
-  const hasLetters = /[A-Za-z]/.test(line);
-  return hasLetters && !bad.test(line) && line.length <= 40;
+/** Add (or replace, by id) an engine. */
+export function registerOcrEngine(engine: OcrEngine) {
+  const i = engines.findIndex(e => e.id === engine.id);
+  if (i >= 0) engines[i] = engine;
+  else engines.push(engine);
 }
 
-function pickBestPercent(text: string): number | null {
-  const re = /(\d{1,3})\s*%/g; let m: RegExpExecArray | null; let best: number | null = null;
-  while ((m = re.exec(text))) { const v = parseInt(m[1],10); if (v>=5 && v<=100) best = best==null? v : Math.max(best,v); }
-  return best;
+/** Force a specific engine; pass null to go back to auto-detection. */
+export function setPreferredOcrEngine(id: OcrEngineId | null) {
+  preferredId = id;
 }
-function pickBestAmount(text: string): number | null {
-  const re = /(?:\$|USD\s*)\s*(\d+(?:\.\d{2})?)\s*(?:off|discount|save)?/gi;
-  let m: RegExpExecArray | null; let best: number | null = null;
-  while ((m = re.exec(text))) { const v = parseFloat(m[1]); if (!isNaN(v) && v>0) best = best==null? v : Math.max(best,v); }
-  return best;
+
+export function listOcrEngines(): { id: OcrEngineId; available: boolean }[] {
+  return engines.map(e => ({ id: e.id, available: e.isAvailable() }));
 }
-function detectExpiryISO(text: string): string | null {
-  const month = /((?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\s+\d{1,2}(?:,\s*\d{2,4})?)/i.exec(text)?.[1];
-  if (month) { const iso = toISO(month); if (iso) return iso; }
-  const num = /((?:\d{1,2})[\/\-](?:\d{1,2})[\/\-](?:\d{2,4}))/i.exec(text)?.[1];
-  if (num) { const iso = numericToISO(num); if (iso) return iso; }
-  return null;
+
+export function resolveOcrEngine(id: OcrEngineId | null = preferredId): OcrEngine {
+  if (id) {
+    const pinned = engines.find(e => e.id === id);
+    if (!pinned) throw new Error(`OCR engine "${id}" is not registered.`);
+    if (!pinned.isAvailable()) throw new Error(`OCR engine "${id}" is not available on ${Platform.OS}.`);
+    return pinned;
+  }
+  // Auto mode only picks native engines so a stray fixture never answers a real scan
+  const native = engines.find(e => e.id !== "fixture" && e.isAvailable());
+  if (!native) {
+    throw new Error(
+      Platform.OS === "ios"
+        ? "Apple Vision OcrModule not found. Add it (below) and rebuild the iOS app."
+        : `No OCR engine available on ${Platform.OS}. Install @react-native-ml-kit/text-recognition and rebuild.`
+    );
+  }
+  return native;
 }
-function toISO(s: string) { const d = new Date(s.replace(/,/g,"")); return isNaN(d.getTime())? null : toISODateOnly(d); }
-function numericToISO(s: string) {
-  const [a,b,c] = s.split(/[\/\-]/).map(v=>v.trim()); let mm=+a, dd=+b, yy=+c; if (yy<100) yy+=2000;
-  if (!(mm>=1&&mm<=12&&dd>=1&&dd<=31)) { mm=+b; dd=+a; }
-  const d = new Date(yy, mm-1, dd); return isNaN(d.getTime())? null : toISODateOnly(d);
+
+export async function runOcr(uri: string, opts?: { engine?: OcrEngineId }): Promise<OcrResult> {
+  const engine = resolveOcrEngine(opts?.engine ?? preferredId);
+  const blocks = await engine.recognize(uri);
+  const text = blocks?.map(b => b.text).join("\n") || "";
+  return { text, blocks, engine: engine.id };
 }
-function toISODateOnly(d: Date) { const y=d.getFullYear(), m=String(d.getMonth()+1).padStart(2,"0"), day=String(d.getDate()).padStart(2,"0"); return `${y}-${m}-${day}`; }
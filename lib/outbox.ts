@@ -0,0 +1,101 @@
+// lib/outbox.ts
+// Outbox bookkeeping for lib/local-store.ts, kept free of React Native imports so
+// scripts/outbox-check.ts can run it under Node.
+
+export type OutboxOp =
+  | { kind: 'add'; id: string; payload: Record<string, any>; at: string }
+  | {
+      kind: 'update';
+      id: string;
+      payload: Record<string, any>;
+      base_updated_at: string | null; // what we edited on top of
+      at: string;
+    }
+  | { kind: 'delete'; id: string; base_updated_at: string | null; at: string }
+  | { kind: 'save'; coupon_id: string; at: string }
+  | { kind: 'unsave'; coupon_id: string; at: string }
+  | { kind: 'redeem'; id: string; payload: Record<string, any>; at: string }
+  | { kind: 'unredeem'; id: string; at: string };
+
+export const LOCAL_PREFIX = 'local-';
+
+export const isLocalId = (id: string) => id.startsWith(LOCAL_PREFIX);
+
+/** Server id for a coupon id a screen may still hold from before its add was pushed */
+export function resolveId(idMap: Record<string, string>, id: string) {
+  return idMap[id] ?? id;
+}
+
+/**
+ * Outbox after editing a coupon. An edit to a coupon whose add is still queued folds into
+ * that insert — unless the add is the op being pushed right now (`inFlight`): its server row
+ * would replace the edit, so the edit is queued as an update and retargeted once the add lands.
+ */
+export function outboxAfterUpdate(
+  outbox: OutboxOp[],
+  inFlight: OutboxOp | null,
+  id: string,
+  payload: Record<string, any>,
+  base_updated_at: string | null,
+  at: string
+): OutboxOp[] {
+  const pendingAdd = outbox.find((op) => op.kind === 'add' && op.id === id);
+  if (pendingAdd?.kind === 'add' && pendingAdd !== inFlight) {
+    return outbox.map((op) =>
+      op === pendingAdd ? { ...pendingAdd, payload: { ...pendingAdd.payload, ...payload } } : op
+    );
+  }
+  return [...outbox, { kind: 'update', id, payload, base_updated_at, at }];
+}
+
+/**
+ * Outbox after deleting a coupon. A coupon that never reached the server just drops its
+ * queued ops; one that did (including a local id already pushed and mapped in idMap) drops
+ * its pending edits and queues a delete of the server row. An add that is in flight can't be
+ * dropped, so the row it creates gets a delete queued behind it.
+ */
+export function outboxAfterDelete(
+  outbox: OutboxOp[],
+  idMap: Record<string, string>,
+  couponId: string,
+  base_updated_at: string | null,
+  at: string,
+  inFlight: OutboxOp | null = null
+): OutboxOp[] {
+  const real = resolveId(idMap, couponId);
+  if (isLocalId(real)) {
+    const kept = outbox.filter((op) => op === inFlight || !('id' in op) || op.id !== real);
+    if (inFlight?.kind === 'add' && inFlight.id === real) {
+      kept.push({ kind: 'delete', id: real, base_updated_at: null, at });
+    }
+    return kept;
+  }
+  return [
+    ...outbox.filter((op) => !(op.kind === 'update' && (op.id === real || op.id === couponId))),
+    { kind: 'delete', id: real, base_updated_at, at },
+  ];
+}
+
+/**
+ * Outbox once a pushed add got its server id: edits and deletes queued behind the insert
+ * point at the server row, on top of the version the insert created.
+ */
+export function retargetOutbox(
+  outbox: OutboxOp[],
+  localId: string,
+  serverId: string,
+  serverUpdatedAt: string | null
+): OutboxOp[] {
+  return outbox.map((op) => {
+    if (op.kind === 'update' && op.id === localId) {
+      return { ...op, id: serverId, base_updated_at: serverUpdatedAt };
+    }
+    if (op.kind === 'delete' && op.id === localId) {
+      // the insert's own timestamp must not read as someone else's later edit
+      const later =
+        serverUpdatedAt && Date.parse(serverUpdatedAt) > Date.parse(op.at) ? serverUpdatedAt : op.at;
+      return { ...op, id: serverId, base_updated_at: serverUpdatedAt, at: later };
+    }
+    return op;
+  });
+}
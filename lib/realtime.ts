@@ -0,0 +1,44 @@
+// lib/realtime.ts
+// Live changes to coupons over Supabase Realtime (postgres_changes), used by the public feed.
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import type { Coupon } from './coupons';
+import { supabase } from './supabase';
+
+export type CouponChange =
+  | { type: 'insert'; row: Coupon }
+  | { type: 'update'; row: Coupon }
+  // Deletes only carry the primary key unless the table has REPLICA IDENTITY FULL
+  | { type: 'delete'; id: string };
+
+/**
+ * Subscribe to coupon inserts / updates / deletes the signed-in user can see (RLS applies,
+ * so that's public coupons plus my own). Save counts arrive as updates: `saves_count` is kept
+ * on the coupon row by a trigger. Returns an unsubscribe function.
+ */
+export function subscribeCouponChanges(onChange: (change: CouponChange) => void) {
+  const channel = supabase
+    .channel(`coupons-feed-${Date.now().toString(36)}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'coupons' },
+      (payload: RealtimePostgresChangesPayload<Coupon>) => {
+        if (payload.eventType === 'DELETE') {
+          const id = (payload.old as Partial<Coupon>)?.id;
+          if (id) onChange({ type: 'delete', id });
+        } else if (payload.eventType === 'INSERT') {
+          onChange({ type: 'insert', row: payload.new });
+        } else {
+          onChange({ type: 'update', row: payload.new });
+        }
+      }
+    )
+    .subscribe((status, err) => {
+      if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        console.warn('[Realtime] coupons channel', status, err?.message);
+      }
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
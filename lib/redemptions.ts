@@ -0,0 +1,116 @@
+// lib/redemptions.ts
+// "I used this": redemption events with what they saved, and the savings history built from them.
+// Writes go through the offline store like coupons and saves; a single-use redemption takes
+// the coupon out of geofencing and expiry reminders (see getWatchedCoupons).
+import { requireUid } from './api';
+import type { Category, Coupon } from './coupons';
+import { discountValue, type Discount } from './discount';
+import { getLocalRedemptions, queueRedeem, queueUnredeem, syncNow } from './local-store';
+import { supabase } from './supabase';
+
+export type Redemption = {
+  id: string;
+  user_id: string;
+  coupon_id: string | null; // null once the coupon is deleted
+  store: string | null;
+  title: string | null;
+  category: Category | null;
+  amount_saved: number | null;
+  single_use: boolean;
+  redeemed_at: string;
+  created_at: string;
+};
+
+export type SavingsBucket = { key: string; label: string; total: number; count: number };
+
+export type SavingsSummary = {
+  total: number;
+  count: number;
+  byMonth: SavingsBucket[];    // newest month first
+  byStore: SavingsBucket[];    // biggest total first
+  byCategory: SavingsBucket[]; // biggest total first
+};
+
+/** Record a redemption. Works offline; syncs with the next push. */
+export async function redeemCoupon(
+  coupon: Pick<Coupon, 'id' | 'store' | 'title'> & { category?: Category | null },
+  opts: { amountSaved?: number | null; redeemedAt?: Date; singleUse?: boolean } = {}
+) {
+  const uid = await requireUid();
+  const amount = opts.amountSaved;
+  const row = await queueRedeem(uid, {
+    coupon_id: coupon.id,
+    store: coupon.store ?? null,
+    title: coupon.title ?? null,
+    category: coupon.category ?? null,
+    amount_saved: amount != null && Number.isFinite(amount) && amount >= 0 ? amount : null,
+    single_use: opts.singleUse ?? true,
+    redeemed_at: (opts.redeemedAt ?? new Date()).toISOString(),
+  });
+  await syncNow();
+  return row;
+}
+
+/** Remove a redemption from the history (a single-use coupon becomes active again). */
+export async function undoRedemption(redemptionId: string) {
+  const uid = await requireUid();
+  await queueUnredeem(uid, redemptionId);
+  await syncNow();
+}
+
+export async function listRedemptions(): Promise<Redemption[]> {
+  return getLocalRedemptions();
+}
+
+/** A fixed dollar amount to prefill "amount saved" with; null when it depends on the basket. */
+export function suggestedSaving(discount?: Discount | null): number | null {
+  if (!discount) return null;
+  if (discount.kind === 'amount') return discount.value;
+  if (discount.kind === 'tiered') return discountValue(discount);
+  return null;
+}
+
+function bucketize(
+  list: Redemption[],
+  keyOf: (r: Redemption) => string,
+  labelOf: (r: Redemption) => string
+) {
+  const map = new Map<string, SavingsBucket>();
+  for (const r of list) {
+    const key = keyOf(r);
+    const b = map.get(key) ?? { key, label: labelOf(r), total: 0, count: 0 };
+    b.total += r.amount_saved ?? 0;
+    b.count += 1;
+    map.set(key, b);
+  }
+  return Array.from(map.values());
+}
+
+const monthKey = (iso: string) => {
+  const d = new Date(iso);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+};
+
+export function summarizeSavings(list: Redemption[]): SavingsSummary {
+  const byTotal = (a: SavingsBucket, b: SavingsBucket) => b.total - a.total || b.count - a.count;
+
+  return {
+    total: list.reduce((sum, r) => sum + (r.amount_saved ?? 0), 0),
+    count: list.length,
+    byMonth: bucketize(
+      list,
+      (r) => monthKey(r.redeemed_at),
+      (r) => new Date(r.redeemed_at).toLocaleDateString(undefined, { month: 'long', year: 'numeric' })
+    ).sort((a, b) => b.key.localeCompare(a.key)),
+    byStore: bucketize(
+      list,
+      (r) => (r.store ?? '').trim().toLowerCase() || '—',
+      (r) => r.store?.trim() || 'Unknown store'
+    ).sort(byTotal),
+    byCategory: bucketize(
+      list,
+      (r) => r.category ?? 'other',
+      (r) => r.category ?? 'other'
+    ).sort(byTotal),
+  };
+}
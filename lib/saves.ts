@@ -1,33 +1,21 @@
 // lib/saves.ts
+import { requireUid } from './api';
+import type { Discount } from './discount';
+import { getLocalSaved, queueSave, queueUnsave, syncNow } from './local-store';
 import { supabase } from './supabase';
 
-export async function saveCoupon(couponId: string) {
-  const { data: sess } = await supabase.auth.getSession();
-  const uid = sess.session?.user?.id;
-  if (!uid) throw new Error('Not signed in');
-
-  const { data, error } = await supabase
-    .from('coupon_saves')
-    .insert({ user_id: uid, coupon_id: couponId })
-    .select('*')
-    .single();
-
-  if (error) throw error;
-  return data;
+/** Save a public coupon; pass the coupon so it shows up in Saved while offline. */
+export async function saveCoupon(couponId: string, coupon?: SavedRow['coupon']) {
+  const uid = await requireUid();
+  await queueSave(uid, couponId, coupon);
+  await syncNow();
+  return { ok: true };
 }
 
 export async function unsaveCoupon(couponId: string) {
-  const { data: sess } = await supabase.auth.getSession();
-  const uid = sess.session?.user?.id;
-  if (!uid) throw new Error('Not signed in');
-
-  const { error } = await supabase
-    .from('coupon_saves')
-    .delete()
-    .eq('user_id', uid)
-    .eq('coupon_id', couponId);
-
-  if (error) throw error;
+  const uid = await requireUid();
+  await queueUnsave(uid, couponId);
+  await syncNow();
   return { ok: true };
 }
 
@@ -38,31 +26,19 @@ export type SavedRow = {
     id: string;
     store: string | null;
     title: string | null;
+    discount: Discount | null;
     terms: string | null;
     expires_at: string | null;
+    image_url: string | null;
     visibility: 'public' | 'private';
     created_at: string;
+    attrs?: Record<string, any> | null;
   } | null;
 };
 
-/** List coupons I saved (joins saves → coupons) */
+/** List coupons I saved (joins saves → coupons); served from the offline cache. */
 export async function listSavedCoupons(): Promise<SavedRow[]> {
-  const { data: sess } = await supabase.auth.getSession();
-  const uid = sess.session?.user?.id;
-  if (!uid) throw new Error('Not signed in');
-
-  // RLS will ensure you only see your rows
-  const { data, error } = await supabase
-    .from('coupon_saves')
-    .select(`
-      id, created_at,
-      coupon:coupons (
-        id, store, title, terms, expires_at, visibility, created_at
-      )
-    `)
-    .eq('user_id', uid)
-    .order('created_at', { ascending: false });
-
-  if (error) throw error;
-  return (data ?? []) as unknown as SavedRow[];
+  await requireUid();
+  await syncNow();
+  return getLocalSaved();
 }
@@ -0,0 +1,78 @@
+// lib/session.ts
+// Sign-out that leaves nothing of the account behind on the device: the offline coupon
+// cache, the geofences watching those coupons, the scheduled expiry reminders, the photos
+// kept for offline use, the inbox and every other `snapigo_` key (geocode and merchant
+// caches, archive settings, notification prefs and throttle state). The next account to
+// sign in starts clean. Queued changes are pushed first; if some can't be sent, the user
+// decides whether to lose them.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Alert } from 'react-native';
+
+import { clearExpiryReminders } from './expiry-reminders';
+import { stopAllGeofences } from './geo';
+import { clearGeocodeCache } from './geocode';
+import { clearOfflineImages } from './images';
+import { resetInbox } from './inbox';
+import { clearLocalStore, syncNow } from './local-store';
+import { supabase } from './supabase';
+
+// Every key this app writes to AsyncStorage; the Supabase session lives under its own key
+const KEY_PREFIX = 'snapigo_';
+
+export type SignOutResult = { signedOut: boolean; pending: number };
+
+/**
+ * Push queued changes, then sign out and clear the device. With changes still unsent
+ * (offline, server down) nothing happens unless `discardUnsynced` is set.
+ */
+export async function signOut({ discardUnsynced = false } = {}): Promise<SignOutResult> {
+  const { pending } = await syncNow();
+  if (pending && !discardUnsynced) return { signedOut: false, pending };
+
+  const { error } = await supabase.auth.signOut();
+  if (error) throw error;
+
+  // Modules holding state in memory first, so nothing writes it back after the sweep
+  const results = await Promise.allSettled([
+    clearLocalStore(),
+    stopAllGeofences(),
+    clearExpiryReminders(),
+    clearOfflineImages(),
+    clearGeocodeCache(),
+    resetInbox(),
+  ]);
+  try {
+    const keys = (await AsyncStorage.getAllKeys()).filter((k) => k.startsWith(KEY_PREFIX));
+    await AsyncStorage.multiRemove(keys);
+  } catch (e: any) {
+    results.push({ status: 'rejected', reason: e });
+  }
+  for (const r of results) {
+    if (r.status === 'rejected') console.warn('[Session] sign-out cleanup failed', r.reason?.message);
+  }
+  return { signedOut: true, pending };
+}
+
+/**
+ * Sign out from a button: asks before throwing away changes that couldn't be sent.
+ * Resolves true once signed out, false when the user kept their changes.
+ */
+export async function signOutWithConfirm(): Promise<boolean> {
+  const first = await signOut();
+  if (first.signedOut) return true;
+
+  const n = first.pending;
+  const discard = await new Promise<boolean>((resolve) =>
+    Alert.alert(
+      'Changes not synced',
+      `${n} change${n === 1 ? '' : 's'} on this device haven’t reached the server yet (no connection?). Signing out now loses ${n === 1 ? 'it' : 'them'}.`,
+      [
+        { text: 'Stay signed in', style: 'cancel', onPress: () => resolve(false) },
+        { text: 'Sign out anyway', style: 'destructive', onPress: () => resolve(true) },
+      ],
+      { cancelable: true, onDismiss: () => resolve(false) }
+    )
+  );
+  if (!discard) return false;
+  return (await signOut({ discardUnsynced: true })).signedOut;
+}
@@ -0,0 +1,96 @@
+// lib/shares.ts
+// Sharing a coupon with specific people, in between private and public. The owner shares
+// with a user by email or hands out an invite link (snapigo://share/<token>); recipients see
+// the coupon under "Shared with me" and can save it. Grants live in coupon_shares and the
+// coupons RLS lets grantees read the row, so revoking a grant takes the coupon away.
+// Unlike coupons and saves these calls need the network.
+import { onlineError, requireUid } from './api';
+import type { Coupon } from './coupons';
+import { isNetworkError } from './local-store';
+import { supabase } from './supabase';
+
+export type CouponShare = {
+  id: string;
+  coupon_id: string;
+  owner_id: string;
+  owner_email: string | null;
+  grantee_id: string | null;    // null for an invite link
+  grantee_email: string | null;
+  token: string | null;         // only on invite links
+  via_share_id: string | null;  // the link a grantee joined through
+  created_at: string;
+};
+
+export type SharedWithMe = CouponShare & { coupon: Coupon | null };
+
+const SCHEME = 'snapigo://';
+
+export const shareLink = (token: string) => `${SCHEME}share/${encodeURIComponent(token)}`;
+
+const OFFLINE = 'You’re offline. Sharing needs a connection.';
+
+/** Grants and invite links on one of my coupons, newest first. */
+export async function listCouponShares(couponId: string): Promise<CouponShare[]> {
+  const uid = await requireUid();
+  const { data, error } = await supabase
+    .from('coupon_shares')
+    .select('*')
+    .eq('coupon_id', couponId)
+    .eq('owner_id', uid)
+    .order('created_at', { ascending: false });
+  if (error) throw onlineError(error, OFFLINE, 'Sharing failed');
+  return (data ?? []) as CouponShare[];
+}
+
+/** Share with a Snapigo user by their account email. */
+export async function shareWithEmail(couponId: string, email: string): Promise<CouponShare> {
+  await requireUid();
+  const e = email.trim();
+  if (!/^\S+@\S+\.\S+$/.test(e)) throw new Error('Enter a valid email address');
+
+  const { data, error } = await supabase.rpc('share_coupon', { p_coupon_id: couponId, p_email: e });
+  if (error) throw onlineError(error, OFFLINE, 'Sharing failed');
+  return data as CouponShare;
+}
+
+/** A new invite link; anyone who opens it gets access until it's revoked. */
+export async function createShareLink(couponId: string): Promise<CouponShare & { url: string }> {
+  await requireUid();
+  const { data, error } = await supabase.rpc('create_coupon_share_link', { p_coupon_id: couponId });
+  if (error) throw onlineError(error, OFFLINE, 'Sharing failed');
+  const share = data as CouponShare;
+  return { ...share, url: shareLink(share.token!) };
+}
+
+/**
+ * Owner: revoke a grant or an invite link (and everyone who joined through it).
+ * Recipient: remove a coupon from "Shared with me".
+ */
+export async function revokeShare(shareId: string) {
+  await requireUid();
+  const { error } = await supabase.from('coupon_shares').delete().eq('id', shareId);
+  if (error) throw onlineError(error, OFFLINE, 'Sharing failed');
+}
+
+/** Open an invite link token; returns the coupon id to show. */
+export async function acceptShareLink(token: string): Promise<string> {
+  await requireUid();
+  const { data, error } = await supabase.rpc('accept_coupon_share', { p_token: token });
+  if (error) throw onlineError(error, OFFLINE, 'Sharing failed');
+  return data as string;
+}
+
+/** Coupons other people shared with me, newest first. Empty when offline. */
+export async function listSharedWithMe(): Promise<SharedWithMe[]> {
+  const uid = await requireUid();
+  const { data, error } = await supabase
+    .from('coupon_shares')
+    .select('*, coupon:coupons(*)')
+    .eq('grantee_id', uid)
+    .order('created_at', { ascending: false });
+  if (error) {
+    if (isNetworkError(error)) return [];
+    throw onlineError(error, OFFLINE, 'Sharing failed');
+  }
+  return ((data ?? []) as SharedWithMe[]).filter((s) => s.coupon);
+}
@@ -0,0 +1,98 @@
+// scripts/outbox-check.ts
+// Checks for the outbox bookkeeping in lib/outbox.ts. Run with: npm run test:outbox
+import assert from 'node:assert/strict';
+
+import {
+  outboxAfterDelete,
+  outboxAfterUpdate,
+  retargetOutbox,
+  type OutboxOp,
+} from '../lib/outbox';
+
+const at = '2026-10-19T12:00:00.000Z';
+const cases: { name: string; run: () => void }[] = [];
+const check = (name: string, run: () => void) => cases.push({ name, run });
+
+check('deleting a coupon that never reached the server just forgets it', () => {
+  const outbox: OutboxOp[] = [
+    { kind: 'add', id: 'local-a', payload: { store: 'Target' }, at },
+    { kind: 'save', coupon_id: 'srv-x', at },
+  ];
+  assert.deepEqual(outboxAfterDelete(outbox, {}, 'local-a', null, at), [outbox[1]]);
+});
+
+check('deleting a synced coupon by its old local id deletes the server row', () => {
+  const outbox: OutboxOp[] = [
+    { kind: 'update', id: 'srv-1', payload: { title: 'x' }, base_updated_at: null, at },
+  ];
+  const next = outboxAfterDelete(outbox, { 'local-a': 'srv-1' }, 'local-a', '2026-10-18T00:00:00Z', at);
+  assert.deepEqual(next, [
+    { kind: 'delete', id: 'srv-1', base_updated_at: '2026-10-18T00:00:00Z', at },
+  ]);
+});
+
+check('deleting a server coupon drops its pending edits and queues a delete', () => {
+  const outbox: OutboxOp[] = [
+    { kind: 'update', id: 'srv-1', payload: { title: 'x' }, base_updated_at: null, at },
+    { kind: 'update', id: 'srv-2', payload: { title: 'y' }, base_updated_at: null, at },
+  ];
+  assert.deepEqual(outboxAfterDelete(outbox, {}, 'srv-1', null, at), [
+    outbox[1],
+    { kind: 'delete', id: 'srv-1', base_updated_at: null, at },
+  ]);
+});
+
+check('editing a coupon whose add is queued folds the edit into the insert', () => {
+  const outbox: OutboxOp[] = [{ kind: 'add', id: 'local-a', payload: { store: 'Target' }, at }];
+  assert.deepEqual(outboxAfterUpdate(outbox, null, 'local-a', { title: 'x' }, null, at), [
+    { kind: 'add', id: 'local-a', payload: { store: 'Target', title: 'x' }, at },
+  ]);
+});
+
+check('editing a coupon whose add is being pushed queues a separate update', () => {
+  const add: OutboxOp = { kind: 'add', id: 'local-a', payload: { store: 'Target' }, at };
+  const next = outboxAfterUpdate([add], add, 'local-a', { title: 'x' }, null, at);
+  assert.equal(next[0], add);
+  assert.deepEqual(add.payload, { store: 'Target' });
+  assert.deepEqual(next[1], {
+    kind: 'update',
+    id: 'local-a',
+    payload: { title: 'x' },
+    base_updated_at: null,
+    at,
+  });
+});
+
+check('deleting a coupon whose add is being pushed deletes the row it creates', () => {
+  const add: OutboxOp = { kind: 'add', id: 'local-a', payload: { store: 'Target' }, at };
+  const next = outboxAfterDelete([add], {}, 'local-a', null, at, add);
+  assert.equal(next[0], add);
+  assert.deepEqual(next[1], { kind: 'delete', id: 'local-a', base_updated_at: null, at });
+});
+
+check('ops queued behind a pushed add are retargeted at the server row', () => {
+  const inserted = '2026-10-19T12:00:01.000Z';
+  const outbox: OutboxOp[] = [
+    { kind: 'update', id: 'local-a', payload: { title: 'x' }, base_updated_at: null, at },
+    { kind: 'delete', id: 'local-a', base_updated_at: null, at },
+    { kind: 'update', id: 'srv-2', payload: { title: 'y' }, base_updated_at: null, at },
+  ];
+  assert.deepEqual(retargetOutbox(outbox, 'local-a', 'srv-1', inserted), [
+    { kind: 'update', id: 'srv-1', payload: { title: 'x' }, base_updated_at: inserted, at },
+    { kind: 'delete', id: 'srv-1', base_updated_at: inserted, at: inserted },
+    outbox[2],
+  ]);
+});
+
+let failed = 0;
+for (const c of cases) {
+  try {
+    c.run();
+    console.log(`ok    ${c.name}`);
+  } catch (e: any) {
+    failed++;
+    console.log(`FAIL  ${c.name}\n${e?.message ?? e}`);
+  }
+}
+console.log(`\n${cases.length - failed}/${cases.length} passed`);
+if (failed) process.exit(1);
@@ -0,0 +1,192 @@
+/**
+ * Golden-file regression harness for lib/coupon-parse.
+ *
+ * Runs every corpus case (default: services/fixtures/*.json) through the same path the
+ * Scan tab uses — cleanOcrText → extractCoupon — and reports per-field precision/recall.
+ * Geocoding is replaced by each case's `geocode` table, so it runs offline.
+ *
+ * Case file:
+ *   {
+ *     "name": "valpak-pizza",
+ *     "source": "where the sample came from",
+ *     "text": "optional raw OCR text (defaults to the block texts joined by newlines)",
+ *     "blocks": [{ "text": "GIOVANNI'S PIZZA", "bbox": { "x": 0, "y": 0, "w": 0, "h": 0 } }],
+ *     "geocode": { "4410 Plainfield Ave NE": { "lat": 43.0, "lng": -85.6 } },
+ *     "expected": { "store": "Giovanni's Pizza", "phone": null, "discount": { "kind": "percent", "value": 20 } },
+ *     "known_failures": { "address": "why the parser gets this wrong today" }
+ *   }
+ * Only fields listed in `expected` are scored; `null` means "should not be extracted".
+ * Fields in `known_failures` are still scored but don't fail --strict; one that starts
+ * passing is reported so the entry can be removed.
+ * `discount` matches on kind, headline numbers and min-purchase / max-discount.
+ *
+ * Usage: npm run parse:golden [-- <dir-or-file>...] [--verbose] [--strict]
+ */
+import fs from 'fs';
+import path from 'path';
+
+import {
+  cleanOcrText,
+  extractCoupon,
+  normalizeName,
+  type OcrLineBlock,
+  type ParsedCoupon,
+} from '../lib/coupon-parse';
+import type { Discount } from '../lib/discount';
+
+type ScoredField =
+  | 'store'
+  | 'title'
+  | 'discount'
+  | 'address'
+  | 'phone'
+  | 'expires_at'
+  | 'mode'
+  | 'publication';
+const FIELDS: ScoredField[] = [
+  'store',
+  'title',
+  'discount',
+  'address',
+  'phone',
+  'expires_at',
+  'mode',
+  'publication',
+];
+
+type Expected = string | Discount | null;
+
+type GoldenCase = {
+  name: string;
+  source?: string;
+  text?: string;
+  blocks: OcrLineBlock[];
+  geocode?: Record<string, { lat: number; lng: number }>;
+  expected: Partial<Record<ScoredField, Expected>>;
+  known_failures?: Partial<Record<ScoredField, string>>;
+};
+
+type Tally = { tp: number; fp: number; fn: number };
+
+const DEFAULT_DIR = path.join(__dirname, '..', 'services', 'fixtures');
+
+// Only the parts of a Discount that change what the shopper gets
+function discountKey(d: Discount): string {
+  const { kind, min_purchase, max_discount } = d;
+  const rest = Object.entries(d)
+    .filter(([k]) => !['kind', 'min_purchase', 'max_discount'].includes(k))
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([k, v]) => `${k}=${JSON.stringify(v)}`);
+  return [kind, ...rest, `min=${min_purchase ?? ''}`, `max=${max_discount ?? ''}`].join('|');
+}
+
+function comparable(field: ScoredField, v: Expected | undefined): string {
+  if (v == null) return '';
+  if (typeof v !== 'string') return discountKey(v);
+  if (field === 'phone') return v.replace(/\D/g, '').replace(/^1(?=\d{10}$)/, '');
+  if (field === 'expires_at' || field === 'mode') return v.trim();
+  return normalizeName(v);
+}
+
+function loadCases(targets: string[]): GoldenCase[] {
+  const files: string[] = [];
+  for (const t of targets) {
+    const stat = fs.statSync(t);
+    if (stat.isDirectory()) {
+      for (const f of fs.readdirSync(t).sort()) {
+        if (f.endsWith('.json')) files.push(path.join(t, f));
+      }
+    } else {
+      files.push(t);
+    }
+  }
+  return files
+    .map((f) => JSON.parse(fs.readFileSync(f, 'utf8')) as GoldenCase)
+    .filter((c) => c.expected && Array.isArray(c.blocks));
+}
+
+async function runCase(c: GoldenCase): Promise<ParsedCoupon> {
+  const raw = c.text ?? c.blocks.map((b) => b.text).join('\n');
+  const geocode = async (address: string) => c.geocode?.[address] ?? null;
+  return extractCoupon(cleanOcrText(raw), c.blocks, { geocode });
+}
+
+const pct = (n: number, d: number) => (d ? `${((n / d) * 100).toFixed(0)}%` : '  –');
+
+async function main() {
+  const args = process.argv.slice(2);
+  const verbose = args.includes('--verbose');
+  const strict = args.includes('--strict');
+  const targets = args.filter((a) => !a.startsWith('--'));
+
+  const cases = loadCases(targets.length ? targets : [DEFAULT_DIR]);
+  if (!cases.length) {
+    console.error('No golden cases found.');
+    process.exit(1);
+  }
+
+  const tallies = Object.fromEntries(FIELDS.map((f) => [f, { tp: 0, fp: 0, fn: 0 }])) as Record<
+    ScoredField,
+    Tally
+  >;
+  const misses: string[] = [];
+  const known: string[] = [];
+  const fixed: string[] = [];
+
+  for (const c of cases) {
+    const parsed = await runCase(c);
+
+    for (const field of FIELDS) {
+      if (!(field in c.expected)) continue;
+      const want = comparable(field, c.expected[field]);
+      const got = comparable(field, parsed[field] as Expected | undefined);
+      const t = tallies[field];
+
+      const knownWhy = c.known_failures?.[field];
+      if ((!got && !want) || (got && want && got === want)) {
+        if (got) t.tp += 1;
+        if (knownWhy) fixed.push(`  ${c.name} · ${field}`);
+      } else {
+        if (got) t.fp += 1;
+        if (want) t.fn += 1;
+        const src = parsed.fields[field];
+        (knownWhy ? known : misses).push(
+          `  ${c.name} · ${field}: expected ${JSON.stringify(c.expected[field])}, got ${JSON.stringify(
+            parsed[field] ?? null
+          )}${src ? ` (${src.stage} @ ${src.confidence})` : ''}${knownWhy ? ` — ${knownWhy}` : ''}`
+        );
+      }
+    }
+
+    if (verbose) console.log(c.name, JSON.stringify(parsed, null, 2));
+  }
+
+  console.log(`Coupon parser golden run: ${cases.length} case(s)\n`);
+  console.log('field        precision  recall   tp  fp  fn');
+  for (const field of FIELDS) {
+    const { tp, fp, fn } = tallies[field];
+    console.log(
+      `${field.padEnd(12)} ${pct(tp, tp + fp).padStart(9)} ${pct(tp, tp + fn).padStart(7)} ${String(tp).padStart(4)}${String(fp).padStart(4)}${String(fn).padStart(4)}`
+    );
+  }
+
+  if (misses.length) {
+    console.log(`\nMismatches (${misses.length}):`);
+    misses.forEach((m) => console.log(m));
+  }
+  if (known.length) {
+    console.log(`\nKnown failures (${known.length}):`);
+    known.forEach((m) => console.log(m));
+  }
+  if (fixed.length) {
+    console.log(`\nNow passing, remove from known_failures (${fixed.length}):`);
+    fixed.forEach((m) => console.log(m));
+  }
+
+  if (strict && (misses.length || fixed.length)) process.exit(1);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
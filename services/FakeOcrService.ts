@@ -1,18 +1,44 @@
-export type Coupon = {
-    merchant: string;
-    offer: string;
-    address:string;
-    expiry?: string;
-    createdAt: number;
+// services/FakeOcrService.ts
+// Deterministic OCR engine for dev builds and tests: replays stored OcrBlocks
+// from JSON fixtures instead of calling Apple Vision / ML Kit.
+import type { OcrBlocks, OcrEngine } from '../lib/ocr';
+import meltingPot from './fixtures/entertainment-melting-pot.json';
+import tacos from './fixtures/key-card-tacos.json';
+import meijer from './fixtures/meijer-bogo.json';
+import starbucks from './fixtures/starbucks.json';
+import pizza from './fixtures/valpak-pizza.json';
+
+export type OcrFixture = {
+  name: string;
+  blocks: OcrBlocks;
+};
+
+// The same files double as the parser's golden corpus (scripts/parse-golden.ts)
+export const DEFAULT_OCR_FIXTURES: OcrFixture[] = [
+  starbucks,
+  meltingPot,
+  pizza,
+  meijer,
+  tacos,
+] as OcrFixture[];
+
+/**
+ * Build a fixture-backed engine.
+ * If the image uri contains a fixture's name (e.g. ".../starbucks.jpg") that fixture
+ * is replayed; otherwise fixtures are returned in order, wrapping around.
+ */
+export function createFixtureOcrEngine(fixtures: OcrFixture[] = DEFAULT_OCR_FIXTURES): OcrEngine {
+  let cursor = 0;
+
+  return {
+    id: 'fixture',
+    isAvailable: () => fixtures.length > 0,
+    recognize: async (uri) => {
+      const lower = uri.toLowerCase();
+      const named = fixtures.find((f) => lower.includes(f.name.toLowerCase()));
+      const pick = named ?? fixtures[cursor++ % fixtures.length];
+      // hand out copies so callers can't mutate the stored fixture
+      return pick.blocks.map((b) => ({ text: b.text, bbox: b.bbox ? { ...b.bbox } : undefined }));
+    },
   };
-  
-  export async function fakeOcr(): Promise<Coupon> {
-    return {
-      merchant: "Starbucks",
-      offer: "50% off any drink",
-      expiry: "2025-12-20",
-      address:"123 Street NW , 49505",
-      createdAt: Date.now(),
-    };
-  }
-  
\ No newline at end of file
+}
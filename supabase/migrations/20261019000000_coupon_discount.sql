@@ -0,0 +1,21 @@
+-- Structured discount (see lib/discount.ts for the shape).
+-- `title` stays as the human-readable label; `discount` is what we sort/filter on.
+
+alter table public.coupons
+  add column if not exists discount jsonb;
+
+alter table public.coupons
+  add column if not exists discount_kind text
+    generated always as (discount->>'kind') stored;
+
+-- Headline number: percent for 'percent', dollars for 'amount', best tier for 'tiered'
+alter table public.coupons
+  add column if not exists discount_value numeric
+    generated always as ((discount->>'value')::numeric) stored;
+
+create index if not exists coupons_discount_kind_idx
+  on public.coupons (discount_kind);
+
+create index if not exists coupons_public_discount_value_idx
+  on public.coupons (discount_value desc nulls last)
+  where visibility = 'public';
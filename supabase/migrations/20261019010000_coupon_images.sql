@@ -0,0 +1,20 @@
+-- Coupon photos: public-read bucket, writes limited to the uploader's own folder
+-- (objects are stored as `<auth.uid()>/<key>.jpg` and `<key>_thumb.jpg`).
+
+insert into storage.buckets (id, name, public)
+values ('coupon-images', 'coupon-images', true)
+on conflict (id) do nothing;
+
+create policy "coupon images: owner can upload"
+  on storage.objects for insert to authenticated
+  with check (
+    bucket_id = 'coupon-images'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+create policy "coupon images: owner can delete"
+  on storage.objects for delete to authenticated
+  using (
+    bucket_id = 'coupon-images'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
@@ -0,0 +1,3 @@
+-- Barcodes / QR codes captured while scanning: [{ "format": "ean13", "data": "...", "source": "photo" }]
+alter table public.coupons
+  add column if not exists barcodes jsonb;
@@ -0,0 +1,29 @@
+-- Realtime feed: broadcast coupon changes, and keep saves_count on the coupon row so
+-- other users' saves reach the feed (their coupon_saves rows are hidden by RLS).
+create or replace function public.refresh_coupon_saves_count()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  cid uuid := coalesce(new.coupon_id, old.coupon_id);
+begin
+  update public.coupons
+     set saves_count = (select count(*) from public.coupon_saves s where s.coupon_id = cid)
+   where id = cid;
+  return null;
+end;
+$$;
+
+drop trigger if exists coupon_saves_count on public.coupon_saves;
+create trigger coupon_saves_count
+  after insert or delete on public.coupon_saves
+  for each row execute function public.refresh_coupon_saves_count();
+
+do $$
+begin
+  alter publication supabase_realtime add table public.coupons;
+exception when duplicate_object then null;
+end;
+$$;
@@ -0,0 +1,90 @@
+-- Nearby search: a PostGIS point kept in sync with attrs.geo (or legacy attrs.lat/lng),
+-- a GiST index on it, and coupons_near() used by getCouponsNear() in lib/coupons.ts.
+create extension if not exists postgis with schema extensions;
+
+create or replace function public.coupon_geog(attrs jsonb)
+returns extensions.geography
+language sql
+immutable
+as $$
+  select case
+    when coalesce(attrs->'geo'->>'lat', attrs->>'lat') is null
+      or coalesce(attrs->'geo'->>'lng', attrs->>'lng') is null then null
+    else extensions.st_setsrid(
+      extensions.st_makepoint(
+        coalesce(attrs->'geo'->>'lng', attrs->>'lng')::double precision,
+        coalesce(attrs->'geo'->>'lat', attrs->>'lat')::double precision
+      ),
+      4326
+    )::extensions.geography
+  end;
+$$;
+
+alter table public.coupons
+  add column if not exists geog extensions.geography(Point, 4326);
+
+create or replace function public.coupons_set_geog()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.geog := public.coupon_geog(new.attrs);
+  return new;
+end;
+$$;
+
+drop trigger if exists coupons_geog on public.coupons;
+create trigger coupons_geog
+  before insert or update of attrs on public.coupons
+  for each row execute function public.coupons_set_geog();
+
+update public.coupons set geog = public.coupon_geog(attrs) where geog is null and attrs is not null;
+
+create index if not exists coupons_geog_idx on public.coupons using gist (geog);
+
+-- Public coupons within radius_m metres, nearest first. Runs as the caller so RLS still applies.
+-- total_count is the number of matches before limit/offset (for the "near me" badge).
+create or replace function public.coupons_near(
+  p_lat double precision,
+  p_lng double precision,
+  p_radius_m double precision,
+  p_category text default null,
+  p_publication text default null,
+  p_independent boolean default false,
+  p_discount_kind text default null,
+  p_q text default null,
+  p_limit integer default 20,
+  p_offset integer default 0
+)
+returns table (coupon jsonb, distance_m double precision, total_count bigint)
+language sql
+stable
+as $$
+  with origin as (
+    select extensions.st_setsrid(extensions.st_makepoint(p_lng, p_lat), 4326)::extensions.geography as g
+  )
+  select
+    to_jsonb(c) - 'geog',
+    extensions.st_distance(c.geog, o.g),
+    count(*) over ()
+  from public.coupons c, origin o
+  where c.visibility = 'public'
+    and c.geog is not null
+    and extensions.st_dwithin(c.geog, o.g, p_radius_m)
+    and (p_category is null or c.category::text = p_category)
+    and (not p_independent or c.publication is null)
+    and (p_publication is null or c.publication ilike p_publication)
+    and (p_discount_kind is null or c.discount->>'kind' = p_discount_kind)
+    and (
+      p_q is null
+      or c.store ilike '%' || p_q || '%'
+      or c.title ilike '%' || p_q || '%'
+      or c.publication ilike '%' || p_q || '%'
+    )
+  order by 2, c.created_at desc
+  limit p_limit offset p_offset;
+$$;
+
+grant execute on function public.coupons_near(
+  double precision, double precision, double precision, text, text, boolean, text, text, integer, integer
+) to authenticated;
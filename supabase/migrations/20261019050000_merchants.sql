@@ -0,0 +1,47 @@
+-- Multi-location merchants: a coupon with merchant_id is valid at every branch of that merchant.
+-- Branches are crowd-sourced from the addresses of coupons saved against the merchant.
+create table if not exists public.merchants (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  name_key text not null unique,          -- normalizeName(name): lowercase, alphanumerics only
+  created_by uuid default auth.uid() references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.merchant_locations (
+  id uuid primary key default gen_random_uuid(),
+  merchant_id uuid not null references public.merchants (id) on delete cascade,
+  address text not null,
+  address_key text not null,              -- normalizeAddressKey(address)
+  lat double precision not null,
+  lng double precision not null,
+  created_by uuid default auth.uid() references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (merchant_id, address_key)
+);
+
+create index if not exists merchant_locations_merchant_idx on public.merchant_locations (merchant_id);
+
+alter table public.coupons
+  add column if not exists merchant_id uuid references public.merchants (id) on delete set null;
+
+create index if not exists coupons_merchant_idx on public.coupons (merchant_id);
+
+alter table public.merchants enable row level security;
+alter table public.merchant_locations enable row level security;
+
+drop policy if exists "merchants readable" on public.merchants;
+create policy "merchants readable" on public.merchants
+  for select to authenticated using (true);
+
+drop policy if exists "merchants insert" on public.merchants;
+create policy "merchants insert" on public.merchants
+  for insert to authenticated with check (created_by = auth.uid());
+
+drop policy if exists "merchant locations readable" on public.merchant_locations;
+create policy "merchant locations readable" on public.merchant_locations
+  for select to authenticated using (true);
+
+drop policy if exists "merchant locations insert" on public.merchant_locations;
+create policy "merchant locations insert" on public.merchant_locations
+  for insert to authenticated with check (created_by = auth.uid());
@@ -0,0 +1,15 @@
+-- Nearby-alert preferences (lib/notify-prefs.ts). The app caches them on the device;
+-- this copy lets them follow the user to a new phone.
+create table if not exists public.notification_prefs (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  prefs jsonb not null default '{}'::jsonb,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.notification_prefs enable row level security;
+
+drop policy if exists "own notification prefs" on public.notification_prefs;
+create policy "own notification prefs" on public.notification_prefs
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
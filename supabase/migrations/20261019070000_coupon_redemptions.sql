@@ -0,0 +1,25 @@
+-- "I used this": one row per redemption, with what it saved (lib/redemptions.ts).
+-- Store/title/category are copied from the coupon so the history survives its deletion.
+create table if not exists public.coupon_redemptions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  coupon_id uuid references public.coupons (id) on delete set null,
+  store text,
+  title text,
+  category text,
+  amount_saved numeric(10, 2) check (amount_saved is null or amount_saved >= 0),
+  single_use boolean not null default true, -- done with the coupon: no more nearby alerts
+  redeemed_at timestamptz not null default now(),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists coupon_redemptions_user_idx
+  on public.coupon_redemptions (user_id, redeemed_at desc);
+
+alter table public.coupon_redemptions enable row level security;
+
+drop policy if exists "own redemptions" on public.coupon_redemptions;
+create policy "own redemptions" on public.coupon_redemptions
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
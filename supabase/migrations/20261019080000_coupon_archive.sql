@@ -0,0 +1,52 @@
+-- Archived (expired) coupons drop out of public queries. A day of grace covers expiries saved
+-- as a bare date (midnight UTC); the app hides the stragglers with isExpired() in lib/coupons.ts.
+create index if not exists coupons_public_expires_idx
+  on public.coupons (expires_at)
+  where visibility = 'public';
+
+-- Same as 20261019040000_coupons_near.sql, plus the expiry filter.
+create or replace function public.coupons_near(
+  p_lat double precision,
+  p_lng double precision,
+  p_radius_m double precision,
+  p_category text default null,
+  p_publication text default null,
+  p_independent boolean default false,
+  p_discount_kind text default null,
+  p_q text default null,
+  p_limit integer default 20,
+  p_offset integer default 0
+)
+returns table (coupon jsonb, distance_m double precision, total_count bigint)
+language sql
+stable
+as $$
+  with origin as (
+    select extensions.st_setsrid(extensions.st_makepoint(p_lng, p_lat), 4326)::extensions.geography as g
+  )
+  select
+    to_jsonb(c) - 'geog',
+    extensions.st_distance(c.geog, o.g),
+    count(*) over ()
+  from public.coupons c, origin o
+  where c.visibility = 'public'
+    and c.geog is not null
+    and extensions.st_dwithin(c.geog, o.g, p_radius_m)
+    and (c.expires_at is null or c.expires_at >= now() - interval '1 day')
+    and (p_category is null or c.category::text = p_category)
+    and (not p_independent or c.publication is null)
+    and (p_publication is null or c.publication ilike p_publication)
+    and (p_discount_kind is null or c.discount->>'kind' = p_discount_kind)
+    and (
+      p_q is null
+      or c.store ilike '%' || p_q || '%'
+      or c.title ilike '%' || p_q || '%'
+      or c.publication ilike '%' || p_q || '%'
+    )
+  order by 2, c.created_at desc
+  limit p_limit offset p_offset;
+$$;
+
+grant execute on function public.coupons_near(
+  double precision, double precision, double precision, text, text, boolean, text, text, integer, integer
+) to authenticated;
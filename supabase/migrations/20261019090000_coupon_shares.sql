@@ -0,0 +1,140 @@
+-- Sharing a private coupon with specific people (lib/shares.ts).
+-- A row is either a grant to one user (grantee_id) or an invite link (token, no grantee).
+-- Opening snapigo://share/<token> turns the link into a grant for whoever opened it
+-- (via_share_id), so revoking the link also revokes everyone who joined through it.
+create table if not exists public.coupon_shares (
+  id uuid primary key default gen_random_uuid(),
+  coupon_id uuid not null references public.coupons (id) on delete cascade,
+  owner_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  owner_email text,
+  grantee_id uuid references auth.users (id) on delete cascade,
+  grantee_email text,
+  token text unique,
+  via_share_id uuid references public.coupon_shares (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  check ((grantee_id is null) <> (token is null)),
+  unique (coupon_id, grantee_id)
+);
+
+create index if not exists coupon_shares_grantee_idx on public.coupon_shares (grantee_id, created_at desc);
+create index if not exists coupon_shares_coupon_idx on public.coupon_shares (coupon_id);
+
+alter table public.coupon_shares enable row level security;
+
+-- The owner manages every grant and link on their coupons
+drop policy if exists "owner shares" on public.coupon_shares;
+create policy "owner shares" on public.coupon_shares
+  for all to authenticated
+  using (owner_id = auth.uid())
+  with check (
+    owner_id = auth.uid()
+    and exists (select 1 from public.coupons c where c.id = coupon_id and c.owner_id = auth.uid())
+  );
+
+-- Recipients see their own grants and can drop them ("remove from Shared with me")
+drop policy if exists "grantee reads share" on public.coupon_shares;
+create policy "grantee reads share" on public.coupon_shares
+  for select to authenticated using (grantee_id = auth.uid());
+
+drop policy if exists "grantee removes share" on public.coupon_shares;
+create policy "grantee removes share" on public.coupon_shares
+  for delete to authenticated using (grantee_id = auth.uid());
+
+-- Shared coupons are readable by their grantees, next to the owner/public policies
+drop policy if exists "shared coupons readable" on public.coupons;
+create policy "shared coupons readable" on public.coupons
+  for select to authenticated
+  using (
+    exists (
+      select 1 from public.coupon_shares s
+       where s.coupon_id = coupons.id and s.grantee_id = auth.uid()
+    )
+  );
+
+-- Share with a registered user by email; only the coupon's owner may call it.
+create or replace function public.share_coupon(p_coupon_id uuid, p_email text)
+returns public.coupon_shares
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target uuid;
+  share public.coupon_shares;
+begin
+  if not exists (select 1 from coupons where id = p_coupon_id and owner_id = auth.uid()) then
+    raise exception 'You can only share your own coupons' using errcode = '42501';
+  end if;
+
+  select id into target from auth.users where lower(email) = lower(trim(p_email));
+  if target is null then
+    raise exception 'No Snapigo account uses that email' using errcode = 'P0002';
+  end if;
+  if target = auth.uid() then
+    raise exception 'That is your own account' using errcode = '22023';
+  end if;
+
+  insert into coupon_shares (coupon_id, owner_id, owner_email, grantee_id, grantee_email)
+  values (
+    p_coupon_id,
+    auth.uid(),
+    (select email from auth.users where id = auth.uid()),
+    target,
+    lower(trim(p_email))
+  )
+  on conflict (coupon_id, grantee_id) do update set via_share_id = null
+  returning * into share;
+  return share;
+end;
+$$;
+
+-- New invite link for one of my coupons (RLS above checks ownership).
+create or replace function public.create_coupon_share_link(p_coupon_id uuid)
+returns public.coupon_shares
+language sql
+as $$
+  insert into public.coupon_shares (coupon_id, owner_id, owner_email, token)
+  values (
+    p_coupon_id,
+    auth.uid(),
+    auth.jwt() ->> 'email',
+    replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', '')
+  )
+  returning *;
+$$;
+
+-- Open an invite link: grants the caller access and returns the coupon id.
+create or replace function public.accept_coupon_share(p_token text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  link public.coupon_shares;
+begin
+  select * into link from coupon_shares where token = p_token;
+  if link.id is null then
+    raise exception 'This share link was revoked or does not exist' using errcode = 'P0002';
+  end if;
+  if link.owner_id = auth.uid() then
+    return link.coupon_id;
+  end if;
+
+  insert into coupon_shares (coupon_id, owner_id, owner_email, grantee_id, grantee_email, via_share_id)
+  values (
+    link.coupon_id,
+    link.owner_id,
+    link.owner_email,
+    auth.uid(),
+    (select email from auth.users where id = auth.uid()),
+    link.id
+  )
+  on conflict (coupon_id, grantee_id) do nothing;
+  return link.coupon_id;
+end;
+$$;
+
+revoke execute on function public.share_coupon(uuid, text) from anon;
+revoke execute on function public.accept_coupon_share(text) from anon;
+revoke execute on function public.create_coupon_share_link(uuid) from anon;
@@ -0,0 +1,195 @@
+-- Household / group wallets (lib/groups.ts). A coupon keeps its owner_id; setting
+-- coupons.group_id puts it in a group's shared wallet, where every member can see it and
+-- get nearby alerts for it.
+-- Roles: owner (rename / delete the group, change roles), admin (add / remove members, take
+-- any coupon out of the wallet), member (add / remove their own coupons).
+create table if not exists public.coupon_groups (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (length(trim(name)) > 0),
+  created_by uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.coupon_group_members (
+  group_id uuid not null references public.coupon_groups (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  email text,
+  role text not null default 'member' check (role in ('owner', 'admin', 'member')),
+  joined_at timestamptz not null default now(),
+  primary key (group_id, user_id)
+);
+
+create index if not exists coupon_group_members_user_idx on public.coupon_group_members (user_id);
+
+alter table public.coupons
+  add column if not exists group_id uuid references public.coupon_groups (id) on delete set null;
+
+create index if not exists coupons_group_idx on public.coupons (group_id) where group_id is not null;
+
+-- Role lookups for policies; security definer so member policies don't recurse
+create or replace function public.coupon_group_role(p_group_id uuid, p_user_id uuid default auth.uid())
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from coupon_group_members where group_id = p_group_id and user_id = p_user_id;
+$$;
+
+alter table public.coupon_groups enable row level security;
+alter table public.coupon_group_members enable row level security;
+
+drop policy if exists "members read group" on public.coupon_groups;
+create policy "members read group" on public.coupon_groups
+  for select to authenticated using (public.coupon_group_role(id) is not null);
+
+drop policy if exists "owner edits group" on public.coupon_groups;
+create policy "owner edits group" on public.coupon_groups
+  for update to authenticated using (public.coupon_group_role(id) = 'owner');
+
+drop policy if exists "owner deletes group" on public.coupon_groups;
+create policy "owner deletes group" on public.coupon_groups
+  for delete to authenticated using (public.coupon_group_role(id) = 'owner');
+
+drop policy if exists "members read members" on public.coupon_group_members;
+create policy "members read members" on public.coupon_group_members
+  for select to authenticated using (public.coupon_group_role(group_id) is not null);
+
+-- Leave a group yourself, or be removed by an admin (owners can only be removed by owners)
+drop policy if exists "leave or remove member" on public.coupon_group_members;
+create policy "leave or remove member" on public.coupon_group_members
+  for delete to authenticated
+  using (
+    user_id = auth.uid()
+    or public.coupon_group_role(group_id) = 'owner'
+    or (public.coupon_group_role(group_id) = 'admin' and role <> 'owner')
+  );
+
+drop policy if exists "owner sets roles" on public.coupon_group_members;
+create policy "owner sets roles" on public.coupon_group_members
+  for update to authenticated using (public.coupon_group_role(group_id) = 'owner');
+
+-- Wallet coupons are readable by every member, next to the owner/public/shared policies
+drop policy if exists "group coupons readable" on public.coupons;
+create policy "group coupons readable" on public.coupons
+  for select to authenticated
+  using (group_id is not null and public.coupon_group_role(group_id) is not null);
+
+-- Create a group with the caller as its owner.
+create or replace function public.create_coupon_group(p_name text)
+returns public.coupon_groups
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  g public.coupon_groups;
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in' using errcode = '42501';
+  end if;
+  insert into coupon_groups (name, created_by) values (trim(p_name), auth.uid()) returning * into g;
+  insert into coupon_group_members (group_id, user_id, email, role)
+  values (g.id, auth.uid(), (select email from auth.users where id = auth.uid()), 'owner');
+  return g;
+end;
+$$;
+
+-- Only members can put a coupon in a wallet
+create or replace function public.check_coupon_group()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.group_id is not null and public.coupon_group_role(new.group_id, new.owner_id) is null then
+    raise exception 'You are not a member of that group' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists coupons_group_check on public.coupons;
+create trigger coupons_group_check
+  before insert or update of group_id on public.coupons
+  for each row execute function public.check_coupon_group();
+
+-- Someone who leaves (or is removed) takes their coupons out of the wallet
+create or replace function public.release_member_coupons()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update coupons set group_id = null where group_id = old.group_id and owner_id = old.user_id;
+  return null;
+end;
+$$;
+
+drop trigger if exists coupon_group_members_release on public.coupon_group_members;
+create trigger coupon_group_members_release
+  after delete on public.coupon_group_members
+  for each row execute function public.release_member_coupons();
+
+-- Add a registered user by email; owners and admins only.
+create or replace function public.add_coupon_group_member(
+  p_group_id uuid,
+  p_email text,
+  p_role text default 'member'
+)
+returns public.coupon_group_members
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target uuid;
+  member public.coupon_group_members;
+begin
+  if coalesce(public.coupon_group_role(p_group_id), '') not in ('owner', 'admin') then
+    raise exception 'Only group owners and admins can add members' using errcode = '42501';
+  end if;
+  if p_role not in ('admin', 'member') then
+    raise exception 'Invalid role' using errcode = '22023';
+  end if;
+
+  select id into target from auth.users where lower(email) = lower(trim(p_email));
+  if target is null then
+    raise exception 'No Snapigo account uses that email' using errcode = 'P0002';
+  end if;
+
+  insert into coupon_group_members (group_id, user_id, email, role)
+  values (p_group_id, target, lower(trim(p_email)), p_role)
+  on conflict (group_id, user_id) do update set email = excluded.email
+  returning * into member;
+  return member;
+end;
+$$;
+
+-- Take someone else's coupon out of the wallet; owners and admins only.
+create or replace function public.remove_coupon_from_group(p_coupon_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  gid uuid;
+begin
+  select group_id into gid from coupons where id = p_coupon_id;
+  if gid is null then
+    return;
+  end if;
+  if coalesce(public.coupon_group_role(gid), '') not in ('owner', 'admin') then
+    raise exception 'Only group owners and admins can remove coupons' using errcode = '42501';
+  end if;
+  update coupons set group_id = null, updated_at = now() where id = p_coupon_id;
+end;
+$$;
+
+revoke execute on function public.create_coupon_group(text) from anon;
+revoke execute on function public.add_coupon_group_member(uuid, text, text) from anon;
+revoke execute on function public.remove_coupon_from_group(uuid) from anon;
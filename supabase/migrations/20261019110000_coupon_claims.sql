@@ -0,0 +1,171 @@
+-- Claim-limited public coupons (lib/claims.ts). A paper coupon that only works once can be
+-- posted with claim_limit = 1 (or N): claiming reserves it for the claimer, and the feed
+-- shows how many are left. A claim that isn't used (no redemption) within the hold period,
+-- or by the coupon's expiry, is released so someone else can have it.
+alter table public.coupons
+  add column if not exists claim_limit integer check (claim_limit is null or claim_limit > 0),
+  add column if not exists claims_count integer not null default 0; -- active claims, kept by trigger
+
+create table if not exists public.coupon_claims (
+  id uuid primary key default gen_random_uuid(),
+  coupon_id uuid not null references public.coupons (id) on delete cascade,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  claimed_at timestamptz not null default now(),
+  hold_until timestamptz not null,  -- released after this unless redeemed
+  redeemed_at timestamptz,
+  unique (coupon_id, user_id)
+);
+
+create index if not exists coupon_claims_user_idx on public.coupon_claims (user_id, claimed_at desc);
+create index if not exists coupon_claims_hold_idx on public.coupon_claims (hold_until) where redeemed_at is null;
+
+alter table public.coupon_claims enable row level security;
+
+-- My claims, and the claims on coupons I posted. Claims are made through claim_coupon().
+drop policy if exists "read claims" on public.coupon_claims;
+create policy "read claims" on public.coupon_claims
+  for select to authenticated
+  using (
+    user_id = auth.uid()
+    or exists (select 1 from public.coupons c where c.id = coupon_id and c.owner_id = auth.uid())
+  );
+
+drop policy if exists "release own claim" on public.coupon_claims;
+create policy "release own claim" on public.coupon_claims
+  for delete to authenticated using (user_id = auth.uid() and redeemed_at is null);
+
+-- claims_count on the coupon row, so the feed (and Realtime) see "X left" without reading claims
+create or replace function public.refresh_coupon_claims_count()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  cid uuid := coalesce(new.coupon_id, old.coupon_id);
+begin
+  update public.coupons
+     set claims_count = (
+       select count(*) from public.coupon_claims k
+        where k.coupon_id = cid and (k.redeemed_at is not null or k.hold_until > now())
+     )
+   where id = cid;
+  return null;
+end;
+$$;
+
+drop trigger if exists coupon_claims_count on public.coupon_claims;
+create trigger coupon_claims_count
+  after insert or update or delete on public.coupon_claims
+  for each row execute function public.refresh_coupon_claims_count();
+
+-- Drop unused claims whose hold ran out (the trigger above frees their slots)
+create or replace function public.release_expired_claims(p_coupon_id uuid default null)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  n integer;
+begin
+  delete from coupon_claims
+   where redeemed_at is null
+     and hold_until <= now()
+     and (p_coupon_id is null or coupon_id = p_coupon_id);
+  get diagnostics n = row_count;
+  return n;
+end;
+$$;
+
+-- Reserve a claim-limited public coupon. Returns my claim (the existing one if I already have it).
+create or replace function public.claim_coupon(p_coupon_id uuid, p_hold interval default interval '48 hours')
+returns public.coupon_claims
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  c public.coupons;
+  mine public.coupon_claims;
+  active integer;
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in' using errcode = '42501';
+  end if;
+
+  -- Row lock: two people can't take the last claim at the same time
+  select * into c from coupons where id = p_coupon_id for update;
+  if c.id is null or c.visibility <> 'public' then
+    raise exception 'This coupon is no longer available' using errcode = 'P0002';
+  end if;
+  if c.expires_at is not null and c.expires_at < now() then
+    raise exception 'This coupon has expired' using errcode = '22023';
+  end if;
+
+  perform release_expired_claims(p_coupon_id);
+
+  select * into mine from coupon_claims where coupon_id = p_coupon_id and user_id = auth.uid();
+  if mine.id is not null then
+    return mine;
+  end if;
+
+  if c.claim_limit is not null then
+    select count(*) into active from coupon_claims where coupon_id = p_coupon_id;
+    if active >= c.claim_limit then
+      raise exception 'Already claimed by someone else' using errcode = 'P0001';
+    end if;
+  end if;
+
+  insert into coupon_claims (coupon_id, user_id, hold_until)
+  values (
+    p_coupon_id,
+    auth.uid(),
+    least(now() + p_hold, coalesce(c.expires_at, 'infinity'::timestamptz))
+  )
+  returning * into mine;
+  return mine;
+end;
+$$;
+
+-- Using a claimed coupon ("Mark as used") makes the claim permanent; undoing it re-opens the hold
+create or replace function public.sync_claim_redemption()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    update coupon_claims set redeemed_at = new.redeemed_at
+     where coupon_id = new.coupon_id and user_id = new.user_id and redeemed_at is null;
+    return null;
+  end if;
+  update coupon_claims set redeemed_at = null
+   where coupon_id = old.coupon_id and user_id = old.user_id
+     and not exists (
+       select 1 from coupon_redemptions r
+        where r.coupon_id = old.coupon_id and r.user_id = old.user_id and r.id <> old.id
+     );
+  return null;
+end;
+$$;
+
+drop trigger if exists coupon_redemptions_claim on public.coupon_redemptions;
+create trigger coupon_redemptions_claim
+  after insert or delete on public.coupon_redemptions
+  for each row execute function public.sync_claim_redemption();
+
+revoke execute on function public.claim_coupon(uuid, interval) from anon;
+revoke execute on function public.release_expired_claims(uuid) from anon;
+
+-- Release lapsed holds every 15 minutes where pg_cron is available; claim_coupon() also
+-- releases them for the coupon being claimed.
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule('release-expired-coupon-claims', '*/15 * * * *',
+      'select public.release_expired_claims()');
+  end if;
+end;
+$$;
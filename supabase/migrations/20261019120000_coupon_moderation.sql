@@ -0,0 +1,185 @@
+-- Community reports and moderation for public coupons (lib/moderation.ts). Anyone can
+-- report a public coupon once (expired, fake, offensive, duplicate); when enough people
+-- report it, it's hidden from the feed until a moderator reviews it. Every moderation action,
+-- automatic or not, is written to moderation_log.
+-- Moderators are added by hand:  insert into public.moderators (user_id) values ('<uuid>');
+create table if not exists public.moderators (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+alter table public.moderators enable row level security;
+
+create or replace function public.is_moderator(p_user_id uuid default auth.uid())
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from moderators where user_id = p_user_id);
+$$;
+
+drop policy if exists "read own moderator row" on public.moderators;
+create policy "read own moderator row" on public.moderators
+  for select to authenticated using (user_id = auth.uid() or public.is_moderator());
+
+alter table public.coupons
+  add column if not exists hidden_at timestamptz; -- set while hidden from the feed (reports / moderator)
+
+create table if not exists public.coupon_reports (
+  id uuid primary key default gen_random_uuid(),
+  coupon_id uuid not null references public.coupons (id) on delete cascade,
+  reporter_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  reason text not null check (reason in ('expired', 'fake', 'offensive', 'duplicate')),
+  note text check (note is null or length(note) <= 500),
+  status text not null default 'open' check (status in ('open', 'dismissed', 'actioned')),
+  created_at timestamptz not null default now(),
+  resolved_at timestamptz,
+  resolved_by uuid references auth.users (id) on delete set null,
+  unique (coupon_id, reporter_id)
+);
+
+create index if not exists coupon_reports_open_idx on public.coupon_reports (created_at) where status = 'open';
+
+create table if not exists public.moderation_log (
+  id uuid primary key default gen_random_uuid(),
+  coupon_id uuid references public.coupons (id) on delete set null,
+  actor_id uuid references auth.users (id) on delete set null, -- null = automatic
+  action text not null check (action in ('auto_hide', 'hide', 'restore', 'remove')),
+  note text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists moderation_log_created_idx on public.moderation_log (created_at desc);
+
+alter table public.coupon_reports enable row level security;
+alter table public.moderation_log enable row level security;
+
+-- Report someone else's public coupon
+drop policy if exists "report public coupon" on public.coupon_reports;
+create policy "report public coupon" on public.coupon_reports
+  for insert to authenticated
+  with check (
+    reporter_id = auth.uid()
+    and exists (
+      select 1 from public.coupons c
+       where c.id = coupon_id and c.visibility = 'public' and c.owner_id <> auth.uid()
+    )
+  );
+
+drop policy if exists "read reports" on public.coupon_reports;
+create policy "read reports" on public.coupon_reports
+  for select to authenticated using (reporter_id = auth.uid() or public.is_moderator());
+
+drop policy if exists "moderators read log" on public.moderation_log;
+create policy "moderators read log" on public.moderation_log
+  for select to authenticated using (public.is_moderator());
+
+-- Hidden public coupons are only visible to their owner and moderators. Restrictive, so it
+-- applies on top of every read policy (public, saved, shared, group wallets).
+drop policy if exists "hidden coupons" on public.coupons;
+create policy "hidden coupons" on public.coupons
+  as restrictive
+  for select to authenticated
+  using (
+    hidden_at is null
+    or visibility <> 'public'
+    or owner_id = auth.uid()
+    or public.is_moderator()
+  );
+
+drop policy if exists "moderators read reported coupons" on public.coupons;
+create policy "moderators read reported coupons" on public.coupons
+  for select to authenticated
+  using (
+    public.is_moderator()
+    and exists (select 1 from public.coupon_reports r where r.coupon_id = coupons.id)
+  );
+
+-- Owners can't unhide their own coupon: hidden_at only changes from the functions below
+create or replace function public.guard_coupon_hidden()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.hidden_at is distinct from old.hidden_at and current_user in ('authenticated', 'anon') then
+    new.hidden_at := old.hidden_at;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists coupons_hidden_guard on public.coupons;
+create trigger coupons_hidden_guard
+  before update of hidden_at on public.coupons
+  for each row execute function public.guard_coupon_hidden();
+
+-- Hide a coupon once it has 3 open reports from different people
+create or replace function public.auto_hide_reported_coupon()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  n integer;
+begin
+  select count(*) into n from coupon_reports where coupon_id = new.coupon_id and status = 'open';
+  if n >= 3 then
+    update coupons set hidden_at = now() where id = new.coupon_id and hidden_at is null;
+    if found then
+      insert into moderation_log (coupon_id, actor_id, action, note)
+      values (new.coupon_id, null, 'auto_hide', n || ' open reports');
+    end if;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists coupon_reports_auto_hide on public.coupon_reports;
+create trigger coupon_reports_auto_hide
+  after insert on public.coupon_reports
+  for each row execute function public.auto_hide_reported_coupon();
+
+-- Moderator decision on a reported coupon:
+--   restore: back in the feed, open reports dismissed
+--   hide:    hidden from the feed (the owner still has it), open reports actioned
+--   remove:  made private, so it leaves the feed for good; open reports actioned
+create or replace function public.moderate_coupon(p_coupon_id uuid, p_action text, p_note text default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_moderator() then
+    raise exception 'Only moderators can do that' using errcode = '42501';
+  end if;
+  if p_action not in ('restore', 'hide', 'remove') then
+    raise exception 'Invalid action' using errcode = '22023';
+  end if;
+
+  if p_action = 'restore' then
+    update coupons set hidden_at = null where id = p_coupon_id;
+  elsif p_action = 'hide' then
+    update coupons set hidden_at = coalesce(hidden_at, now()) where id = p_coupon_id;
+  else
+    update coupons set visibility = 'private', hidden_at = null, updated_at = now() where id = p_coupon_id;
+  end if;
+  if not found then
+    raise exception 'Coupon not found' using errcode = 'P0002';
+  end if;
+
+  update coupon_reports
+     set status = case when p_action = 'restore' then 'dismissed' else 'actioned' end,
+         resolved_at = now(),
+         resolved_by = auth.uid()
+   where coupon_id = p_coupon_id and status = 'open';
+
+  insert into moderation_log (coupon_id, actor_id, action, note)
+  values (p_coupon_id, auth.uid(), p_action, nullif(trim(p_note), ''));
+end;
+$$;
+
+revoke execute on function public.moderate_coupon(uuid, text, text) from anon;
@@ -0,0 +1,36 @@
+-- "Best value" ordering. discount_value is the headline number, which isn't comparable across
+-- kinds ("50% off" vs "$40 off"). discount_worth estimates the saving in dollars instead; it
+-- is what the feed and lists sort on. Keep in sync with discountWorth() in lib/discount.ts.
+--   amount / tiered: the dollar value
+--   percent:         value% of the minimum spend, or of a $50 basket when there is none,
+--                    capped at max_discount
+--   bogo / buy_x_get_y / free_item: unknown (null, sorts last)
+create or replace function public.discount_worth(d jsonb)
+returns numeric
+language sql
+immutable
+as $$
+  select case d->>'kind'
+    when 'amount' then (d->>'value')::numeric
+    when 'tiered' then (d->>'value')::numeric
+    when 'percent' then (
+      select case when cap is null then w else least(w, cap) end
+        from (
+          select (d->>'value')::numeric / 100
+                   * coalesce((d->>'min_purchase')::numeric, 50) as w,
+                 (d->>'max_discount')::numeric as cap
+        ) x
+    )
+  end;
+$$;
+
+alter table public.coupons
+  add column if not exists discount_worth numeric
+    generated always as (public.discount_worth(discount)) stored;
+
+create index if not exists coupons_public_discount_worth_idx
+  on public.coupons (discount_worth desc nulls last)
+  where visibility = 'public';
+
+-- Nothing sorts on discount_value any more
+drop index if exists public.coupons_public_discount_value_idx;
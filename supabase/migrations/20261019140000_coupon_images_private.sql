@@ -0,0 +1,39 @@
+-- Coupon photos are no longer public: a photo of a private coupon can show a member number,
+-- an address or a barcode. The app shows them through signed URLs (lib/images.ts), and an
+-- object can be read by whoever can read the coupon that points at it. The check goes
+-- through public.coupons with the caller's RLS, so it follows every coupon read policy
+-- (owner, public feed, shares, group wallets, hidden coupons) without repeating them here.
+update storage.buckets set public = false where id = 'coupon-images';
+
+-- coupons.image_url is the object path (`<owner_id>/<key>.jpg`); rows written while the
+-- bucket was public hold the public URL instead.
+create or replace function public.coupon_image_path(p_url text)
+returns text
+language sql
+immutable
+as $$
+  select case
+    when p_url is null then null
+    when p_url !~ '^[a-zA-Z][a-zA-Z0-9+.-]*:' then p_url
+    when position('/object/public/coupon-images/' in p_url) > 0 then
+      split_part(split_part(p_url, '/object/public/coupon-images/', 2), '?', 1)
+  end;
+$$;
+
+create index if not exists coupons_image_path_idx
+  on public.coupons (public.coupon_image_path(image_url))
+  where image_url is not null;
+
+drop policy if exists "coupon images: readable with the coupon" on storage.objects;
+create policy "coupon images: readable with the coupon"
+  on storage.objects for select to authenticated
+  using (
+    bucket_id = 'coupon-images'
+    and (
+      (storage.foldername(name))[1] = auth.uid()::text
+      or exists (
+        select 1 from public.coupons c
+         where public.coupon_image_path(c.image_url) = regexp_replace(name, '_thumb\.jpg$', '.jpg')
+      )
+    )
+  );
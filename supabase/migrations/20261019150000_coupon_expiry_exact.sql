@@ -0,0 +1,8 @@
+-- Exact expiry filter for public queries. An expiry saved as a bare date is stored as midnight
+-- UTC and lasts until the end of that day on the device (expiryTime() in lib/coupons.ts), so
+-- the server couldn't tell it from a real midnight and queries kept a day of grace; the app
+-- then dropped the stragglers after paging, which left pages short. With expires_date_only
+-- the app filters exactly (activeCouponsFilter) before .range().
+alter table public.coupons
+  add column if not exists expires_date_only boolean
+    generated always as ((expires_at at time zone 'UTC')::time = time '00:00') stored;
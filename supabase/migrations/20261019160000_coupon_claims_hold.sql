@@ -0,0 +1,55 @@
+-- The claim hold is the server's call: claim_coupon() took it from the client (p_hold), so
+-- anyone could hold a single-claim coupon for a year. It's fixed at 48 hours now
+-- (CLAIM_HOLD_HOURS in lib/claims.ts shows the same number), capped at the coupon's expiry.
+drop function if exists public.claim_coupon(uuid, interval);
+
+create or replace function public.claim_coupon(p_coupon_id uuid)
+returns public.coupon_claims
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  c public.coupons;
+  mine public.coupon_claims;
+  active integer;
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in' using errcode = '42501';
+  end if;
+
+  -- Row lock: two people can't take the last claim at the same time
+  select * into c from coupons where id = p_coupon_id for update;
+  if c.id is null or c.visibility <> 'public' then
+    raise exception 'This coupon is no longer available' using errcode = 'P0002';
+  end if;
+  if c.expires_at is not null and c.expires_at < now() then
+    raise exception 'This coupon has expired' using errcode = '22023';
+  end if;
+
+  perform release_expired_claims(p_coupon_id);
+
+  select * into mine from coupon_claims where coupon_id = p_coupon_id and user_id = auth.uid();
+  if mine.id is not null then
+    return mine;
+  end if;
+
+  if c.claim_limit is not null then
+    select count(*) into active from coupon_claims where coupon_id = p_coupon_id;
+    if active >= c.claim_limit then
+      raise exception 'Already claimed by someone else' using errcode = 'P0001';
+    end if;
+  end if;
+
+  insert into coupon_claims (coupon_id, user_id, hold_until)
+  values (
+    p_coupon_id,
+    auth.uid(),
+    least(now() + interval '48 hours', coalesce(c.expires_at, 'infinity'::timestamptz))
+  )
+  returning * into mine;
+  return mine;
+end;
+$$;
+
+revoke execute on function public.claim_coupon(uuid) from anon;
@@ -0,0 +1,64 @@
+-- claims_count is refreshed only when a claim row changes, so a hold that lapses while nobody
+-- touches the coupon kept counting until the next cron run (or forever without pg_cron), and
+-- the feed showed "All claimed" for a coupon that was free again. claims_active() counts at
+-- read time; the feed selects it in place of claims_count (PostgREST computed field).
+create or replace function public.claims_active(c public.coupons)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select count(*)::integer
+    from coupon_claims k
+   where k.coupon_id = c.id and (k.redeemed_at is not null or k.hold_until > now());
+$$;
+
+revoke execute on function public.claims_active(public.coupons) from anon;
+
+-- Same as 20261019080000_coupon_archive.sql, with the live claim count for the Near me feed.
+create or replace function public.coupons_near(
+  p_lat double precision,
+  p_lng double precision,
+  p_radius_m double precision,
+  p_category text default null,
+  p_publication text default null,
+  p_independent boolean default false,
+  p_discount_kind text default null,
+  p_q text default null,
+  p_limit integer default 20,
+  p_offset integer default 0
+)
+returns table (coupon jsonb, distance_m double precision, total_count bigint)
+language sql
+stable
+as $$
+  with origin as (
+    select extensions.st_setsrid(extensions.st_makepoint(p_lng, p_lat), 4326)::extensions.geography as g
+  )
+  select
+    (to_jsonb(c) - 'geog') || jsonb_build_object('claims_count', public.claims_active(c)),
+    extensions.st_distance(c.geog, o.g),
+    count(*) over ()
+  from public.coupons c, origin o
+  where c.visibility = 'public'
+    and c.geog is not null
+    and extensions.st_dwithin(c.geog, o.g, p_radius_m)
+    and (c.expires_at is null or c.expires_at >= now() - interval '1 day')
+    and (p_category is null or c.category::text = p_category)
+    and (not p_independent or c.publication is null)
+    and (p_publication is null or c.publication ilike p_publication)
+    and (p_discount_kind is null or c.discount->>'kind' = p_discount_kind)
+    and (
+      p_q is null
+      or c.store ilike '%' || p_q || '%'
+      or c.title ilike '%' || p_q || '%'
+      or c.publication ilike '%' || p_q || '%'
+    )
+  order by 2, c.created_at desc
+  limit p_limit offset p_offset;
+$$;
+
+grant execute on function public.coupons_near(
+  double precision, double precision, double precision, text, text, boolean, text, text, integer, integer
+) to authenticated;
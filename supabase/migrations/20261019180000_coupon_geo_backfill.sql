@@ -0,0 +1,33 @@
+-- Coordinates geocoded on the device from a coupon's address (lib/geo.ts) are written back to
+-- attrs.geo, so the coupons_geog trigger fills geog and coupons_near() can find the coupon.
+-- Only the owner, only while attrs.geo is empty, and updated_at stays as it is: this isn't an
+-- edit and must not beat (or conflict with) a real edit queued on another device.
+create or replace function public.backfill_coupon_geo(
+  p_coupon_id uuid,
+  p_lat double precision,
+  p_lng double precision
+)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in' using errcode = '42501';
+  end if;
+  if p_lat is null or p_lng is null or abs(p_lat) > 90 or abs(p_lng) > 180 then
+    raise exception 'Invalid coordinates' using errcode = '22023';
+  end if;
+
+  update coupons
+     set attrs = coalesce(attrs, '{}'::jsonb)
+               || jsonb_build_object('geo', jsonb_build_object('lat', p_lat, 'lng', p_lng))
+   where id = p_coupon_id
+     and owner_id = auth.uid()
+     and attrs->'geo' is null;
+  return found;
+end;
+$$;
+
+revoke execute on function public.backfill_coupon_geo(uuid, double precision, double precision) from anon;
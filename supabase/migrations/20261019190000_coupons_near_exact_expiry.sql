@@ -0,0 +1,59 @@
+-- coupons_near() kept a day of grace on expires_at and getCouponsNear() dropped the expired
+-- rows after paging, so Near me pages came back short (the feed took that as the last page) and
+-- total_count counted expired coupons. The exact test from activeCouponsFilter() in
+-- lib/coupons.ts now runs here: p_today is the start of the device's local date, as UTC
+-- midnight, which is how a bare expiry date (expires_date_only) is stored.
+drop function if exists public.coupons_near(
+  double precision, double precision, double precision, text, text, boolean, text, text, integer, integer
+);
+
+create or replace function public.coupons_near(
+  p_lat double precision,
+  p_lng double precision,
+  p_radius_m double precision,
+  p_category text default null,
+  p_publication text default null,
+  p_independent boolean default false,
+  p_discount_kind text default null,
+  p_q text default null,
+  p_limit integer default 20,
+  p_offset integer default 0,
+  p_today timestamptz default null
+)
+returns table (coupon jsonb, distance_m double precision, total_count bigint)
+language sql
+stable
+as $$
+  with origin as (
+    select extensions.st_setsrid(extensions.st_makepoint(p_lng, p_lat), 4326)::extensions.geography as g
+  )
+  select
+    (to_jsonb(c) - 'geog') || jsonb_build_object('claims_count', public.claims_active(c)),
+    extensions.st_distance(c.geog, o.g),
+    count(*) over ()
+  from public.coupons c, origin o
+  where c.visibility = 'public'
+    and c.geog is not null
+    and extensions.st_dwithin(c.geog, o.g, p_radius_m)
+    and (
+      c.expires_at is null
+      or c.expires_at >= now()
+      or (c.expires_date_only and c.expires_at >= coalesce(p_today, date_trunc('day', now())))
+    )
+    and (p_category is null or c.category::text = p_category)
+    and (not p_independent or c.publication is null)
+    and (p_publication is null or c.publication ilike p_publication)
+    and (p_discount_kind is null or c.discount->>'kind' = p_discount_kind)
+    and (
+      p_q is null
+      or c.store ilike '%' || p_q || '%'
+      or c.title ilike '%' || p_q || '%'
+      or c.publication ilike '%' || p_q || '%'
+    )
+  order by 2, c.created_at desc
+  limit p_limit offset p_offset;
+$$;
+
+grant execute on function public.coupons_near(
+  double precision, double precision, double precision, text, text, boolean, text, text, integer, integer, timestamptz
+) to authenticated;
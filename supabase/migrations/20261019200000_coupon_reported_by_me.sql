@@ -0,0 +1,64 @@
+-- A coupon I reported stays out of my feed. The app only dropped the card from the list it
+-- had loaded, so the coupon came back on the next refresh. reported_by_me() is a PostgREST
+-- computed field the feed query filters on, and coupons_near() leaves those coupons out too.
+-- Runs as the caller: the coupon_reports RLS only shows people their own reports anyway.
+create or replace function public.reported_by_me(c public.coupons)
+returns boolean
+language sql
+stable
+as $$
+  select exists (
+    select 1 from public.coupon_reports r where r.coupon_id = c.id and r.reporter_id = auth.uid()
+  );
+$$;
+
+revoke execute on function public.reported_by_me(public.coupons) from anon;
+
+-- Same as 20261019190000_coupons_near_exact_expiry.sql, without the coupons I reported.
+create or replace function public.coupons_near(
+  p_lat double precision,
+  p_lng double precision,
+  p_radius_m double precision,
+  p_category text default null,
+  p_publication text default null,
+  p_independent boolean default false,
+  p_discount_kind text default null,
+  p_q text default null,
+  p_limit integer default 20,
+  p_offset integer default 0,
+  p_today timestamptz default null
+)
+returns table (coupon jsonb, distance_m double precision, total_count bigint)
+language sql
+stable
+as $$
+  with origin as (
+    select extensions.st_setsrid(extensions.st_makepoint(p_lng, p_lat), 4326)::extensions.geography as g
+  )
+  select
+    (to_jsonb(c) - 'geog') || jsonb_build_object('claims_count', public.claims_active(c)),
+    extensions.st_distance(c.geog, o.g),
+    count(*) over ()
+  from public.coupons c, origin o
+  where c.visibility = 'public'
+    and c.geog is not null
+    and extensions.st_dwithin(c.geog, o.g, p_radius_m)
+    and (
+      c.expires_at is null
+      or c.expires_at >= now()
+      or (c.expires_date_only and c.expires_at >= coalesce(p_today, date_trunc('day', now())))
+    )
+    and not public.reported_by_me(c)
+    and (p_category is null or c.category::text = p_category)
+    and (not p_independent or c.publication is null)
+    and (p_publication is null or c.publication ilike p_publication)
+    and (p_discount_kind is null or c.discount->>'kind' = p_discount_kind)
+    and (
+      p_q is null
+      or c.store ilike '%' || p_q || '%'
+      or c.title ilike '%' || p_q || '%'
+      or c.publication ilike '%' || p_q || '%'
+    )
+  order by 2, c.created_at desc
+  limit p_limit offset p_offset;
+$$;